@@ -11,6 +11,8 @@ import StudentDashboard from "./pages/StudentDashboard";
 import NotFound from "./pages/NotFound";
 import UploadBook from "./pages/UploadBook";
 import AdminUserManagement from "./pages/AdminUserManagement";
+import CirculationDesk from "./pages/CirculationDesk";
+import BookDetail from "./pages/BookDetail";
 
 const queryClient = new QueryClient();
 
@@ -28,6 +30,8 @@ const App = () => (
             <Route path="/student" element={<StudentDashboard />} />
             <Route path="/upload" element={<UploadBook />} />
             <Route path="/admin/users" element={<AdminUserManagement />} />
+            <Route path="/admin/desk" element={<CirculationDesk />} />
+            <Route path="/books/:id" element={<BookDetail />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
@@ -0,0 +1,24 @@
+import { Fragment } from "react";
+
+interface HighlightedTextProps {
+  text: string;
+  className?: string;
+}
+
+// Renders search highlights from the database without trusting the text as
+// HTML: every other segment between the <mark> tags is the match.
+const HighlightedText = ({ text, className }: HighlightedTextProps) => (
+  <span className={className}>
+    {text.split(/<\/?mark>/).map((segment, index) =>
+      index % 2 === 1 ? (
+        <mark key={index} className="bg-primary/20 text-foreground rounded-sm px-0.5">
+          {segment}
+        </mark>
+      ) : (
+        <Fragment key={index}>{segment}</Fragment>
+      )
+    )}
+  </span>
+);
+
+export default HighlightedText;
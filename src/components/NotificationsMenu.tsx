@@ -0,0 +1,90 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Bell } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+
+interface Notification {
+  id: string;
+  title: string;
+  body: string;
+  read_at: string | null;
+  created_at: string;
+}
+
+export default function NotificationsMenu() {
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+
+  useEffect(() => {
+    const fetchNotifications = async () => {
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from("notifications")
+        .select("id, title, body, read_at, created_at")
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: false })
+        .limit(20);
+
+      if (!error && data) {
+        setNotifications(data);
+      }
+    };
+
+    fetchNotifications();
+  }, [user]);
+
+  const unreadCount = notifications.filter((n) => !n.read_at).length;
+
+  // Opening the list marks everything in it as read
+  const markAllRead = async () => {
+    if (!user || unreadCount === 0) return;
+
+    const readAt = new Date().toISOString();
+    const { error } = await supabase
+      .from("notifications")
+      .update({ read_at: readAt })
+      .eq("user_id", user.id)
+      .is("read_at", null);
+
+    if (!error) {
+      setNotifications((current) => current.map((n) => ({ ...n, read_at: n.read_at ?? readAt })));
+    }
+  };
+
+  return (
+    <Popover onOpenChange={(open) => !open && markAllRead()}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 h-4 min-w-4 px-1 rounded-full bg-destructive text-[10px] leading-4 text-destructive-foreground">
+              {unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="px-4 py-3 border-b font-medium">Notifications</div>
+        {notifications.length === 0 ? (
+          <p className="px-4 py-6 text-sm text-center text-muted-foreground">No notifications yet</p>
+        ) : (
+          <ul className="max-h-80 overflow-y-auto divide-y">
+            {notifications.map((notification) => (
+              <li key={notification.id} className={`px-4 py-3 ${notification.read_at ? "" : "bg-primary/5"}`}>
+                <p className="text-sm font-medium">{notification.title}</p>
+                <p className="text-sm text-muted-foreground">{notification.body}</p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
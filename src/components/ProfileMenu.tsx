@@ -11,7 +11,7 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
-import { User, LogOut, Upload, Users as UsersIcon } from "lucide-react";
+import { User, LogOut, Upload, Users as UsersIcon, ScanBarcode } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 
 export default function ProfileMenu() {
@@ -78,6 +78,10 @@ export default function ProfileMenu() {
               <UsersIcon className="h-4 w-4 mr-2" />
               Manage Users
             </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => navigate("/admin/desk")}>
+              <ScanBarcode className="h-4 w-4 mr-2" />
+              Circulation Desk
+            </DropdownMenuItem>
             <DropdownMenuSeparator />
           </>
         )}
@@ -0,0 +1,89 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ChevronDown, History } from "lucide-react";
+import { format } from "date-fns";
+import { getErrorMessage } from "@/lib/libraryErrors";
+
+interface RequestEvent {
+  id: string;
+  from_status: string | null;
+  to_status: string;
+  actor_id: string | null;
+  created_at: string;
+}
+
+interface RequestTimelineProps {
+  requestId: string;
+  studentId: string;
+}
+
+const statusLabels: Record<string, string> = {
+  pending: "Requested",
+  approved: "Approved, ready for pickup",
+  issued: "Issued",
+  rejected: "Rejected",
+  cancelled: "Cancelled",
+  expired: "Expired",
+  returned: "Returned",
+  lost: "Reported lost",
+};
+
+// Status history of a borrow request, loaded the first time it is opened
+const RequestTimeline = ({ requestId, studentId }: RequestTimelineProps) => {
+  const [events, setEvents] = useState<RequestEvent[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEvents = async () => {
+    const { data, error } = await supabase
+      .from("borrow_request_events")
+      .select("id, from_status, to_status, actor_id, created_at")
+      .eq("request_id", requestId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      setError(getErrorMessage(error));
+      return;
+    }
+    setEvents(data || []);
+  };
+
+  const getActorLabel = (actorId: string | null) => {
+    if (!actorId) return "System";
+    return actorId === studentId ? "Student" : "Library staff";
+  };
+
+  return (
+    <Collapsible onOpenChange={(open) => open && !events && fetchEvents()}>
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" size="sm" className="group/timeline px-2 text-muted-foreground">
+          <History className="h-3 w-3 mr-1" />
+          History
+          <ChevronDown className="h-3 w-3 ml-1 transition-transform group-data-[state=open]/timeline:rotate-180" />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        {error ? (
+          <p className="text-sm text-destructive mt-2">{error}</p>
+        ) : !events ? (
+          <p className="text-sm text-muted-foreground mt-2">Loading history...</p>
+        ) : (
+          <ol className="mt-2 ml-2 border-l pl-4 space-y-3">
+            {events.map((event) => (
+              <li key={event.id} className="relative">
+                <span className="absolute -left-[21px] top-1.5 h-2 w-2 rounded-full bg-primary" />
+                <p className="text-sm font-medium">{statusLabels[event.to_status] ?? event.to_status}</p>
+                <p className="text-xs text-muted-foreground">
+                  {format(new Date(event.created_at), "PPp")} · {getActorLabel(event.actor_id)}
+                </p>
+              </li>
+            ))}
+          </ol>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default RequestTimeline;
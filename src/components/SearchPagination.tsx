@@ -0,0 +1,79 @@
+import { Fragment } from "react";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+
+interface SearchPaginationProps {
+  page: number;
+  pageSize: number;
+  total: number;
+  onPageChange: (page: number) => void;
+}
+
+// First, last and the pages around the current one, with gaps in between
+const getVisiblePages = (page: number, pageCount: number) => {
+  const pages = new Set([1, pageCount, page - 1, page, page + 1]);
+  return [...pages].filter((p) => p >= 1 && p <= pageCount).sort((a, b) => a - b);
+};
+
+const SearchPagination = ({ page, pageSize, total, onPageChange }: SearchPaginationProps) => {
+  const pageCount = Math.ceil(total / pageSize);
+  if (pageCount <= 1) return null;
+
+  const goTo = (target: number) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (target >= 1 && target <= pageCount && target !== page) onPageChange(target);
+  };
+
+  const visiblePages = getVisiblePages(page, pageCount);
+
+  return (
+    <div className="space-y-2">
+      <Pagination>
+        <PaginationContent>
+          <PaginationItem>
+            <PaginationPrevious
+              href="#"
+              onClick={goTo(page - 1)}
+              aria-disabled={page === 1}
+              className={page === 1 ? "pointer-events-none opacity-50" : ""}
+            />
+          </PaginationItem>
+          {visiblePages.map((p, index) => (
+            <Fragment key={p}>
+              {index > 0 && p - visiblePages[index - 1] > 1 && (
+                <PaginationItem>
+                  <PaginationEllipsis />
+                </PaginationItem>
+              )}
+              <PaginationItem>
+                <PaginationLink href="#" isActive={p === page} onClick={goTo(p)}>
+                  {p}
+                </PaginationLink>
+              </PaginationItem>
+            </Fragment>
+          ))}
+          <PaginationItem>
+            <PaginationNext
+              href="#"
+              onClick={goTo(page + 1)}
+              aria-disabled={page === pageCount}
+              className={page === pageCount ? "pointer-events-none opacity-50" : ""}
+            />
+          </PaginationItem>
+        </PaginationContent>
+      </Pagination>
+      <p className="text-center text-xs text-muted-foreground">
+        {(page - 1) * pageSize + 1}–{Math.min(page * pageSize, total)} of {total} books
+      </p>
+    </div>
+  );
+};
+
+export default SearchPagination;
@@ -0,0 +1,50 @@
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { HelpCircle } from "lucide-react";
+import { SEARCH_SYNTAX_EXAMPLES } from "@/lib/searchQuery";
+
+interface SearchSyntaxHelpProps {
+  onInsert: (example: string) => void;
+}
+
+// Cheat sheet for the advanced search syntax; picking an example adds it to the search
+const SearchSyntaxHelp = ({ onInsert }: SearchSyntaxHelpProps) => {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="ghost" size="icon" className="h-8 w-8" aria-label="Search syntax help">
+          <HelpCircle className="h-4 w-4 text-muted-foreground" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96">
+        <div className="space-y-3">
+          <div>
+            <h4 className="font-medium text-sm">Search syntax</h4>
+            <p className="text-xs text-muted-foreground">
+              Plain words search everything. Combine them with any of these; all terms must match.
+            </p>
+          </div>
+          <div className="space-y-2">
+            {SEARCH_SYNTAX_EXAMPLES.map(({ example, description }) => (
+              <div key={example} className="grid grid-cols-[9rem_1fr] items-start gap-2 text-xs">
+                <button
+                  type="button"
+                  className="text-left font-mono text-primary hover:underline"
+                  onClick={() => onInsert(example)}
+                >
+                  {example}
+                </button>
+                <span className="text-muted-foreground">{description}</span>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Quote values with spaces: <span className="font-mono">author:"muhammad basheer"</span>
+          </p>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default SearchSyntaxHelp;
@@ -0,0 +1,198 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Trash2, UserSearch } from "lucide-react";
+import { toast } from "sonner";
+import { z } from "zod";
+import { getErrorMessage } from "@/lib/libraryErrors";
+import { useDebounce } from "@/hooks/use-debounce";
+
+const aliasSchema = z.object({
+  author: z.string().trim().min(1, "Author is required").max(200),
+  alias: z.string().trim().min(1, "Alias is required").max(200),
+});
+
+interface AuthorAlias {
+  id: string;
+  author: string;
+  alias: string;
+}
+
+// Variant spellings that should find an author's books in catalog search,
+// e.g. "Bashir" for "Vaikom Muhammad Basheer"
+const AuthorAliases = () => {
+  const [aliases, setAliases] = useState<AuthorAlias[]>([]);
+  const [authors, setAuthors] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [author, setAuthor] = useState("");
+  const [alias, setAlias] = useState("");
+  const debouncedAuthor = useDebounce(author.trim());
+
+  useEffect(() => {
+    fetchAliases();
+  }, []);
+
+  // Author names are looked up as they are typed; the catalog is too large to list
+  useEffect(() => {
+    if (debouncedAuthor.length < 2) {
+      setAuthors([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    const fetchAuthors = async () => {
+      const { data, error } = await supabase.rpc("search_authors", { _query: debouncedAuthor });
+      if (cancelled) return;
+      if (error) {
+        toast.error("Error looking up authors: " + getErrorMessage(error));
+        return;
+      }
+      setAuthors((data || []).map((row) => row.author));
+    };
+
+    fetchAuthors();
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedAuthor]);
+
+  const fetchAliases = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("author_aliases")
+        .select("id, author, alias")
+        .order("author")
+        .order("alias");
+
+      if (error) throw error;
+      setAliases(data || []);
+    } catch (error) {
+      toast.error("Error loading author aliases: " + getErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAddAlias = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const validatedAlias = aliasSchema.parse({ author, alias });
+      const { error } = await supabase.from("author_aliases").insert({
+        author: validatedAlias.author,
+        alias: validatedAlias.alias,
+      });
+
+      if (error) throw error;
+      toast.success(`"${validatedAlias.alias}" now finds books by ${validatedAlias.author}`);
+      setAlias("");
+      fetchAliases();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else if (getErrorMessage(error).includes("duplicate")) {
+        toast.error("This alias is already recorded for the author");
+      } else {
+        toast.error("Error adding alias: " + getErrorMessage(error));
+      }
+    }
+  };
+
+  const deleteAlias = async (id: string) => {
+    try {
+      const { error } = await supabase.from("author_aliases").delete().eq("id", id);
+      if (error) throw error;
+      toast.success("Alias removed");
+      fetchAliases();
+    } catch (error) {
+      toast.error("Error removing alias: " + getErrorMessage(error));
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-8">Loading author aliases...</div>;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Author Aliases</CardTitle>
+        <CardDescription>
+          Other spellings of an author's name. Catalog search already tolerates small typos and common
+          transliteration differences; add an alias when a spelling is too different to match on its own.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleAddAlias} className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-3 items-end p-3 border rounded-md">
+          <div className="space-y-2">
+            <Label htmlFor="alias_author">Author (as catalogued)</Label>
+            <Input
+              id="alias_author"
+              list="alias_author_options"
+              placeholder="e.g., Vaikom Muhammad Basheer"
+              value={author}
+              onChange={(e) => setAuthor(e.target.value)}
+              required
+            />
+            <datalist id="alias_author_options">
+              {authors.map((name) => (
+                <option key={name} value={name} />
+              ))}
+            </datalist>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="alias_spelling">Also spelled</Label>
+            <Input
+              id="alias_spelling"
+              placeholder="e.g., Bashir"
+              value={alias}
+              onChange={(e) => setAlias(e.target.value)}
+              required
+            />
+          </div>
+          <Button type="submit">
+            <Plus className="h-4 w-4 mr-2" />
+            Add
+          </Button>
+        </form>
+
+        {aliases.length === 0 ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <UserSearch className="h-4 w-4" />
+            No author aliases yet
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Author</TableHead>
+                <TableHead>Also Spelled</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {aliases.map((entry) => (
+                <TableRow key={entry.id}>
+                  <TableCell className="font-medium">{entry.author}</TableCell>
+                  <TableCell>{entry.alias}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="destructive" size="sm" onClick={() => deleteAlias(entry.id)}>
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AuthorAliases;
@@ -0,0 +1,275 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Archive, Wrench, Undo2 } from "lucide-react";
+import { toast } from "sonner";
+
+type CopyCondition = "new" | "good" | "fair" | "poor" | "damaged";
+type CopyStatus = "available" | "on_loan" | "on_hold" | "damaged" | "lost" | "retired";
+
+interface BookCopy {
+  id: string;
+  accession_number: string;
+  barcode: string;
+  condition: CopyCondition;
+  status: CopyStatus;
+  notes: string | null;
+  acquired_on: string | null;
+}
+
+interface BookCopiesDialogProps {
+  book: { id: string; title: string } | null;
+  onOpenChange: (open: boolean) => void;
+  onCopiesChange: () => void;
+}
+
+const conditions: CopyCondition[] = ["new", "good", "fair", "poor", "damaged"];
+
+const BookCopiesDialog = ({ book, onOpenChange, onCopiesChange }: BookCopiesDialogProps) => {
+  const [copies, setCopies] = useState<BookCopy[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [newCopy, setNewCopy] = useState({
+    accession_number: "",
+    barcode: "",
+    condition: "good" as CopyCondition,
+  });
+
+  useEffect(() => {
+    if (book) {
+      fetchCopies(book.id);
+    }
+  }, [book]);
+
+  const fetchCopies = async (bookId: string) => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from("book_copies")
+        .select("id, accession_number, barcode, condition, status, notes, acquired_on")
+        .eq("book_id", bookId)
+        .order("accession_number");
+
+      if (error) throw error;
+      setCopies(data || []);
+    } catch (error) {
+      toast.error("Error loading copies: " + (error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAddCopy = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!book) return;
+
+    try {
+      setSaving(true);
+      const { error } = await supabase.from("book_copies").insert({
+        book_id: book.id,
+        // Left blank, the next accession number is assigned and the barcode defaults to it
+        accession_number: newCopy.accession_number.trim() || undefined,
+        barcode: newCopy.barcode.trim() || undefined,
+        condition: newCopy.condition,
+      });
+
+      if (error) throw error;
+      toast.success("Copy added");
+      setNewCopy({ accession_number: "", barcode: "", condition: "good" });
+      fetchCopies(book.id);
+      onCopiesChange();
+    } catch (error) {
+      const message = (error as Error).message;
+      if (message.includes("duplicate")) {
+        toast.error("A copy with this accession number or barcode already exists");
+      } else {
+        toast.error("Error adding copy: " + message);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateCopy = async (
+    copy: BookCopy,
+    changes: { status?: CopyStatus; condition?: CopyCondition; retired_at?: string | null },
+    successMessage: string
+  ) => {
+    if (!book) return;
+
+    try {
+      const { error } = await supabase
+        .from("book_copies")
+        .update(changes)
+        .eq("id", copy.id);
+
+      if (error) throw error;
+      toast.success(successMessage);
+      fetchCopies(book.id);
+      onCopiesChange();
+    } catch (error) {
+      toast.error("Error updating copy: " + (error as Error).message);
+    }
+  };
+
+  const retireCopy = (copy: BookCopy) => {
+    if (!confirm(`Retire copy ${copy.accession_number}? It will no longer count towards the collection.`)) return;
+    updateCopy(copy, { status: "retired", retired_at: new Date().toISOString() }, `Copy ${copy.accession_number} retired`);
+  };
+
+  return (
+    <Dialog open={!!book} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Copies</DialogTitle>
+          <DialogDescription>{book?.title}</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleAddCopy} className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end p-3 border rounded-md">
+          <div className="space-y-2">
+            <Label htmlFor="accession_number">Accession No</Label>
+            <Input
+              id="accession_number"
+              placeholder="Auto"
+              value={newCopy.accession_number}
+              onChange={(e) => setNewCopy({ ...newCopy, accession_number: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="barcode">Barcode</Label>
+            <Input
+              id="barcode"
+              placeholder="Same as accession"
+              value={newCopy.barcode}
+              onChange={(e) => setNewCopy({ ...newCopy, barcode: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Condition</Label>
+            <Select
+              value={newCopy.condition}
+              onValueChange={(value) => setNewCopy({ ...newCopy, condition: value as CopyCondition })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {conditions.map((condition) => (
+                  <SelectItem key={condition} value={condition} className="capitalize">
+                    {condition}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button type="submit" disabled={saving}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Copy
+          </Button>
+        </form>
+
+        {loading ? (
+          <div className="text-center py-8">Loading copies...</div>
+        ) : copies.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No copies recorded for this book yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Accession No</TableHead>
+                <TableHead>Barcode</TableHead>
+                <TableHead>Condition</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {copies.map((copy) => (
+                <TableRow key={copy.id} className={copy.status === "retired" ? "opacity-60" : undefined}>
+                  <TableCell className="font-medium">{copy.accession_number}</TableCell>
+                  <TableCell>{copy.barcode}</TableCell>
+                  <TableCell>
+                    <Select
+                      value={copy.condition}
+                      disabled={copy.status === "retired"}
+                      onValueChange={(value) =>
+                        updateCopy(copy, { condition: value as CopyCondition }, `Condition of ${copy.accession_number} updated`)
+                      }
+                    >
+                      <SelectTrigger className="h-8 w-[110px] capitalize">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {conditions.map((condition) => (
+                          <SelectItem key={condition} value={condition} className="capitalize">
+                            {condition}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>{getCopyStatusBadge(copy.status)}</TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      {copy.status === "available" && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          title="Withdraw for repair"
+                          onClick={() => updateCopy(copy, { status: "damaged" }, `Copy ${copy.accession_number} withdrawn`)}
+                        >
+                          <Wrench className="h-3 w-3" />
+                        </Button>
+                      )}
+                      {copy.status === "damaged" && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          title="Return to shelf"
+                          onClick={() => updateCopy(copy, { status: "available" }, `Copy ${copy.accession_number} back on the shelf`)}
+                        >
+                          <Undo2 className="h-3 w-3" />
+                        </Button>
+                      )}
+                      {!["on_loan", "on_hold", "retired"].includes(copy.status) && (
+                        <Button
+                          variant="destructive"
+                          size="sm"
+                          title="Retire copy"
+                          onClick={() => retireCopy(copy)}
+                        >
+                          <Archive className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const getCopyStatusBadge = (status: CopyStatus) => {
+  const variants: Record<CopyStatus, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+    available: { label: "Available", variant: "default" },
+    on_loan: { label: "On Loan", variant: "secondary" },
+    on_hold: { label: "On Hold Shelf", variant: "secondary" },
+    damaged: { label: "Damaged", variant: "destructive" },
+    lost: { label: "Lost", variant: "destructive" },
+    retired: { label: "Retired", variant: "outline" },
+  };
+  const config = variants[status];
+  return <Badge variant={config.variant}>{config.label}</Badge>;
+};
+
+export default BookCopiesDialog;
@@ -0,0 +1,431 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download, FileSpreadsheet, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { Category, getCategoryLabel, sortCategoryTree } from "@/lib/categories";
+import { getErrorMessage } from "@/lib/libraryErrors";
+import { isMarcFile, marcRecordsToTable, readMarcFile } from "@/lib/marc";
+import { SheetRow, downloadCsv, readSpreadsheet } from "@/lib/spreadsheet";
+import {
+  ColumnMapping,
+  IMPORT_FIELDS,
+  ImportField,
+  ImportRow,
+  buildErrorReport,
+  findCatalogDuplicates,
+  guessColumnMapping,
+  importBooks,
+  isImportable,
+  validateImportRows,
+} from "@/lib/bookImport";
+
+interface BookImportDialogProps {
+  categories: Category[];
+  onImported: () => void;
+}
+
+type ImportStep = "upload" | "preview" | "importing" | "done";
+
+// Select value for a field that isn't read from the file
+const NOT_IMPORTED = "none";
+
+// The preview table shows this many rows; the counts cover the whole file
+const PREVIEW_LIMIT = 100;
+
+const BookImportDialog = ({ categories, onImported }: BookImportDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [step, setStep] = useState<ImportStep>("upload");
+  const [fileName, setFileName] = useState("");
+  // MARC subjects that match no category fall back to the default category too
+  const [fromMarc, setFromMarc] = useState(false);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<SheetRow[]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [defaultCategoryId, setDefaultCategoryId] = useState("");
+  const [checkedRows, setCheckedRows] = useState<ImportRow[]>([]);
+  const [checkingDuplicates, setCheckingDuplicates] = useState(false);
+  const [problemsOnly, setProblemsOnly] = useState(false);
+  const [progress, setProgress] = useState({ imported: 0, processed: 0, total: 0 });
+  const [failures, setFailures] = useState<Map<number, string>>(new Map());
+
+  const validatedRows = useMemo(
+    () => (mapping ? validateImportRows(dataRows, mapping, categories, defaultCategoryId, fromMarc) : []),
+    [dataRows, mapping, categories, defaultCategoryId, fromMarc]
+  );
+
+  // Catalog duplicates need the server, so they are checked after local validation
+  useEffect(() => {
+    if (step !== "preview") return;
+    let cancelled = false;
+
+    const checkDuplicates = async () => {
+      try {
+        setCheckingDuplicates(true);
+        const rows = await findCatalogDuplicates(validatedRows);
+        if (!cancelled) setCheckedRows(rows);
+      } catch (error) {
+        if (!cancelled) {
+          toast.error("Error checking for duplicates: " + getErrorMessage(error));
+          setCheckedRows(validatedRows);
+        }
+      } finally {
+        if (!cancelled) setCheckingDuplicates(false);
+      }
+    };
+
+    checkDuplicates();
+    return () => {
+      cancelled = true;
+    };
+  }, [validatedRows, step]);
+
+  const reset = () => {
+    setStep("upload");
+    setFileName("");
+    setFromMarc(false);
+    setHeaders([]);
+    setDataRows([]);
+    setMapping(null);
+    setDefaultCategoryId("");
+    setCheckedRows([]);
+    setProblemsOnly(false);
+    setProgress({ imported: 0, processed: 0, total: 0 });
+    setFailures(new Map());
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      // MARC records are turned into a sheet and go through the same checks
+      const marc = isMarcFile(file.name);
+      const [headerRow, ...rows] = marc
+        ? marcRecordsToTable(await readMarcFile(file))
+        : await readSpreadsheet(file);
+      if (!headerRow || rows.length === 0) {
+        toast.error("The file needs a header row and at least one book");
+        return;
+      }
+
+      setFileName(file.name);
+      setFromMarc(marc);
+      setHeaders(headerRow.cells.map((header, index) => header.trim() || `Column ${index + 1}`));
+      setDataRows(rows);
+      setMapping(guessColumnMapping(headerRow.cells));
+      setStep("preview");
+    } catch (error) {
+      toast.error("Error reading file: " + getErrorMessage(error));
+    }
+  };
+
+  const downloadTemplate = () => {
+    downloadCsv("book-import-template.csv", [
+      IMPORT_FIELDS.map(({ label }) => label),
+      [
+        "Khasakkinte Itihasam",
+        "O. V. Vijayan",
+        categories.find((category) => !category.parent_id)?.name ?? "Fiction",
+        "",
+        "978-81-264-1234-5",
+        "DC Books",
+        "1969",
+        "Malayalam",
+        "2",
+        "250",
+        "",
+      ],
+    ]);
+  };
+
+  const setFieldColumn = (field: ImportField, value: string) => {
+    if (!mapping) return;
+    setMapping({ ...mapping, [field]: value === NOT_IMPORTED ? null : Number(value) });
+  };
+
+  const handleImport = async () => {
+    const rows = checkedRows.filter(isImportable);
+    setStep("importing");
+    setProgress({ imported: 0, processed: 0, total: rows.length });
+
+    try {
+      const result = await importBooks(rows, (imported, processed) =>
+        setProgress({ imported, processed, total: rows.length })
+      );
+      setFailures(result);
+      toast.success(`Imported ${rows.length - result.size} of ${rows.length} books`);
+    } catch (error) {
+      toast.error("Error importing books: " + getErrorMessage(error));
+    } finally {
+      setStep("done");
+      onImported();
+    }
+  };
+
+  const downloadErrorReport = () => {
+    const baseName = fileName.replace(/\.[^.]+$/, "");
+    downloadCsv(`${baseName}-import-errors.csv`, buildErrorReport(headers, checkedRows, failures));
+  };
+
+  const missingRequired = mapping
+    ? IMPORT_FIELDS.filter(
+        ({ field, required }) => required && mapping[field] === null && !(field === "category" && defaultCategoryId)
+      )
+    : [];
+  const readyCount = checkedRows.filter(isImportable).length;
+  const errorCount = checkedRows.filter((row) => row.errors.length > 0).length;
+  const duplicateCount = checkedRows.filter((row) => row.errors.length === 0 && row.duplicateOf).length;
+  const previewRows = (problemsOnly ? checkedRows.filter((row) => !isImportable(row)) : checkedRows).slice(
+    0,
+    PREVIEW_LIMIT
+  );
+  const skippedCount = checkedRows.length - progress.total + failures.size;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        if (step === "importing") return;
+        setOpen(nextOpen);
+        if (!nextOpen) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <FileSpreadsheet className="h-4 w-4 mr-2" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Books</DialogTitle>
+          <DialogDescription>
+            Add many books at once from a CSV or Excel (.xlsx) sheet with one book per row and a header row, or
+            from MARC 21 (.mrc) or MARCXML records exported by another library.
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="import_file">Spreadsheet or MARC file</Label>
+              <Input
+                id="import_file"
+                type="file"
+                accept=".csv,.tsv,.txt,.xlsx,.mrc,.marc,.xml"
+                onChange={handleFileChange}
+              />
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Categories are matched by name, e.g. <span className="font-mono">History</span> or{" "}
+              <span className="font-mono">History › Kerala</span>; for MARC records the first subject (650) is used,
+              and records whose subject matches no category go into a category you choose.
+              Books whose ISBN is already catalogued are skipped.
+            </p>
+            <Button variant="link" className="h-auto p-0" onClick={downloadTemplate}>
+              <Download className="h-4 w-4 mr-2" />
+              Download a template
+            </Button>
+          </div>
+        )}
+
+        {step === "preview" && mapping && (
+          <div className="space-y-6">
+            <div className="space-y-3">
+              <h4 className="font-medium">Columns in {fileName}</h4>
+              <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+                {IMPORT_FIELDS.map(({ field, label, required }) => (
+                  <div key={field} className="space-y-1">
+                    <Label className="text-xs">
+                      {label}
+                      {required && " *"}
+                    </Label>
+                    <Select
+                      value={mapping[field] === null ? NOT_IMPORTED : String(mapping[field])}
+                      onValueChange={(value) => setFieldColumn(field, value)}
+                    >
+                      <SelectTrigger className="h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NOT_IMPORTED}>— Not imported —</SelectItem>
+                        {headers.map((header, index) => (
+                          <SelectItem key={index} value={String(index)}>
+                            {header}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+                <div className="space-y-1">
+                  <Label className="text-xs">
+                    {fromMarc ? "Category for unmatched subjects" : "Category for rows without one"}
+                  </Label>
+                  <Select
+                    value={defaultCategoryId || NOT_IMPORTED}
+                    onValueChange={(value) => setDefaultCategoryId(value === NOT_IMPORTED ? "" : value)}
+                  >
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_IMPORTED}>— None —</SelectItem>
+                      {sortCategoryTree(categories).map((category) => (
+                        <SelectItem key={category.id} value={category.id}>
+                          {getCategoryLabel(category.id, categories)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              {missingRequired.length > 0 && (
+                <p className="text-sm text-destructive">
+                  Choose the column for {missingRequired.map(({ label }) => label).join(", ")}.
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex flex-wrap gap-2">
+                  <Badge>{readyCount} ready</Badge>
+                  <Badge variant="destructive">{errorCount} with errors</Badge>
+                  <Badge variant="secondary">{duplicateCount} duplicates</Badge>
+                  {checkingDuplicates && (
+                    <span className="text-xs text-muted-foreground">Checking the catalog for duplicates...</span>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch id="problems_only" checked={problemsOnly} onCheckedChange={setProblemsOnly} />
+                  <Label htmlFor="problems_only" className="text-sm">
+                    Only rows with problems
+                  </Label>
+                </div>
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Row</TableHead>
+                    <TableHead>Title</TableHead>
+                    <TableHead>Author</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead>ISBN</TableHead>
+                    <TableHead className="w-16">Copies</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {previewRows.map((row) => {
+                    const read = (field: ImportField) =>
+                      mapping[field] === null ? "" : row.cells[mapping[field]!] ?? "";
+                    return (
+                      <TableRow key={row.rowNumber}>
+                        <TableCell className="text-muted-foreground">{row.rowNumber}</TableCell>
+                        <TableCell className="font-medium">{row.book?.title ?? read("title")}</TableCell>
+                        <TableCell>{row.book?.author ?? read("author")}</TableCell>
+                        <TableCell>
+                          {row.book ? getCategoryLabel(row.book.category_id, categories) : read("category")}
+                        </TableCell>
+                        <TableCell>{read("isbn")}</TableCell>
+                        <TableCell>{row.book?.copies ?? read("copies")}</TableCell>
+                        <TableCell>
+                          {row.errors.length > 0 ? (
+                            <ul className="text-xs text-destructive space-y-0.5">
+                              {row.errors.map((error) => (
+                                <li key={error}>{error}</li>
+                              ))}
+                            </ul>
+                          ) : row.duplicateOf ? (
+                            <span className="text-xs text-muted-foreground">Duplicate of {row.duplicateOf}</span>
+                          ) : (
+                            <Badge variant="outline">Ready</Badge>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+              {(problemsOnly ? checkedRows.length - readyCount : checkedRows.length) > PREVIEW_LIMIT && (
+                <p className="text-xs text-muted-foreground text-center">
+                  Showing the first {PREVIEW_LIMIT} rows. The error report lists every row that is skipped.
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {step === "importing" && (
+          <div className="space-y-3 py-6">
+            <Progress value={progress.total ? (progress.processed / progress.total) * 100 : 0} />
+            <p className="text-sm text-muted-foreground text-center">
+              Imported {progress.imported} of {progress.total} books...
+            </p>
+          </div>
+        )}
+
+        {step === "done" && (
+          <div className="space-y-2 py-6 text-center">
+            <p className="font-medium">
+              Imported {progress.imported} {progress.imported === 1 ? "book" : "books"} from {fileName}.
+            </p>
+            {skippedCount > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {skippedCount} {skippedCount === 1 ? "row was" : "rows were"} skipped. Download the error report, fix
+                those rows and import the report again.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === "preview" && (
+            <>
+              <Button variant="outline" onClick={reset}>
+                Choose Another File
+              </Button>
+              <Button
+                onClick={handleImport}
+                disabled={missingRequired.length > 0 || checkingDuplicates || readyCount === 0}
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                Import {readyCount} {readyCount === 1 ? "Book" : "Books"}
+              </Button>
+            </>
+          )}
+          {step === "done" && (
+            <>
+              {skippedCount > 0 && (
+                <Button variant="outline" onClick={downloadErrorReport}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Download Error Report
+                </Button>
+              )}
+              <Button
+                onClick={() => {
+                  setOpen(false);
+                  reset();
+                }}
+              >
+                Done
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BookImportDialog;
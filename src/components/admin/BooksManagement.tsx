@@ -1,4 +1,5 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
+import { Link } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -7,35 +8,35 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Plus, Edit, Trash2, BookOpen, Upload, X } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Plus, Edit, Trash2, BookOpen, Upload, X, Layers, Search, AlertCircle, Download, FileCode } from "lucide-react";
 import { toast } from "sonner";
 import { z } from "zod";
+import BookCopiesDialog from "@/components/admin/BookCopiesDialog";
+import BookImportDialog from "@/components/admin/BookImportDialog";
+import { Category, fetchCategories, getCategoryLabel, sortCategoryTree } from "@/lib/categories";
+import { BookSearchResult, SEARCH_PAGE_SIZE, searchBooks } from "@/lib/bookSearch";
+import { bookSchema } from "@/lib/bookSchema";
+import { CATALOG_EXPORT_FORMATS, CatalogExportFormat, exportBookAsMarc, exportCatalog } from "@/lib/catalogExport";
+import { MarcFormat } from "@/lib/marc";
+import { getErrorMessage } from "@/lib/libraryErrors";
+import { parseSearchQuery } from "@/lib/searchQuery";
+import { useDebounce } from "@/hooks/use-debounce";
+import HighlightedText from "@/components/HighlightedText";
+import SearchPagination from "@/components/SearchPagination";
+import SearchSyntaxHelp from "@/components/SearchSyntaxHelp";
 
-const bookSchema = z.object({
-  title: z.string().min(1, "Title is required").max(200),
-  author: z.string().min(1, "Author is required").max(200),
-  category: z.string().min(1, "Category is required").max(100),
-  description: z.string().max(1000).optional(),
-  isbn: z.string().max(20).optional(),
-  publisher: z.string().max(200).optional(),
-  year_published: z.number().min(1000).max(9999).optional(),
-  total_count: z.number().min(1, "Must have at least 1 copy"),
-  photo_url: z.string().url().optional().or(z.literal("")),
-});
-
-interface Book {
-  id: string;
-  title: string;
-  author: string;
-  category: string;
-  description?: string;
-  isbn?: string;
-  photo_url?: string;
-  publisher?: string;
-  year_published?: number;
-  total_count: number;
-  available_count: number;
-}
+type Book = BookSearchResult;
+
+// Suggestions only; any language can be typed in
+const BOOK_LANGUAGES = ["English", "Malayalam", "Arabic", "Urdu", "Hindi", "Tamil"];
 
 interface BooksManagementProps {
   onStatsUpdate: (totalBooks: number, availableBooks: number) => void;
@@ -43,46 +44,73 @@ interface BooksManagementProps {
 
 const BooksManagement = ({ onStatsUpdate }: BooksManagementProps) => {
   const [books, setBooks] = useState<Book[]>([]);
+  const [totalBooks, setTotalBooks] = useState(0);
+  const [page, setPage] = useState(1);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [categories, setCategories] = useState<Category[]>([]);
   const [loading, setLoading] = useState(true);
+  const latestSearch = useRef(0);
+  const debouncedQuery = useDebounce(searchQuery);
+  const parsedQuery = useMemo(() => parseSearchQuery(debouncedQuery), [debouncedQuery]);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingBook, setEditingBook] = useState<Book | null>(null);
+  const [copiesBook, setCopiesBook] = useState<Book | null>(null);
   const [uploading, setUploading] = useState(false);
+  const [exporting, setExporting] = useState(false);
   const [photoFile, setPhotoFile] = useState<File | null>(null);
   const [photoPreview, setPhotoPreview] = useState<string>("");
   const [formData, setFormData] = useState({
     title: "",
     author: "",
-    category: "",
+    category_id: "",
     description: "",
     isbn: "",
     publisher: "",
     year_published: "",
-    total_count: "1",
+    language: "",
+    initial_copies: "1",
+    replacement_cost: "",
     photo_url: "",
   });
 
+  useEffect(() => {
+    setPage(1);
+  }, [debouncedQuery]);
+
   useEffect(() => {
     fetchBooks();
-  }, []);
+  }, [parsedQuery, page]);
 
+  // Newest first while browsing, best match first while searching
   const fetchBooks = async () => {
+    const searchId = ++latestSearch.current;
+
     try {
-      const { data, error } = await supabase
-        .from("books")
-        .select("*")
-        .order("created_at", { ascending: false });
+      const [result, categoryList, { data: stats, error: statsError }] = await Promise.all([
+        searchBooks({
+          query: parsedQuery.text,
+          terms: parsedQuery.terms,
+          sort: parsedQuery.text ? "relevance" : "newest",
+          page,
+        }),
+        fetchCategories(),
+        supabase.rpc("get_catalog_stats"),
+      ]);
 
-      if (error) throw error;
-      setBooks(data || []);
-      
-      const totalBooks = data?.length || 0;
-      const availableBooks = data?.reduce((sum, book) => sum + (book.available_count || 0), 0) || 0;
-      
-      onStatsUpdate(totalBooks, availableBooks);
-    } catch (error: any) {
-      toast.error("Error loading books: " + error.message);
+      if (statsError) throw statsError;
+      if (searchId !== latestSearch.current) return;
+      setBooks(result.books);
+      setTotalBooks(result.total);
+      setCategories(categoryList);
+      onStatsUpdate(stats?.[0]?.total_books ?? 0, stats?.[0]?.available_copies ?? 0);
+    } catch (error) {
+      if (searchId === latestSearch.current) {
+        toast.error("Error loading books: " + getErrorMessage(error));
+      }
     } finally {
-      setLoading(false);
+      if (searchId === latestSearch.current) {
+        setLoading(false);
+      }
     }
   };
 
@@ -90,12 +118,14 @@ const BooksManagement = ({ onStatsUpdate }: BooksManagementProps) => {
     setFormData({
       title: "",
       author: "",
-      category: "",
+      category_id: "",
       description: "",
       isbn: "",
       publisher: "",
       year_published: "",
-      total_count: "1",
+      language: "",
+      initial_copies: "1",
+      replacement_cost: "",
       photo_url: "",
     });
     setEditingBook(null);
@@ -155,33 +185,36 @@ const BooksManagement = ({ onStatsUpdate }: BooksManagementProps) => {
       const validatedData = bookSchema.parse({
         ...formData,
         year_published: formData.year_published ? parseInt(formData.year_published) : undefined,
-        total_count: parseInt(formData.total_count),
+        language: formData.language.trim() || null,
+        initial_copies: editingBook ? undefined : parseInt(formData.initial_copies),
+        replacement_cost: formData.replacement_cost ? parseFloat(formData.replacement_cost) : null,
         photo_url: photoUrl || formData.photo_url || undefined,
       });
 
       if (editingBook) {
+        const { initial_copies, ...bookData } = validatedData;
         const { error } = await supabase
           .from("books")
-          .update(validatedData)
+          .update(bookData)
           .eq("id", editingBook.id);
 
         if (error) throw error;
         toast.success("Book updated successfully");
       } else {
-        const { error } = await supabase
-          .from("books")
-          .insert([{
-            title: validatedData.title,
-            author: validatedData.author,
-            category: validatedData.category,
-            description: formData.description || null,
-            isbn: validatedData.isbn,
-            publisher: validatedData.publisher,
-            year_published: validatedData.year_published,
-            total_count: validatedData.total_count,
-            available_count: validatedData.total_count,
-            photo_url: validatedData.photo_url,
-          }]);
+        // The book and its copies go in together
+        const { error } = await supabase.rpc("add_book", {
+          _title: validatedData.title,
+          _author: validatedData.author,
+          _category_id: validatedData.category_id,
+          _description: formData.description || undefined,
+          _isbn: validatedData.isbn,
+          _publisher: validatedData.publisher,
+          _year_published: validatedData.year_published,
+          _language: validatedData.language ?? undefined,
+          _photo_url: validatedData.photo_url,
+          _replacement_cost: validatedData.replacement_cost ?? undefined,
+          _copies: validatedData.initial_copies ?? 1,
+        });
 
         if (error) throw error;
         toast.success("Book added successfully");
@@ -194,7 +227,7 @@ const BooksManagement = ({ onStatsUpdate }: BooksManagementProps) => {
       if (error instanceof z.ZodError) {
         toast.error(error.errors[0].message);
       } else {
-        toast.error("Error saving book: " + error.message);
+        toast.error("Error saving book: " + getErrorMessage(error));
       }
     }
   };
@@ -204,12 +237,14 @@ const BooksManagement = ({ onStatsUpdate }: BooksManagementProps) => {
     setFormData({
       title: book.title,
       author: book.author,
-      category: book.category,
+      category_id: book.category_id,
       description: book.description || "",
       isbn: book.isbn || "",
       publisher: book.publisher || "",
       year_published: book.year_published?.toString() || "",
-      total_count: book.total_count.toString(),
+      language: book.language || "",
+      initial_copies: "1",
+      replacement_cost: book.replacement_cost?.toString() || "",
       photo_url: book.photo_url || "",
     });
     setPhotoPreview(book.photo_url || "");
@@ -230,6 +265,32 @@ const BooksManagement = ({ onStatsUpdate }: BooksManagementProps) => {
     }
   };
 
+  // Either the whole catalog or the books matching the search box
+  const handleExport = async (exportFormat: CatalogExportFormat, matchingSearch: boolean) => {
+    try {
+      setExporting(true);
+      await exportCatalog(
+        exportFormat,
+        matchingSearch ? { query: parsedQuery.text, terms: parsedQuery.terms } : undefined
+      );
+      toast.success("Catalog exported");
+    } catch (error) {
+      toast.error("Error exporting catalog: " + getErrorMessage(error));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleMarcExport = (book: Book, exportFormat: MarcFormat) => {
+    try {
+      exportBookAsMarc({ ...book, category: getCategoryLabel(book.category_id, categories) }, exportFormat);
+    } catch (error) {
+      toast.error("Error exporting record: " + getErrorMessage(error));
+    }
+  };
+
+  const hasSearch = Boolean(parsedQuery.text || parsedQuery.terms.length);
+
   if (loading) {
     return <div className="text-center py-8">Loading books...</div>;
   }
@@ -241,181 +302,264 @@ const BooksManagement = ({ onStatsUpdate }: BooksManagementProps) => {
           <h2 className="text-2xl font-bold">Books Management</h2>
           <p className="text-muted-foreground">Add, edit, and manage library books</p>
         </div>
-        <Dialog open={dialogOpen} onOpenChange={(open) => {
-          setDialogOpen(open);
-          if (!open) resetForm();
-        }}>
-          <DialogTrigger asChild>
-            <Button>
-              <Plus className="h-4 w-4 mr-2" />
-              Add Book
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
-            <DialogHeader>
-              <DialogTitle>{editingBook ? "Edit Book" : "Add New Book"}</DialogTitle>
-              <DialogDescription>
-                {editingBook ? "Update book information" : "Enter details for the new book"}
-              </DialogDescription>
-            </DialogHeader>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="title">Title *</Label>
-                  <Input
-                    id="title"
-                    value={formData.title}
-                    onChange={(e) => setFormData({ ...formData, title: e.target.value })}
-                    required
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="author">Author *</Label>
-                  <Input
-                    id="author"
-                    value={formData.author}
-                    onChange={(e) => setFormData({ ...formData, author: e.target.value })}
-                    required
-                  />
-                </div>
-                <div className="space-y-2 col-span-2">
-                  <Label htmlFor="category">Category *</Label>
-                  <Select
-                    value={formData.category}
-                    onValueChange={(value) => setFormData({ ...formData, category: value })}
-                    required
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select category" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="Novel">Novel</SelectItem>
-                      <SelectItem value="Autobiography">Autobiography</SelectItem>
-                      <SelectItem value="Study">Study</SelectItem>
-                      <SelectItem value="History">History</SelectItem>
-                      <SelectItem value="Reference">Reference</SelectItem>
-                      <SelectItem value="Fiction">Fiction</SelectItem>
-                      <SelectItem value="Non-Fiction">Non-Fiction</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-                <div className="space-y-2 col-span-2">
-                  <Label htmlFor="description">Description</Label>
-                  <Textarea
-                    id="description"
-                    placeholder="Brief description of the book..."
-                    value={formData.description}
-                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-                    rows={3}
-                  />
-                </div>
-                <div className="space-y-2 col-span-2">
-                  <Label>Book Photo</Label>
-                  <div className="space-y-3">
-                    {photoPreview && (
-                      <div className="relative inline-block">
-                        <img
-                          src={photoPreview}
-                          alt="Book preview"
-                          className="w-32 h-40 object-cover rounded-lg border"
+        <div className="flex gap-2">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" disabled={exporting}>
+                <Download className="h-4 w-4 mr-2" />
+                {exporting ? "Exporting..." : "Export"}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-56">
+              <DropdownMenuLabel>All books</DropdownMenuLabel>
+              {CATALOG_EXPORT_FORMATS.map(({ format, label }) => (
+                <DropdownMenuItem key={format} onClick={() => handleExport(format, false)}>
+                  {label}
+                </DropdownMenuItem>
+              ))}
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>
+                {hasSearch ? `Matching current search (${totalBooks})` : "Matching current search"}
+              </DropdownMenuLabel>
+              {CATALOG_EXPORT_FORMATS.map(({ format, label }) => (
+                <DropdownMenuItem
+                  key={format}
+                  disabled={!hasSearch || parsedQuery.errors.length > 0}
+                  onClick={() => handleExport(format, true)}
+                >
+                  {label}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <BookImportDialog categories={categories} onImported={fetchBooks} />
+          <Dialog open={dialogOpen} onOpenChange={(open) => {
+            setDialogOpen(open);
+            if (!open) resetForm();
+          }}>
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Book
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>{editingBook ? "Edit Book" : "Add New Book"}</DialogTitle>
+                <DialogDescription>
+                  {editingBook ? "Update book information" : "Enter details for the new book"}
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="title">Title *</Label>
+                    <Input
+                      id="title"
+                      value={formData.title}
+                      onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="author">Author *</Label>
+                    <Input
+                      id="author"
+                      value={formData.author}
+                      onChange={(e) => setFormData({ ...formData, author: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2 col-span-2">
+                    <Label htmlFor="category">Category *</Label>
+                    <Select
+                      value={formData.category_id}
+                      onValueChange={(value) => setFormData({ ...formData, category_id: value })}
+                      required
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select category" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {sortCategoryTree(categories).map((category) => (
+                          <SelectItem key={category.id} value={category.id}>
+                            {getCategoryLabel(category.id, categories)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2 col-span-2">
+                    <Label htmlFor="description">Description</Label>
+                    <Textarea
+                      id="description"
+                      placeholder="Brief description of the book..."
+                      value={formData.description}
+                      onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                      rows={3}
+                    />
+                  </div>
+                  <div className="space-y-2 col-span-2">
+                    <Label>Book Photo</Label>
+                    <div className="space-y-3">
+                      {photoPreview && (
+                        <div className="relative inline-block">
+                          <img
+                            src={photoPreview}
+                            alt="Book preview"
+                            className="w-32 h-40 object-cover rounded-lg border"
+                          />
+                          <Button
+                            type="button"
+                            variant="destructive"
+                            size="icon"
+                            className="absolute -top-2 -right-2 h-6 w-6"
+                            onClick={() => {
+                              setPhotoFile(null);
+                              setPhotoPreview("");
+                              setFormData({ ...formData, photo_url: "" });
+                            }}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      )}
+                      <div className="flex items-center gap-2">
+                        <Input
+                          id="photo"
+                          type="file"
+                          accept="image/*"
+                          onChange={handlePhotoChange}
+                          className="hidden"
                         />
                         <Button
                           type="button"
-                          variant="destructive"
-                          size="icon"
-                          className="absolute -top-2 -right-2 h-6 w-6"
-                          onClick={() => {
-                            setPhotoFile(null);
-                            setPhotoPreview("");
-                            setFormData({ ...formData, photo_url: "" });
-                          }}
+                          variant="outline"
+                          onClick={() => document.getElementById('photo')?.click()}
                         >
-                          <X className="h-4 w-4" />
+                          <Upload className="h-4 w-4 mr-2" />
+                          Choose Photo
                         </Button>
+                        <span className="text-sm text-muted-foreground">
+                          {photoFile ? photoFile.name : "No file chosen"}
+                        </span>
                       </div>
-                    )}
-                    <div className="flex items-center gap-2">
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="isbn">Book No</Label>
+                    <Input
+                      id="isbn"
+                      value={formData.isbn}
+                      onChange={(e) => setFormData({ ...formData, isbn: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="publisher">Publisher</Label>
+                    <Input
+                      id="publisher"
+                      value={formData.publisher}
+                      onChange={(e) => setFormData({ ...formData, publisher: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="year">Year Published</Label>
+                    <Input
+                      id="year"
+                      type="number"
+                      value={formData.year_published}
+                      onChange={(e) => setFormData({ ...formData, year_published: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="language">Language</Label>
+                    <Input
+                      id="language"
+                      list="book_languages"
+                      placeholder="e.g., Malayalam"
+                      value={formData.language}
+                      onChange={(e) => setFormData({ ...formData, language: e.target.value })}
+                    />
+                    <datalist id="book_languages">
+                      {BOOK_LANGUAGES.map((language) => (
+                        <option key={language} value={language} />
+                      ))}
+                    </datalist>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="replacement_cost">Replacement Cost (₹)</Label>
+                    <Input
+                      id="replacement_cost"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="Library default"
+                      value={formData.replacement_cost}
+                      onChange={(e) => setFormData({ ...formData, replacement_cost: e.target.value })}
+                    />
+                    <p className="text-xs text-muted-foreground">Charged if a borrower loses or damages a copy</p>
+                  </div>
+                  {!editingBook && (
+                    <div className="space-y-2">
+                      <Label htmlFor="initial_copies">Number of Copies *</Label>
                       <Input
-                        id="photo"
-                        type="file"
-                        accept="image/*"
-                        onChange={handlePhotoChange}
-                        className="hidden"
+                        id="initial_copies"
+                        type="number"
+                        min="1"
+                        value={formData.initial_copies}
+                        onChange={(e) => setFormData({ ...formData, initial_copies: e.target.value })}
+                        required
                       />
-                      <Button
-                        type="button"
-                        variant="outline"
-                        onClick={() => document.getElementById('photo')?.click()}
-                      >
-                        <Upload className="h-4 w-4 mr-2" />
-                        Choose Photo
-                      </Button>
-                      <span className="text-sm text-muted-foreground">
-                        {photoFile ? photoFile.name : "No file chosen"}
-                      </span>
+                      <p className="text-xs text-muted-foreground">Accession numbers are assigned automatically</p>
                     </div>
+                  )}
+                  <div className="space-y-2 col-span-2">
+                    <Label htmlFor="photo_url">Photo URL (optional)</Label>
+                    <Input
+                      id="photo_url"
+                      type="url"
+                      placeholder="https://example.com/book-cover.jpg"
+                      value={formData.photo_url}
+                      onChange={(e) => setFormData({ ...formData, photo_url: e.target.value })}
+                    />
+                    <p className="text-xs text-muted-foreground">Or upload a photo above</p>
                   </div>
                 </div>
-                <div className="space-y-2">
-                  <Label htmlFor="isbn">Book No</Label>
-                  <Input
-                    id="isbn"
-                    value={formData.isbn}
-                    onChange={(e) => setFormData({ ...formData, isbn: e.target.value })}
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="publisher">Publisher</Label>
-                  <Input
-                    id="publisher"
-                    value={formData.publisher}
-                    onChange={(e) => setFormData({ ...formData, publisher: e.target.value })}
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="year">Year Published</Label>
-                  <Input
-                    id="year"
-                    type="number"
-                    value={formData.year_published}
-                    onChange={(e) => setFormData({ ...formData, year_published: e.target.value })}
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="total">Total Copies *</Label>
-                  <Input
-                    id="total"
-                    type="number"
-                    min="1"
-                    value={formData.total_count}
-                    onChange={(e) => setFormData({ ...formData, total_count: e.target.value })}
-                    required
-                  />
-                </div>
-                <div className="space-y-2 col-span-2">
-                  <Label htmlFor="photo_url">Photo URL (optional)</Label>
-                  <Input
-                    id="photo_url"
-                    type="url"
-                    placeholder="https://example.com/book-cover.jpg"
-                    value={formData.photo_url}
-                    onChange={(e) => setFormData({ ...formData, photo_url: e.target.value })}
-                  />
-                  <p className="text-xs text-muted-foreground">Or upload a photo above</p>
-                </div>
-              </div>
-              <DialogFooter>
-                <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
-                  Cancel
-                </Button>
-                <Button type="submit" disabled={uploading}>
-                  {uploading ? "Uploading..." : editingBook ? "Update Book" : "Add Book"}
-                </Button>
-              </DialogFooter>
-            </form>
-          </DialogContent>
-        </Dialog>
+                <DialogFooter>
+                  <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={uploading}>
+                    {uploading ? "Uploading..." : editingBook ? "Update Book" : "Add Book"}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </div>
+
+      <div className="relative">
+        <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder="Search by title, author, publisher, book no or description..."
+          className="pl-10 pr-12"
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          aria-invalid={parsedQuery.errors.length > 0}
+        />
+        <div className="absolute right-1 top-1">
+          <SearchSyntaxHelp onInsert={(example) => setSearchQuery(`${searchQuery.trim()} ${example}`.trim())} />
+        </div>
       </div>
+      {parsedQuery.errors.map((error) => (
+        <p key={error.start} className="flex items-start gap-2 text-sm text-destructive">
+          <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+          <span>
+            <span className="font-mono">{error.fragment}</span>: {error.message}
+          </span>
+        </p>
+      ))}
 
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
         {books.map((book) => (
@@ -423,8 +567,14 @@ const BooksManagement = ({ onStatsUpdate }: BooksManagementProps) => {
             <CardHeader>
               <div className="flex items-start justify-between">
                 <div className="flex-1">
-                  <CardTitle className="line-clamp-2">{book.title}</CardTitle>
-                  <CardDescription className="mt-1">{book.author}</CardDescription>
+                  <CardTitle className="line-clamp-2">
+                    <Link to={`/books/${book.id}`} className="hover:underline">
+                      <HighlightedText text={book.title_highlight} />
+                    </Link>
+                  </CardTitle>
+                  <CardDescription className="mt-1">
+                    <HighlightedText text={book.author_highlight} />
+                  </CardDescription>
                 </div>
                 {book.photo_url ? (
                   <img
@@ -443,7 +593,9 @@ const BooksManagement = ({ onStatsUpdate }: BooksManagementProps) => {
               <div className="space-y-2 text-sm">
                 <div className="flex justify-between">
                   <span className="text-muted-foreground">Category:</span>
-                  <span className="font-medium">{book.category}</span>
+                  <span className="font-medium">
+                    {getCategoryLabel(book.category_id, categories) || book.category_name}
+                  </span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-muted-foreground">Available:</span>
@@ -468,6 +620,26 @@ const BooksManagement = ({ onStatsUpdate }: BooksManagementProps) => {
                   <Edit className="h-3 w-3 mr-1" />
                   Edit
                 </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="flex-1"
+                  onClick={() => setCopiesBook(book)}
+                >
+                  <Layers className="h-3 w-3 mr-1" />
+                  Copies
+                </Button>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" size="sm" title="Export MARC record">
+                      <FileCode className="h-3 w-3" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => handleMarcExport(book, "marc21")}>MARC 21 (.mrc)</DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleMarcExport(book, "marcxml")}>MARCXML</DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
                 <Button
                   variant="destructive"
                   size="sm"
@@ -481,16 +653,28 @@ const BooksManagement = ({ onStatsUpdate }: BooksManagementProps) => {
         ))}
       </div>
 
+      <BookCopiesDialog
+        book={copiesBook}
+        onOpenChange={(open) => {
+          if (!open) setCopiesBook(null);
+        }}
+        onCopiesChange={fetchBooks}
+      />
+
       {books.length === 0 && (
         <Card>
           <CardContent className="flex flex-col items-center justify-center py-12">
             <BookOpen className="h-16 w-16 text-muted-foreground mb-4" />
             <p className="text-muted-foreground text-center">
-              No books added yet. Click "Add Book" to get started.
+              {debouncedQuery.trim()
+                ? "No books match your search."
+                : 'No books added yet. Click "Add Book" to get started.'}
             </p>
           </CardContent>
         </Card>
       )}
+
+      <SearchPagination page={page} pageSize={SEARCH_PAGE_SIZE} total={totalBooks} onPageChange={setPage} />
     </div>
   );
 };
@@ -8,9 +8,16 @@ import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { CheckCircle, XCircle, CalendarIcon, Clock, BookOpen } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { CheckCircle, XCircle, CalendarIcon, Clock, BookOpen, RefreshCw, HandHelping, SearchX, FileWarning, Undo2 } from "lucide-react";
 import { toast } from "sonner";
-import { format } from "date-fns";
+import { addDays, differenceInCalendarDays, format } from "date-fns";
+import { getErrorMessage } from "@/lib/libraryErrors";
+import RequestTimeline from "@/components/RequestTimeline";
+import LoanOutcomeDialog, { type LoanOutcome } from "@/components/admin/LoanOutcomeDialog";
+import BulkRequestActions from "@/components/admin/BulkRequestActions";
+import { formatCurrency } from "@/lib/utils";
+import { fetchLibraryCalendar, isLibraryClosed, nextOpenDay, type LibraryCalendar } from "@/lib/libraryCalendar";
 
 interface BorrowRequest {
   id: string;
@@ -19,8 +26,10 @@ interface BorrowRequest {
   issue_date: string | null;
   due_date: string | null;
   return_date: string | null;
-  status: "pending" | "approved" | "rejected" | "returned";
+  ready_at: string | null;
+  status: "pending" | "approved" | "issued" | "rejected" | "cancelled" | "expired" | "returned" | "lost";
   remarks: string | null;
+  renewal_count: number;
   created_at: string;
   profiles: {
     name: string;
@@ -31,6 +40,9 @@ interface BorrowRequest {
     title: string;
     author: string;
   };
+  book_copies: {
+    accession_number: string;
+  } | null;
 }
 
 interface BorrowRequestsProps {
@@ -41,11 +53,24 @@ const BorrowRequests = ({ onStatsUpdate }: BorrowRequestsProps) => {
   const [requests, setRequests] = useState<BorrowRequest[]>([]);
   const [loading, setLoading] = useState(true);
   const [filterStatus, setFilterStatus] = useState<string>("all");
+  const [calendar, setCalendar] = useState<LibraryCalendar | null>(null);
+  const [outcomeLoan, setOutcomeLoan] = useState<BorrowRequest | null>(null);
+  const [outcome, setOutcome] = useState<LoanOutcome>("lost");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
 
   useEffect(() => {
     fetchRequests();
+    fetchCalendar();
   }, []);
 
+  const fetchCalendar = async () => {
+    try {
+      setCalendar(await fetchLibraryCalendar());
+    } catch (error) {
+      toast.error("Error loading library calendar: " + getErrorMessage(error));
+    }
+  };
+
   const fetchRequests = async () => {
     try {
       const { data, error } = await supabase
@@ -53,7 +78,8 @@ const BorrowRequests = ({ onStatsUpdate }: BorrowRequestsProps) => {
         .select(`
           *,
           profiles (name, email, roll_no),
-          books (title, author)
+          books (title, author),
+          book_copies (accession_number)
         `)
         .order("created_at", { ascending: false });
 
@@ -61,7 +87,7 @@ const BorrowRequests = ({ onStatsUpdate }: BorrowRequestsProps) => {
       setRequests(data || []);
       
       const pending = (data || []).filter(r => r.status === "pending").length;
-      const active = (data || []).filter(r => r.status === "approved").length;
+      const active = (data || []).filter(r => r.status === "issued").length;
       onStatsUpdate(pending, active);
     } catch (error: any) {
       toast.error("Error loading requests: " + error.message);
@@ -72,18 +98,38 @@ const BorrowRequests = ({ onStatsUpdate }: BorrowRequestsProps) => {
 
   const updateRequestStatus = async (
     requestId: string,
-    status: "approved" | "rejected" | "returned",
-    issueDate?: Date,
+    status: "approved" | "issued" | "rejected" | "returned",
     dueDate?: Date,
     remarks?: string
   ) => {
     try {
-      const updateData: any = { status };
-      
-      if (status === "approved" && issueDate && dueDate) {
-        updateData.issue_date = format(issueDate, "yyyy-MM-dd");
-        updateData.due_date = format(dueDate, "yyyy-MM-dd");
+      if (status === "approved") {
+        const { error } = await supabase.rpc("approve_borrow_request", {
+          _request_id: requestId,
+          _remarks: remarks,
+        });
+
+        if (error) throw error;
+
+        toast.success("Request approved, the book is on the pickup shelf");
+        fetchRequests();
+        return;
+      }
+
+      if (status === "issued") {
+        const { data: loan, error } = await supabase.rpc("issue_borrow_request", {
+          _request_id: requestId,
+          _due_date: dueDate ? format(dueDate, "yyyy-MM-dd") : undefined,
+        });
+
+        if (error) throw error;
+
+        toast.success(`Book issued, due ${format(new Date(loan.due_date), "PP")}`);
+        fetchRequests();
+        return;
       }
+
+      const updateData: any = { status };
       
       if (status === "returned") {
         updateData.return_date = format(new Date(), "yyyy-MM-dd");
@@ -102,17 +148,53 @@ const BorrowRequests = ({ onStatsUpdate }: BorrowRequestsProps) => {
       
       toast.success(`Request ${status} successfully`);
       fetchRequests();
-    } catch (error: any) {
-      toast.error("Error updating request: " + error.message);
+    } catch (error) {
+      toast.error("Error updating request: " + getErrorMessage(error));
+      fetchRequests();
+    }
+  };
+
+  const renewLoan = async (requestId: string) => {
+    try {
+      const { data: newDueDate, error } = await supabase.rpc("renew_loan", { _request_id: requestId });
+      if (error) throw error;
+      toast.success(`Loan renewed until ${format(new Date(newDueDate), "PP")}`);
+      fetchRequests();
+    } catch (error) {
+      toast.error("Error renewing loan: " + getErrorMessage(error));
+    }
+  };
+
+  const openOutcomeDialog = (request: BorrowRequest, loanOutcome: LoanOutcome) => {
+    setOutcome(loanOutcome);
+    setOutcomeLoan(request);
+  };
+
+  const markFound = async (request: BorrowRequest) => {
+    if (!confirm(`Mark "${request.books.title}" as found? The copy goes back on the shelf and any replacement charge is reversed.`)) return;
+
+    try {
+      const { data: reversed, error } = await supabase.rpc("mark_loan_found", { _request_id: request.id });
+      if (error) throw error;
+      toast.success(
+        reversed > 0 ? `Book found, ${formatCurrency(reversed)} replacement charge reversed` : "Book found and returned"
+      );
+      fetchRequests();
+    } catch (error) {
+      toast.error("Error marking book found: " + getErrorMessage(error));
     }
   };
 
   const getStatusBadge = (status: string) => {
     const variants: Record<string, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
       pending: { label: "Pending", variant: "outline" },
-      approved: { label: "Approved", variant: "default" },
+      approved: { label: "Awaiting Pickup", variant: "default" },
+      issued: { label: "Issued", variant: "default" },
       rejected: { label: "Rejected", variant: "destructive" },
+      cancelled: { label: "Cancelled", variant: "outline" },
+      expired: { label: "Expired", variant: "outline" },
       returned: { label: "Returned", variant: "secondary" },
+      lost: { label: "Lost", variant: "destructive" },
     };
     const config = variants[status] || variants.pending;
     return <Badge variant={config.variant}>{config.label}</Badge>;
@@ -122,6 +204,12 @@ const BorrowRequests = ({ onStatsUpdate }: BorrowRequestsProps) => {
     ? requests 
     : requests.filter(r => r.status === filterStatus);
 
+  const selectableRequests = filteredRequests.filter((r) => isSelectable(r.status));
+
+  const toggleSelected = (requestId: string, selected: boolean) => {
+    setSelectedIds((ids) => (selected ? [...ids, requestId] : ids.filter((id) => id !== requestId)));
+  };
+
   if (loading) {
     return <div className="text-center py-8">Loading requests...</div>;
   }
@@ -133,30 +221,60 @@ const BorrowRequests = ({ onStatsUpdate }: BorrowRequestsProps) => {
           <h2 className="text-2xl font-bold">Borrow Requests</h2>
           <p className="text-muted-foreground">Review and manage student borrow requests</p>
         </div>
-        <Select value={filterStatus} onValueChange={setFilterStatus}>
+        <Select
+          value={filterStatus}
+          onValueChange={(value) => {
+            setFilterStatus(value);
+            setSelectedIds([]);
+          }}
+        >
           <SelectTrigger className="w-[180px]">
             <SelectValue placeholder="Filter by status" />
           </SelectTrigger>
           <SelectContent>
             <SelectItem value="all">All Requests</SelectItem>
             <SelectItem value="pending">Pending</SelectItem>
-            <SelectItem value="approved">Approved</SelectItem>
+            <SelectItem value="approved">Awaiting Pickup</SelectItem>
+            <SelectItem value="issued">Issued</SelectItem>
             <SelectItem value="rejected">Rejected</SelectItem>
+            <SelectItem value="cancelled">Cancelled</SelectItem>
+            <SelectItem value="expired">Expired</SelectItem>
             <SelectItem value="returned">Returned</SelectItem>
+            <SelectItem value="lost">Lost</SelectItem>
           </SelectContent>
         </Select>
       </div>
 
+      <BulkRequestActions
+        requests={selectableRequests}
+        selectedIds={selectedIds}
+        onSelectedIdsChange={setSelectedIds}
+        onCompleted={fetchRequests}
+      />
+
       <div className="grid gap-4">
         {filteredRequests.map((request) => (
           <RequestCard
             key={request.id}
             request={request}
+            calendar={calendar}
+            selected={selectedIds.includes(request.id)}
+            onSelectedChange={isSelectable(request.status) ? toggleSelected : undefined}
             onUpdate={updateRequestStatus}
+            onRenew={renewLoan}
+            onOutcome={openOutcomeDialog}
+            onFound={markFound}
           />
         ))}
       </div>
 
+      <LoanOutcomeDialog
+        loan={outcomeLoan}
+        outcome={outcome}
+        onOpenChange={(open) => !open && setOutcomeLoan(null)}
+        onRecorded={fetchRequests}
+      />
+
       {filteredRequests.length === 0 && (
         <Card>
           <CardContent className="flex flex-col items-center justify-center py-12">
@@ -173,20 +291,88 @@ const BorrowRequests = ({ onStatsUpdate }: BorrowRequestsProps) => {
 
 interface RequestCardProps {
   request: BorrowRequest;
-  onUpdate: (id: string, status: "approved" | "rejected" | "returned", issueDate?: Date, dueDate?: Date, remarks?: string) => Promise<void>;
+  calendar: LibraryCalendar | null;
+  selected: boolean;
+  onSelectedChange?: (id: string, selected: boolean) => void;
+  onUpdate: (id: string, status: "approved" | "issued" | "rejected" | "returned", dueDate?: Date, remarks?: string) => Promise<void>;
+  onRenew: (id: string) => Promise<void>;
+  onOutcome: (request: BorrowRequest, outcome: LoanOutcome) => void;
+  onFound: (request: BorrowRequest) => Promise<void>;
 }
 
-const RequestCard = ({ request, onUpdate }: RequestCardProps) => {
-  const [issueDate, setIssueDate] = useState<Date | undefined>(new Date());
-  const [dueDate, setDueDate] = useState<Date | undefined>(
-    new Date(Date.now() + 14 * 24 * 60 * 60 * 1000) // 14 days from now
-  );
+interface LoanTerms {
+  policy_category: string | null;
+  loan_period_days: number;
+  max_renewals: number;
+}
+
+const RequestCard = ({ request, calendar, selected, onSelectedChange, onUpdate, onRenew, onOutcome, onFound }: RequestCardProps) => {
+  const [dueDate, setDueDate] = useState<Date | undefined>();
+  const [loanTerms, setLoanTerms] = useState<LoanTerms | null>(null);
   const [remarks, setRemarks] = useState("");
 
+  // Books are issued on the day they are collected
+  const issueDate = new Date();
+
+  useEffect(() => {
+    if (request.status === "approved") {
+      fetchLoanTerms(request.id);
+    }
+  }, [request.id, request.status]);
+
+  const fetchLoanTerms = async (requestId: string) => {
+    const { data, error } = await supabase.rpc("get_loan_terms", { _request_id: requestId });
+    if (error) {
+      toast.error("Error loading loan policy: " + getErrorMessage(error));
+      return;
+    }
+    const terms = data?.[0];
+    if (terms) {
+      setLoanTerms(terms);
+      setDueDate(new Date(terms.due_date));
+    }
+  };
+
+  // The loan period ends on the first open day after the policy's number of days
+  const getLatestDueDate = (issue: Date) => {
+    if (!loanTerms) return null;
+    const periodEnd = addDays(issue, loanTerms.loan_period_days);
+    return calendar ? nextOpenDay(periodEnd, calendar) : periodEnd;
+  };
+
+  const isDueDateDisabled = (date: Date) => {
+    const latestDueDate = getLatestDueDate(issueDate);
+    return (
+      differenceInCalendarDays(date, issueDate) < 0 ||
+      (!!latestDueDate && differenceInCalendarDays(date, latestDueDate) > 0) ||
+      (!!calendar && isLibraryClosed(date, calendar))
+    );
+  };
+
+  const latestDueDate = getLatestDueDate(issueDate);
+  const datesError =
+    !dueDate
+      ? "Pick a due date"
+      : differenceInCalendarDays(dueDate, issueDate) < 0
+        ? "Due date must be on or after the issue date"
+        : latestDueDate && differenceInCalendarDays(dueDate, latestDueDate) > 0
+          ? `Policy allows at most ${loanTerms?.loan_period_days} days`
+          : calendar && isLibraryClosed(dueDate, calendar)
+            ? "The library is closed on the due date"
+            : null;
+
   return (
     <Card>
       <CardHeader>
         <div className="flex items-start justify-between">
+          {onSelectedChange && (
+            <Checkbox
+              className="mt-1 mr-3"
+              checked={selected}
+              onCheckedChange={(checked) => onSelectedChange(request.id, checked === true)}
+              aria-label={`Select request for ${request.books.title}`}
+            />
+          )}
           <div className="flex-1">
             <CardTitle className="text-lg">{request.books.title}</CardTitle>
             <CardDescription className="mt-1">
@@ -213,6 +399,12 @@ const RequestCard = ({ request, onUpdate }: RequestCardProps) => {
             <p className="text-muted-foreground">Requested</p>
             <p className="font-medium">{format(new Date(request.created_at), "PP")}</p>
           </div>
+          {request.status === "approved" && request.ready_at && (
+            <div>
+              <p className="text-muted-foreground">On Pickup Shelf Since</p>
+              <p className="font-medium">{format(new Date(request.ready_at), "PP")}</p>
+            </div>
+          )}
           {request.issue_date && (
             <div>
               <p className="text-muted-foreground">Issue Date</p>
@@ -225,6 +417,18 @@ const RequestCard = ({ request, onUpdate }: RequestCardProps) => {
               <p className="font-medium">{format(new Date(request.due_date), "PP")}</p>
             </div>
           )}
+          {request.renewal_count > 0 && (
+            <div>
+              <p className="text-muted-foreground">Renewals</p>
+              <p className="font-medium">{request.renewal_count}</p>
+            </div>
+          )}
+          {request.book_copies && (
+            <div>
+              <p className="text-muted-foreground">Copy</p>
+              <p className="font-medium">{request.book_copies.accession_number}</p>
+            </div>
+          )}
           {request.return_date && (
             <div>
               <p className="text-muted-foreground">Returned</p>
@@ -242,36 +446,6 @@ const RequestCard = ({ request, onUpdate }: RequestCardProps) => {
 
         {request.status === "pending" && (
           <div className="space-y-4 pt-4 border-t">
-            <div className="grid grid-cols-2 gap-4">
-              <div className="space-y-2">
-                <Label>Issue Date</Label>
-                <Popover>
-                  <PopoverTrigger asChild>
-                    <Button variant="outline" className="w-full justify-start text-left">
-                      <CalendarIcon className="mr-2 h-4 w-4" />
-                      {issueDate ? format(issueDate, "PP") : "Pick a date"}
-                    </Button>
-                  </PopoverTrigger>
-                  <PopoverContent className="w-auto p-0">
-                    <Calendar mode="single" selected={issueDate} onSelect={setIssueDate} />
-                  </PopoverContent>
-                </Popover>
-              </div>
-              <div className="space-y-2">
-                <Label>Due Date</Label>
-                <Popover>
-                  <PopoverTrigger asChild>
-                    <Button variant="outline" className="w-full justify-start text-left">
-                      <CalendarIcon className="mr-2 h-4 w-4" />
-                      {dueDate ? format(dueDate, "PP") : "Pick a date"}
-                    </Button>
-                  </PopoverTrigger>
-                  <PopoverContent className="w-auto p-0">
-                    <Calendar mode="single" selected={dueDate} onSelect={setDueDate} />
-                  </PopoverContent>
-                </Popover>
-              </div>
-            </div>
             <div className="space-y-2">
               <Label>Remarks (Optional)</Label>
               <Textarea
@@ -283,7 +457,7 @@ const RequestCard = ({ request, onUpdate }: RequestCardProps) => {
             <div className="flex gap-2">
               <Button
                 className="flex-1"
-                onClick={() => onUpdate(request.id, "approved", issueDate, dueDate, remarks || undefined)}
+                onClick={() => onUpdate(request.id, "approved", undefined, remarks || undefined)}
               >
                 <CheckCircle className="h-4 w-4 mr-2" />
                 Approve
@@ -291,7 +465,7 @@ const RequestCard = ({ request, onUpdate }: RequestCardProps) => {
               <Button
                 variant="destructive"
                 className="flex-1"
-                onClick={() => onUpdate(request.id, "rejected", undefined, undefined, remarks || undefined)}
+                onClick={() => onUpdate(request.id, "rejected", undefined, remarks || undefined)}
               >
                 <XCircle className="h-4 w-4 mr-2" />
                 Reject
@@ -301,25 +475,111 @@ const RequestCard = ({ request, onUpdate }: RequestCardProps) => {
         )}
 
         {request.status === "approved" && (
-          <Button
-            className="w-full"
-            onClick={() => onUpdate(request.id, "returned")}
-          >
-            <BookOpen className="h-4 w-4 mr-2" />
-            Mark as Returned
+          <div className="space-y-4 pt-4 border-t">
+            <div className="space-y-2">
+              <Label>Due Date</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className="w-full justify-start text-left">
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {dueDate ? format(dueDate, "PP") : "Pick a date"}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0">
+                  <Calendar
+                    mode="single"
+                    selected={dueDate}
+                    onSelect={setDueDate}
+                    disabled={isDueDateDisabled}
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+            {loanTerms && (
+              <p className="text-xs text-muted-foreground">
+                {loanTerms.policy_category ? `${loanTerms.policy_category} policy` : "Default policy"}:{" "}
+                {loanTerms.loan_period_days} day loan from today, up to {loanTerms.max_renewals} renewal(s)
+              </p>
+            )}
+            {datesError && <p className="text-xs text-destructive">{datesError}</p>}
+            <div className="flex gap-2">
+              <Button
+                className="flex-1"
+                disabled={!!datesError}
+                onClick={() => onUpdate(request.id, "issued", dueDate)}
+              >
+                <HandHelping className="h-4 w-4 mr-2" />
+                Issue to Student
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => onUpdate(request.id, "rejected", undefined, "Not collected from the pickup shelf")}
+              >
+                <XCircle className="h-4 w-4 mr-2" />
+                Release Copy
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {request.status === "issued" && (
+          <div className="flex gap-2">
+            <Button
+              className="flex-1"
+              onClick={() => onUpdate(request.id, "returned")}
+            >
+              <BookOpen className="h-4 w-4 mr-2" />
+              Mark as Returned
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => onRenew(request.id)}
+            >
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Renew
+            </Button>
+          </div>
+        )}
+
+        {request.status === "issued" && (
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" className="flex-1" onClick={() => onOutcome(request, "damaged")}>
+              <FileWarning className="h-4 w-4 mr-2" />
+              Returned Damaged
+            </Button>
+            <Button variant="outline" size="sm" className="flex-1 text-destructive" onClick={() => onOutcome(request, "lost")}>
+              <SearchX className="h-4 w-4 mr-2" />
+              Mark as Lost
+            </Button>
+          </div>
+        )}
+
+        {request.status === "lost" && (
+          <Button variant="outline" className="w-full" onClick={() => onFound(request)}>
+            <Undo2 className="h-4 w-4 mr-2" />
+            Found — Return to Shelf
           </Button>
         )}
+
+        <RequestTimeline requestId={request.id} studentId={request.student_id} />
       </CardContent>
     </Card>
   );
 };
 
+// Pending requests and books on loan can be acted on in bulk
+const isSelectable = (status: string) => status === "pending" || status === "issued";
+
 const getStatusBadge = (status: string) => {
   const variants: Record<string, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
     pending: { label: "Pending", variant: "outline" },
-    approved: { label: "Approved", variant: "default" },
+    approved: { label: "Awaiting Pickup", variant: "default" },
+    issued: { label: "Issued", variant: "default" },
     rejected: { label: "Rejected", variant: "destructive" },
+    cancelled: { label: "Cancelled", variant: "outline" },
+    expired: { label: "Expired", variant: "outline" },
     returned: { label: "Returned", variant: "secondary" },
+    lost: { label: "Lost", variant: "destructive" },
   };
   const config = variants[status] || variants.pending;
   return <Badge variant={config.variant}>{config.label}</Badge>;
@@ -0,0 +1,222 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CheckCircle, XCircle, BookOpen } from "lucide-react";
+import { toast } from "sonner";
+import { getErrorMessage } from "@/lib/libraryErrors";
+
+type BulkStatus = "approved" | "rejected" | "returned";
+
+interface BulkRequest {
+  id: string;
+  status: string;
+  books: {
+    title: string;
+  };
+  profiles: {
+    name: string;
+  };
+}
+
+interface BulkFailure {
+  request: BulkRequest;
+  message: string;
+}
+
+interface BulkRequestActionsProps {
+  // Requests that can be selected: pending requests and books on loan
+  requests: BulkRequest[];
+  selectedIds: string[];
+  onSelectedIdsChange: (ids: string[]) => void;
+  onCompleted: () => void;
+}
+
+const actionLabels: Record<BulkStatus, string> = {
+  approved: "approved",
+  rejected: "rejected",
+  returned: "marked returned",
+};
+
+// Multi-select toolbar for the borrow requests queue. The batch runs in one
+// server call and failed rows are listed with their reason afterwards.
+const BulkRequestActions = ({ requests, selectedIds, onSelectedIdsChange, onCompleted }: BulkRequestActionsProps) => {
+  const [running, setRunning] = useState(false);
+  const [rejectOpen, setRejectOpen] = useState(false);
+  const [rejectRemarks, setRejectRemarks] = useState("");
+  const [failures, setFailures] = useState<BulkFailure[]>([]);
+
+  const selected = requests.filter((r) => selectedIds.includes(r.id));
+  const pending = selected.filter((r) => r.status === "pending");
+  const onLoan = selected.filter((r) => r.status === "issued");
+
+  const allSelected = requests.length > 0 && selected.length === requests.length;
+
+  const toggleAll = (checked: boolean) => {
+    onSelectedIdsChange(checked ? requests.map((r) => r.id) : []);
+  };
+
+  const runBulkUpdate = async (targets: BulkRequest[], status: BulkStatus, remarks?: string) => {
+    if (targets.length === 0) return;
+
+    try {
+      setRunning(true);
+      const { data, error } = await supabase.rpc("bulk_update_borrow_requests", {
+        _request_ids: targets.map((r) => r.id),
+        _status: status,
+        _remarks: remarks,
+      });
+
+      if (error) throw error;
+
+      const failed = (data || [])
+        .filter((row) => !row.success)
+        .map((row) => ({
+          request: targets.find((r) => r.id === row.request_id),
+          message: getErrorMessage({ message: row.error_code, details: row.error_detail }),
+        }));
+      const succeeded = targets.length - failed.length;
+
+      if (succeeded > 0) {
+        toast.success(`${succeeded} request(s) ${actionLabels[status]}`);
+      }
+      if (failed.length > 0) {
+        toast.error(`${failed.length} request(s) could not be ${actionLabels[status]}`);
+      }
+
+      setFailures(failed);
+      onSelectedIdsChange(failed.map((f) => f.request.id));
+      onCompleted();
+    } catch (error) {
+      toast.error("Error updating requests: " + getErrorMessage(error));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleReject = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setRejectOpen(false);
+    await runBulkUpdate(pending, "rejected", rejectRemarks.trim() || undefined);
+    setRejectRemarks("");
+  };
+
+  if (requests.length === 0) return null;
+
+  return (
+    <>
+      <Card>
+        <CardContent className="flex items-center justify-between gap-4 flex-wrap py-3">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="bulk_select_all"
+              checked={allSelected}
+              onCheckedChange={(checked) => toggleAll(checked === true)}
+            />
+            <Label htmlFor="bulk_select_all" className="text-sm font-normal">
+              {selected.length > 0 ? `${selected.length} selected` : "Select all"}
+            </Label>
+          </div>
+          <div className="flex gap-2 flex-wrap">
+            <Button
+              size="sm"
+              disabled={running || pending.length === 0}
+              onClick={() => runBulkUpdate(pending, "approved")}
+            >
+              <CheckCircle className="h-4 w-4 mr-2" />
+              Approve ({pending.length})
+            </Button>
+            <Button
+              size="sm"
+              variant="destructive"
+              disabled={running || pending.length === 0}
+              onClick={() => setRejectOpen(true)}
+            >
+              <XCircle className="h-4 w-4 mr-2" />
+              Reject ({pending.length})
+            </Button>
+            <Button
+              size="sm"
+              variant="secondary"
+              disabled={running || onLoan.length === 0}
+              onClick={() => runBulkUpdate(onLoan, "returned")}
+            >
+              <BookOpen className="h-4 w-4 mr-2" />
+              Mark Returned ({onLoan.length})
+            </Button>
+          </div>
+        </CardContent>
+        {pending.length > 0 && (
+          <p className="px-6 pb-3 text-xs text-muted-foreground">
+            Approved books are set aside on the pickup shelf; due dates are set when they are issued.
+          </p>
+        )}
+      </Card>
+
+      <Dialog open={rejectOpen} onOpenChange={setRejectOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject {pending.length} Request(s)</DialogTitle>
+            <DialogDescription>The same remark is shown to every student.</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleReject} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="bulk_reject_remarks">Remarks (Optional)</Label>
+              <Textarea
+                id="bulk_reject_remarks"
+                placeholder="e.g., Reference copies cannot be borrowed"
+                value={rejectRemarks}
+                onChange={(e) => setRejectRemarks(e.target.value)}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setRejectOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" variant="destructive">
+                Reject
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={failures.length > 0} onOpenChange={(open) => !open && setFailures([])}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{failures.length} Request(s) Not Updated</DialogTitle>
+            <DialogDescription>These requests are still selected so you can handle them individually.</DialogDescription>
+          </DialogHeader>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Book</TableHead>
+                <TableHead>Student</TableHead>
+                <TableHead>Reason</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {failures.map(({ request, message }) => (
+                <TableRow key={request.id}>
+                  <TableCell className="font-medium">{request.books.title}</TableCell>
+                  <TableCell>{request.profiles.name}</TableCell>
+                  <TableCell className="text-sm text-destructive">{message}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <DialogFooter>
+            <Button onClick={() => setFailures([])}>Close</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default BulkRequestActions;
@@ -0,0 +1,237 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Save, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { z } from "zod";
+import { getErrorMessage } from "@/lib/libraryErrors";
+import { Category, fetchCategories, getSubcategories, sortCategoryTree } from "@/lib/categories";
+
+const categorySchema = z.object({
+  name: z.string().trim().min(1, "Category name is required").max(100),
+  parent_id: z.string().nullable(),
+});
+
+// Radix selects cannot hold an empty value, so "none" stands for top-level
+const NO_PARENT = "none";
+
+interface CategoryDraft {
+  name: string;
+  parent_id: string;
+}
+
+const emptyCategory: CategoryDraft = { name: "", parent_id: NO_PARENT };
+
+const parseDraft = (draft: CategoryDraft) =>
+  categorySchema.parse({
+    name: draft.name,
+    parent_id: draft.parent_id === NO_PARENT ? null : draft.parent_id,
+  });
+
+const CategoriesManagement = () => {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, CategoryDraft>>({});
+  const [loading, setLoading] = useState(true);
+  const [newCategory, setNewCategory] = useState(emptyCategory);
+
+  useEffect(() => {
+    loadCategories();
+  }, []);
+
+  const loadCategories = async () => {
+    try {
+      const data = sortCategoryTree(await fetchCategories());
+      setCategories(data);
+      setDrafts(
+        Object.fromEntries(
+          data.map((category) => [category.id, { name: category.name, parent_id: category.parent_id ?? NO_PARENT }])
+        )
+      );
+    } catch (error) {
+      toast.error("Error loading categories: " + getErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleError = (error: unknown, action: string) => {
+    const message = getErrorMessage(error);
+    if (error instanceof z.ZodError) {
+      toast.error(error.errors[0].message);
+    } else if (message.includes("duplicate")) {
+      toast.error("A category with this name already exists");
+    } else if (message.includes("foreign key")) {
+      toast.error("Move the books and sub-categories out of this category before deleting it");
+    } else {
+      toast.error(`Error ${action} category: ` + message);
+    }
+  };
+
+  const saveCategory = async (category: Category) => {
+    try {
+      const { error } = await supabase
+        .from("categories")
+        .update(parseDraft(drafts[category.id]))
+        .eq("id", category.id);
+
+      if (error) throw error;
+      toast.success("Category saved");
+      loadCategories();
+    } catch (error) {
+      handleError(error, "saving");
+    }
+  };
+
+  const deleteCategory = async (category: Category) => {
+    if (!confirm(`Delete the ${category.name} category? Loan policies for it will be removed too.`)) return;
+
+    try {
+      const { error } = await supabase.from("categories").delete().eq("id", category.id);
+      if (error) throw error;
+      toast.success("Category deleted");
+      loadCategories();
+    } catch (error) {
+      handleError(error, "deleting");
+    }
+  };
+
+  const handleAddCategory = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const validatedCategory = parseDraft(newCategory);
+      const { error } = await supabase.from("categories").insert({
+        name: validatedCategory.name,
+        parent_id: validatedCategory.parent_id,
+      });
+
+      if (error) throw error;
+      toast.success("Category added");
+      setNewCategory(emptyCategory);
+      loadCategories();
+    } catch (error) {
+      handleError(error, "adding");
+    }
+  };
+
+  const updateDraft = (id: string, field: keyof CategoryDraft, value: string) => {
+    setDrafts((prev) => ({ ...prev, [id]: { ...prev[id], [field]: value } }));
+  };
+
+  if (loading) {
+    return <div className="text-center py-8">Loading categories...</div>;
+  }
+
+  const topLevel = categories.filter((category) => !category.parent_id);
+
+  const renderParentSelect = (value: string, onChange: (value: string) => void, excludeId?: string) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_PARENT}>None (top-level)</SelectItem>
+        {topLevel
+          .filter((category) => category.id !== excludeId)
+          .map((category) => (
+            <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+          ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Categories</CardTitle>
+        <CardDescription>
+          Categories students browse the catalog by. A sub-category sits under one top-level category and shows up in
+          its tab.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Parent</TableHead>
+              <TableHead>Books</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {categories.map((category) => {
+              const hasSubcategories = getSubcategories(category.id, categories).length > 0;
+              return (
+                <TableRow key={category.id}>
+                  <TableCell>
+                    <Input
+                      className={`h-8 ${category.parent_id ? "ml-6 w-[calc(100%-1.5rem)]" : ""}`}
+                      value={drafts[category.id]?.name ?? ""}
+                      onChange={(e) => updateDraft(category.id, "name", e.target.value)}
+                    />
+                  </TableCell>
+                  <TableCell className="w-56">
+                    {hasSubcategories ? (
+                      <span className="text-sm text-muted-foreground">Has sub-categories</span>
+                    ) : (
+                      renderParentSelect(
+                        drafts[category.id]?.parent_id ?? NO_PARENT,
+                        (value) => updateDraft(category.id, "parent_id", value),
+                        category.id
+                      )
+                    )}
+                  </TableCell>
+                  <TableCell>{category.book_count}</TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      <Button variant="outline" size="sm" onClick={() => saveCategory(category)}>
+                        <Save className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        disabled={category.book_count > 0 || hasSubcategories}
+                        onClick={() => deleteCategory(category)}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        <form onSubmit={handleAddCategory} className="grid grid-cols-1 md:grid-cols-[1fr_14rem_auto] gap-3 items-end p-3 border rounded-md">
+          <div className="space-y-2">
+            <Label htmlFor="new_category_name">Name</Label>
+            <Input
+              id="new_category_name"
+              placeholder="e.g., Islamic Studies"
+              value={newCategory.name}
+              onChange={(e) => setNewCategory({ ...newCategory, name: e.target.value })}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Parent</Label>
+            {renderParentSelect(newCategory.parent_id, (value) => setNewCategory({ ...newCategory, parent_id: value }))}
+          </div>
+          <Button type="submit">
+            <Plus className="h-4 w-4 mr-2" />
+            Add
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CategoriesManagement;
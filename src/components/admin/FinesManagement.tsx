@@ -0,0 +1,303 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Banknote, HandCoins, History, Receipt } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { z } from "zod";
+import { formatCurrency } from "@/lib/utils";
+import { getErrorMessage } from "@/lib/libraryErrors";
+
+const entrySchema = z
+  .object({
+    entry_type: z.enum(["payment", "waiver"]),
+    amount: z.number({ invalid_type_error: "Amount is required" }).positive("Amount must be greater than zero"),
+    reason: z.string().max(500),
+  })
+  .refine((entry) => entry.entry_type !== "waiver" || entry.reason.trim().length > 0, {
+    message: "A reason is required to waive a fine",
+  });
+
+interface FineBalance {
+  student_id: string;
+  name: string;
+  email: string;
+  roll_no: string | null;
+  outstanding: number;
+  accruing: number;
+}
+
+interface FineEntry {
+  id: string;
+  entry_type: "charge" | "payment" | "waiver";
+  amount: number;
+  reason: string | null;
+  created_at: string;
+}
+
+const FinesManagement = () => {
+  const { user } = useAuth();
+  const [balances, setBalances] = useState<FineBalance[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [entryStudent, setEntryStudent] = useState<FineBalance | null>(null);
+  const [entryForm, setEntryForm] = useState({
+    entry_type: "payment" as "payment" | "waiver",
+    amount: "",
+    reason: "",
+  });
+  const [ledgerStudent, setLedgerStudent] = useState<FineBalance | null>(null);
+  const [ledger, setLedger] = useState<FineEntry[]>([]);
+
+  useEffect(() => {
+    fetchBalances();
+  }, []);
+
+  const fetchBalances = async () => {
+    try {
+      const { data, error } = await supabase.rpc("get_fine_balances");
+      if (error) throw error;
+      setBalances(data || []);
+    } catch (error) {
+      toast.error("Error loading fines: " + getErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openEntryDialog = (student: FineBalance, entryType: "payment" | "waiver") => {
+    setEntryStudent(student);
+    setEntryForm({
+      entry_type: entryType,
+      amount: student.outstanding > 0 ? student.outstanding.toFixed(2) : "",
+      reason: "",
+    });
+  };
+
+  const openLedger = async (student: FineBalance) => {
+    setLedgerStudent(student);
+    setLedger([]);
+
+    try {
+      const { data, error } = await supabase
+        .from("fines")
+        .select("id, entry_type, amount, reason, created_at")
+        .eq("student_id", student.student_id)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setLedger(data || []);
+    } catch (error) {
+      toast.error("Error loading ledger: " + getErrorMessage(error));
+    }
+  };
+
+  const handleRecordEntry = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!entryStudent || !user) return;
+
+    try {
+      const validatedEntry = entrySchema.parse({
+        ...entryForm,
+        amount: parseFloat(entryForm.amount),
+      });
+
+      const { error } = await supabase.from("fines").insert({
+        student_id: entryStudent.student_id,
+        entry_type: validatedEntry.entry_type,
+        amount: validatedEntry.amount,
+        reason: validatedEntry.reason.trim() || null,
+        recorded_by: user.id,
+      });
+
+      if (error) throw error;
+      toast.success(
+        validatedEntry.entry_type === "payment"
+          ? `Payment of ${formatCurrency(validatedEntry.amount)} recorded`
+          : `${formatCurrency(validatedEntry.amount)} waived`
+      );
+      setEntryStudent(null);
+      fetchBalances();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        toast.error("Error recording entry: " + getErrorMessage(error));
+      }
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-8">Loading fines...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="text-2xl font-bold">Fines</h2>
+        <p className="text-muted-foreground">Outstanding balances, payments and waivers</p>
+      </div>
+
+      {balances.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <Receipt className="h-16 w-16 text-muted-foreground mb-4" />
+            <p className="text-muted-foreground text-center">No student owes any fines</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="pt-6">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Student</TableHead>
+                  <TableHead className="text-right">Outstanding</TableHead>
+                  <TableHead className="text-right">Accruing</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {balances.map((balance) => (
+                  <TableRow key={balance.student_id}>
+                    <TableCell>
+                      <p className="font-medium">{balance.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {balance.roll_no ? `${balance.roll_no} · ` : ""}
+                        {balance.email}
+                      </p>
+                    </TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrency(balance.outstanding)}</TableCell>
+                    <TableCell className="text-right text-muted-foreground">
+                      {balance.accruing > 0 ? formatCurrency(balance.accruing) : "—"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button variant="outline" size="sm" onClick={() => openLedger(balance)}>
+                          <History className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          disabled={balance.outstanding <= 0}
+                          onClick={() => openEntryDialog(balance, "payment")}
+                        >
+                          <Banknote className="h-3 w-3 mr-1" />
+                          Payment
+                        </Button>
+                        <Button
+                          variant="secondary"
+                          size="sm"
+                          disabled={balance.outstanding <= 0}
+                          onClick={() => openEntryDialog(balance, "waiver")}
+                        >
+                          <HandCoins className="h-3 w-3 mr-1" />
+                          Waive
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={!!entryStudent} onOpenChange={(open) => !open && setEntryStudent(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{entryForm.entry_type === "payment" ? "Record Payment" : "Waive Fine"}</DialogTitle>
+            <DialogDescription>
+              {entryStudent?.name} owes {formatCurrency(entryStudent?.outstanding ?? 0)}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleRecordEntry} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="fine_amount">Amount *</Label>
+              <Input
+                id="fine_amount"
+                type="number"
+                min="0.01"
+                step="0.01"
+                value={entryForm.amount}
+                onChange={(e) => setEntryForm({ ...entryForm, amount: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="fine_reason">
+                {entryForm.entry_type === "waiver" ? "Reason *" : "Note (Optional)"}
+              </Label>
+              <Textarea
+                id="fine_reason"
+                placeholder={entryForm.entry_type === "waiver" ? "Why is this fine being waived?" : "Receipt number, etc."}
+                value={entryForm.reason}
+                onChange={(e) => setEntryForm({ ...entryForm, reason: e.target.value })}
+                required={entryForm.entry_type === "waiver"}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setEntryStudent(null)}>
+                Cancel
+              </Button>
+              <Button type="submit">
+                {entryForm.entry_type === "payment" ? "Record Payment" : "Waive"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!ledgerStudent} onOpenChange={(open) => !open && setLedgerStudent(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Fines Ledger</DialogTitle>
+            <DialogDescription>{ledgerStudent?.name}</DialogDescription>
+          </DialogHeader>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Entry</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {ledger.map((entry) => (
+                <TableRow key={entry.id}>
+                  <TableCell>{format(new Date(entry.created_at), "PP")}</TableCell>
+                  <TableCell>{getEntryBadge(entry.entry_type)}</TableCell>
+                  <TableCell className="text-sm">{entry.reason}</TableCell>
+                  <TableCell className="text-right font-medium">
+                    {entry.entry_type === "charge" ? "" : "−"}
+                    {formatCurrency(entry.amount)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+const getEntryBadge = (entryType: FineEntry["entry_type"]) => {
+  const variants: Record<FineEntry["entry_type"], { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+    charge: { label: "Charge", variant: "destructive" },
+    payment: { label: "Payment", variant: "default" },
+    waiver: { label: "Waiver", variant: "secondary" },
+  };
+  const config = variants[entryType];
+  return <Badge variant={config.variant}>{config.label}</Badge>;
+};
+
+export default FinesManagement;
@@ -0,0 +1,223 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CalendarOff, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { DateRange } from "react-day-picker";
+import { z } from "zod";
+import { getErrorMessage } from "@/lib/libraryErrors";
+import { fetchLibraryCalendar, isLibraryClosed, WEEKDAYS, type LibraryCalendar } from "@/lib/libraryCalendar";
+
+const closureSchema = z.object({
+  start_date: z.string(),
+  end_date: z.string(),
+  reason: z.string().trim().min(1, "A reason is required").max(200),
+});
+
+const LibraryClosures = () => {
+  const { user } = useAuth();
+  const [calendar, setCalendar] = useState<LibraryCalendar | null>(null);
+  const [range, setRange] = useState<DateRange | undefined>();
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    fetchCalendar();
+  }, []);
+
+  const fetchCalendar = async () => {
+    try {
+      setCalendar(await fetchLibraryCalendar());
+    } catch (error) {
+      toast.error("Error loading library calendar: " + getErrorMessage(error));
+    }
+  };
+
+  const toggleWeekday = async (weekday: number, closed: boolean) => {
+    if (!calendar) return;
+
+    const closedWeekdays = closed
+      ? [...calendar.closedWeekdays, weekday].sort()
+      : calendar.closedWeekdays.filter((day) => day !== weekday);
+
+    if (closedWeekdays.length === WEEKDAYS.length) {
+      toast.error("The library must be open on at least one day of the week");
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from("library_settings")
+        .update({ closed_weekdays: closedWeekdays })
+        .eq("id", true);
+
+      if (error) throw error;
+      toast.success(`Library ${closed ? "closed" : "open"} on ${WEEKDAYS[weekday]}s`);
+      fetchCalendar();
+    } catch (error) {
+      toast.error("Error saving weekly closures: " + getErrorMessage(error));
+    }
+  };
+
+  const handleAddClosure = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!range?.from) {
+      toast.error("Pick the closed days on the calendar");
+      return;
+    }
+
+    try {
+      const validatedClosure = closureSchema.parse({
+        start_date: format(range.from, "yyyy-MM-dd"),
+        end_date: format(range.to ?? range.from, "yyyy-MM-dd"),
+        reason,
+      });
+
+      const { error } = await supabase.from("library_closures").insert({
+        start_date: validatedClosure.start_date,
+        end_date: validatedClosure.end_date,
+        reason: validatedClosure.reason,
+        created_by: user?.id,
+      });
+
+      if (error) throw error;
+      toast.success("Closure added");
+      setRange(undefined);
+      setReason("");
+      fetchCalendar();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        toast.error("Error adding closure: " + getErrorMessage(error));
+      }
+    }
+  };
+
+  const deleteClosure = async (id: string) => {
+    if (!confirm("Remove this closure? Loans issued from now on may fall due on these days.")) return;
+
+    try {
+      const { error } = await supabase.from("library_closures").delete().eq("id", id);
+      if (error) throw error;
+      toast.success("Closure removed");
+      fetchCalendar();
+    } catch (error) {
+      toast.error("Error removing closure: " + getErrorMessage(error));
+    }
+  };
+
+  if (!calendar) {
+    return <div className="text-center py-8">Loading library calendar...</div>;
+  }
+
+  const today = format(new Date(), "yyyy-MM-dd");
+  const upcomingClosures = calendar.closures.filter((closure) => closure.end_date >= today);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Library Calendar</CardTitle>
+        <CardDescription>
+          Days the library is closed. Due dates never fall on a closed day and closed days are not charged as late.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label>Closed every week on</Label>
+          <div className="flex flex-wrap gap-4">
+            {WEEKDAYS.map((weekday, index) => (
+              <div key={weekday} className="flex items-center gap-2">
+                <Checkbox
+                  id={`closed_${weekday}`}
+                  checked={calendar.closedWeekdays.includes(index)}
+                  onCheckedChange={(checked) => toggleWeekday(index, checked === true)}
+                />
+                <Label htmlFor={`closed_${weekday}`} className="font-normal">{weekday}</Label>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid gap-6 md:grid-cols-[auto_1fr]">
+          <Calendar
+            mode="range"
+            selected={range}
+            onSelect={setRange}
+            numberOfMonths={2}
+            modifiers={{ closed: (date) => isLibraryClosed(date, calendar) }}
+            modifiersClassNames={{ closed: "bg-destructive/15 text-destructive" }}
+            className="rounded-md border"
+          />
+          <form onSubmit={handleAddClosure} className="space-y-4">
+            <div className="space-y-2">
+              <Label>Selected days</Label>
+              <p className="text-sm text-muted-foreground">
+                {range?.from
+                  ? range.to && range.to.getTime() !== range.from.getTime()
+                    ? `${format(range.from, "PP")} – ${format(range.to, "PP")}`
+                    : format(range.from, "PP")
+                  : "Pick a day or a range of days on the calendar"}
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="closure_reason">Reason *</Label>
+              <Input
+                id="closure_reason"
+                placeholder="e.g., Onam holidays, Semester exams"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                required
+              />
+            </div>
+            <Button type="submit" disabled={!range?.from}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Closure
+            </Button>
+          </form>
+        </div>
+
+        {upcomingClosures.length === 0 ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <CalendarOff className="h-4 w-4" />
+            No upcoming holidays or closures
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>From</TableHead>
+                <TableHead>To</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {upcomingClosures.map((closure) => (
+                <TableRow key={closure.id}>
+                  <TableCell>{format(new Date(closure.start_date), "PP")}</TableCell>
+                  <TableCell>{format(new Date(closure.end_date), "PP")}</TableCell>
+                  <TableCell>{closure.reason}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="destructive" size="sm" onClick={() => deleteClosure(closure.id)}>
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LibraryClosures;
@@ -0,0 +1,220 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Save, TimerReset } from "lucide-react";
+import { toast } from "sonner";
+import { z } from "zod";
+import { getErrorMessage } from "@/lib/libraryErrors";
+
+const settingsSchema = z.object({
+  hold_pickup_days: z.number().int().min(1, "Hold pickup window must be at least 1 day").max(30),
+  fine_block_threshold: z.number().min(0, "Blocking threshold cannot be negative"),
+  default_replacement_cost: z.number().min(0, "Replacement cost cannot be negative"),
+  pending_expiry_days: z.number().int().min(1, "Pending requests must wait at least 1 day").max(90),
+  pickup_deadline_days: z.number().int().min(1, "Pickup deadline must be at least 1 day").max(30),
+});
+
+type SettingsForm = Record<keyof z.infer<typeof settingsSchema>, string>;
+
+const LibrarySettings = () => {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState<SettingsForm>({
+    hold_pickup_days: "",
+    fine_block_threshold: "",
+    default_replacement_cost: "",
+    pending_expiry_days: "",
+    pickup_deadline_days: "",
+  });
+  const [expiring, setExpiring] = useState(false);
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const fetchSettings = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("library_settings")
+        .select("*")
+        .single();
+
+      if (error) throw error;
+      setFormData({
+        hold_pickup_days: data.hold_pickup_days.toString(),
+        fine_block_threshold: data.fine_block_threshold.toString(),
+        default_replacement_cost: data.default_replacement_cost.toString(),
+        pending_expiry_days: data.pending_expiry_days.toString(),
+        pickup_deadline_days: data.pickup_deadline_days.toString(),
+      });
+    } catch (error) {
+      toast.error("Error loading settings: " + getErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      const validatedData = settingsSchema.parse({
+        hold_pickup_days: parseInt(formData.hold_pickup_days),
+        fine_block_threshold: parseFloat(formData.fine_block_threshold),
+        default_replacement_cost: parseFloat(formData.default_replacement_cost),
+        pending_expiry_days: parseInt(formData.pending_expiry_days),
+        pickup_deadline_days: parseInt(formData.pickup_deadline_days),
+      });
+
+      const { error } = await supabase
+        .from("library_settings")
+        .update(validatedData)
+        .eq("id", true);
+
+      if (error) throw error;
+      toast.success("Settings saved");
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        toast.error("Error saving settings: " + getErrorMessage(error));
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Runs the same expiry as the scheduled job, for a queue that needs clearing now
+  const expireStaleRequests = async () => {
+    try {
+      setExpiring(true);
+      const { data, error } = await supabase.functions.invoke("expire-stale-requests", { method: "POST" });
+      if (error) throw error;
+      toast.success(
+        `Expired ${data.expired_pending} pending request(s), ${data.expired_approvals} uncollected approval(s) ` +
+          `and ${data.expired_holds} uncollected hold(s)`
+      );
+    } catch (error) {
+      toast.error("Error expiring requests: " + getErrorMessage(error));
+    } finally {
+      setExpiring(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-8">Loading settings...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="text-2xl font-bold">Library Settings</h2>
+        <p className="text-muted-foreground">Circulation rules that apply across the library</p>
+      </div>
+
+      <form onSubmit={handleSubmit}>
+        <Card>
+          <CardHeader>
+            <CardTitle>Holds and Fines</CardTitle>
+            <CardDescription>
+              How long held copies wait on the shelf, when unpaid fines block borrowing and what a lost book costs
+              when it has no replacement cost of its own. Loan periods, renewals and fine rates are set per category
+              in the loan policies below.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="hold_pickup_days">Hold pickup window (days)</Label>
+                <Input
+                  id="hold_pickup_days"
+                  type="number"
+                  min="1"
+                  value={formData.hold_pickup_days}
+                  onChange={(e) => setFormData({ ...formData, hold_pickup_days: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="fine_block_threshold">Block borrowing above (₹)</Label>
+                <Input
+                  id="fine_block_threshold"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.fine_block_threshold}
+                  onChange={(e) => setFormData({ ...formData, fine_block_threshold: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="default_replacement_cost">Default replacement cost (₹)</Label>
+                <Input
+                  id="default_replacement_cost"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.default_replacement_cost}
+                  onChange={(e) => setFormData({ ...formData, default_replacement_cost: e.target.value })}
+                  required
+                />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="mt-4">
+          <CardHeader>
+            <CardTitle>Request Expiry</CardTitle>
+            <CardDescription>
+              Pending requests nobody acts on, and approved books nobody collects, expire automatically. The copy goes
+              back on the shelf and the student is notified.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="pending_expiry_days">Expire pending requests after (days)</Label>
+                <Input
+                  id="pending_expiry_days"
+                  type="number"
+                  min="1"
+                  value={formData.pending_expiry_days}
+                  onChange={(e) => setFormData({ ...formData, pending_expiry_days: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="pickup_deadline_days">Collect approved books within (days)</Label>
+                <Input
+                  id="pickup_deadline_days"
+                  type="number"
+                  min="1"
+                  value={formData.pickup_deadline_days}
+                  onChange={(e) => setFormData({ ...formData, pickup_deadline_days: e.target.value })}
+                  required
+                />
+              </div>
+            </div>
+            <div className="flex gap-2 flex-wrap">
+              <Button type="submit" disabled={saving}>
+                <Save className="h-4 w-4 mr-2" />
+                {saving ? "Saving..." : "Save Settings"}
+              </Button>
+              <Button type="button" variant="outline" disabled={expiring} onClick={expireStaleRequests}>
+                <TimerReset className="h-4 w-4 mr-2" />
+                {expiring ? "Expiring..." : "Expire Stale Requests Now"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </form>
+    </div>
+  );
+};
+
+export default LibrarySettings;
@@ -0,0 +1,138 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { z } from "zod";
+import { formatCurrency } from "@/lib/utils";
+import { getErrorMessage } from "@/lib/libraryErrors";
+
+export type LoanOutcome = "lost" | "damaged";
+
+interface OutcomeLoan {
+  id: string;
+  book_id: string;
+  books: {
+    title: string;
+  };
+  profiles: {
+    name: string;
+  };
+}
+
+interface LoanOutcomeDialogProps {
+  loan: OutcomeLoan | null;
+  outcome: LoanOutcome;
+  onOpenChange: (open: boolean) => void;
+  onRecorded: () => void;
+}
+
+const chargeSchema = z.number({ invalid_type_error: "Charge is required" }).min(0, "Charge cannot be negative");
+
+const LoanOutcomeDialog = ({ loan, outcome, onOpenChange, onRecorded }: LoanOutcomeDialogProps) => {
+  const [charge, setCharge] = useState("");
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (loan) {
+      setNote("");
+      fetchReplacementCost(loan.book_id);
+    }
+  }, [loan]);
+
+  const fetchReplacementCost = async (bookId: string) => {
+    const { data, error } = await supabase.rpc("get_replacement_cost", { _book_id: bookId });
+    setCharge(error || data === null ? "" : Number(data).toFixed(2));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!loan) return;
+
+    try {
+      setSaving(true);
+      const amount = chargeSchema.parse(parseFloat(charge));
+
+      const { error } =
+        outcome === "lost"
+          ? await supabase.rpc("report_loan_lost", { _request_id: loan.id, _charge: amount })
+          : await supabase.rpc("return_loan_damaged", {
+              _request_id: loan.id,
+              _charge: amount,
+              _note: note.trim() || undefined,
+            });
+
+      if (error) throw error;
+      toast.success(
+        `"${loan.books.title}" marked ${outcome}` + (amount > 0 ? `, ${formatCurrency(amount)} charged` : "")
+      );
+      onOpenChange(false);
+      onRecorded();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        toast.error(`Error marking book ${outcome}: ` + getErrorMessage(error));
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!loan} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{outcome === "lost" ? "Mark as Lost" : "Returned Damaged"}</DialogTitle>
+          <DialogDescription>
+            {loan?.books.title} · {loan?.profiles.name}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            {outcome === "lost"
+              ? "The copy is written off as lost and the borrower is charged for a replacement. If the book turns up later, mark it found to reverse the charge."
+              : "The loan is closed, the copy is withdrawn as damaged and the borrower is charged for the damage."}
+          </p>
+          <div className="space-y-2">
+            <Label htmlFor="outcome_charge">{outcome === "lost" ? "Replacement charge (₹)" : "Damage charge (₹)"}</Label>
+            <Input
+              id="outcome_charge"
+              type="number"
+              min="0"
+              step="0.01"
+              value={charge}
+              onChange={(e) => setCharge(e.target.value)}
+              required
+            />
+          </div>
+          {outcome === "damaged" && (
+            <div className="space-y-2">
+              <Label htmlFor="outcome_note">Damage (Optional)</Label>
+              <Textarea
+                id="outcome_note"
+                placeholder="e.g., Water damage, torn pages"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+              />
+            </div>
+          )}
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="destructive" disabled={saving}>
+              {outcome === "lost" ? "Mark as Lost" : "Record Damage"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LoanOutcomeDialog;
@@ -0,0 +1,290 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Save, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { z } from "zod";
+import { Category, fetchCategories, getCategoryLabel, sortCategoryTree } from "@/lib/categories";
+import { getErrorMessage } from "@/lib/libraryErrors";
+
+const policySchema = z.object({
+  loan_period_days: z.number().int().min(1, "Loan period must be at least 1 day").max(365),
+  max_renewals: z.number().int().min(0, "Max renewals cannot be negative").max(20),
+  fine_per_day: z.number().min(0, "Fine per day cannot be negative"),
+  max_items: z.number().int().min(1, "Max items must be at least 1").max(100),
+});
+
+type PolicyValues = Record<keyof z.infer<typeof policySchema>, string>;
+
+interface LoanPolicy {
+  id: string;
+  category_id: string | null;
+  role: "admin" | "student";
+  loan_period_days: number;
+  max_renewals: number;
+  fine_per_day: number;
+  max_items: number;
+}
+
+const emptyPolicy = {
+  category_id: "",
+  role: "student" as "admin" | "student",
+  loan_period_days: "14",
+  max_renewals: "2",
+  fine_per_day: "1",
+  max_items: "3",
+};
+
+const toValues = (policy: LoanPolicy): PolicyValues => ({
+  loan_period_days: policy.loan_period_days.toString(),
+  max_renewals: policy.max_renewals.toString(),
+  fine_per_day: policy.fine_per_day.toString(),
+  max_items: policy.max_items.toString(),
+});
+
+const parseValues = (values: PolicyValues) =>
+  policySchema.parse({
+    loan_period_days: parseInt(values.loan_period_days),
+    max_renewals: parseInt(values.max_renewals),
+    fine_per_day: parseFloat(values.fine_per_day),
+    max_items: parseInt(values.max_items),
+  });
+
+const LoanPolicies = () => {
+  const [policies, setPolicies] = useState<LoanPolicy[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, PolicyValues>>({});
+  const [loading, setLoading] = useState(true);
+  const [newPolicy, setNewPolicy] = useState(emptyPolicy);
+
+  useEffect(() => {
+    fetchPolicies();
+  }, []);
+
+  const fetchPolicies = async () => {
+    try {
+      const [{ data, error }, categoryList] = await Promise.all([
+        supabase
+          .from("loan_policies")
+          .select("id, category_id, role, loan_period_days, max_renewals, fine_per_day, max_items")
+          .order("role", { ascending: false }),
+        fetchCategories(),
+      ]);
+
+      if (error) throw error;
+      // Defaults first, then category policies in category order
+      const categoryOrder = sortCategoryTree(categoryList).map((category) => category.id);
+      const rank = (policy: LoanPolicy) => (policy.category_id ? categoryOrder.indexOf(policy.category_id) : -1);
+      setPolicies((data || []).sort((a, b) => b.role.localeCompare(a.role) || rank(a) - rank(b)));
+      setCategories(categoryList);
+      setDrafts(Object.fromEntries((data || []).map((policy) => [policy.id, toValues(policy)])));
+    } catch (error) {
+      toast.error("Error loading loan policies: " + getErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleError = (error: unknown, action: string) => {
+    if (error instanceof z.ZodError) {
+      toast.error(error.errors[0].message);
+    } else if (getErrorMessage(error).includes("duplicate")) {
+      toast.error("A policy for this category and role already exists");
+    } else {
+      toast.error(`Error ${action} policy: ` + getErrorMessage(error));
+    }
+  };
+
+  const savePolicy = async (policy: LoanPolicy) => {
+    try {
+      const { error } = await supabase
+        .from("loan_policies")
+        .update(parseValues(drafts[policy.id]))
+        .eq("id", policy.id);
+
+      if (error) throw error;
+      toast.success("Policy saved");
+      fetchPolicies();
+    } catch (error) {
+      handleError(error, "saving");
+    }
+  };
+
+  const deletePolicy = async (policy: LoanPolicy) => {
+    if (!confirm(`Delete the ${getCategoryLabel(policy.category_id, categories)} policy for ${policy.role}s? The default policy will apply instead.`)) return;
+
+    try {
+      const { error } = await supabase.from("loan_policies").delete().eq("id", policy.id);
+      if (error) throw error;
+      toast.success("Policy deleted");
+      fetchPolicies();
+    } catch (error) {
+      handleError(error, "deleting");
+    }
+  };
+
+  const handleAddPolicy = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!newPolicy.category_id) {
+      toast.error("Choose a category for the policy");
+      return;
+    }
+
+    try {
+      const { error } = await supabase.from("loan_policies").insert({
+        category_id: newPolicy.category_id,
+        role: newPolicy.role,
+        ...parseValues(newPolicy),
+      });
+
+      if (error) throw error;
+      toast.success("Policy added");
+      setNewPolicy(emptyPolicy);
+      fetchPolicies();
+    } catch (error) {
+      handleError(error, "adding");
+    }
+  };
+
+  const updateDraft = (id: string, field: keyof PolicyValues, value: string) => {
+    setDrafts((prev) => ({ ...prev, [id]: { ...prev[id], [field]: value } }));
+  };
+
+  if (loading) {
+    return <div className="text-center py-8">Loading loan policies...</div>;
+  }
+
+  const numberFields: { field: keyof PolicyValues; label: string; step?: string }[] = [
+    { field: "loan_period_days", label: "Loan Days" },
+    { field: "max_renewals", label: "Renewals" },
+    { field: "fine_per_day", label: "Fine/Day (₹)", step: "0.01" },
+    { field: "max_items", label: "Max Items" },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Loan Policies</CardTitle>
+        <CardDescription>
+          Loan period, renewals, fine rate and item limits by category and borrower role. A sub-category without its
+          own policy uses its parent's, and any other category uses the default for the role.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Category</TableHead>
+              <TableHead>Role</TableHead>
+              {numberFields.map(({ field, label }) => (
+                <TableHead key={field}>{label}</TableHead>
+              ))}
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {policies.map((policy) => (
+              <TableRow key={policy.id}>
+                <TableCell className="font-medium">
+                  {policy.category_id ? (
+                    getCategoryLabel(policy.category_id, categories)
+                  ) : (
+                    <Badge variant="outline">Default</Badge>
+                  )}
+                </TableCell>
+                <TableCell className="capitalize">{policy.role}</TableCell>
+                {numberFields.map(({ field, step }) => (
+                  <TableCell key={field}>
+                    <Input
+                      type="number"
+                      min="0"
+                      step={step}
+                      className="h-8 w-20"
+                      value={drafts[policy.id]?.[field] ?? ""}
+                      onChange={(e) => updateDraft(policy.id, field, e.target.value)}
+                    />
+                  </TableCell>
+                ))}
+                <TableCell className="text-right">
+                  <div className="flex justify-end gap-1">
+                    <Button variant="outline" size="sm" onClick={() => savePolicy(policy)}>
+                      <Save className="h-3 w-3" />
+                    </Button>
+                    {policy.category_id !== null && (
+                      <Button variant="destructive" size="sm" onClick={() => deletePolicy(policy)}>
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    )}
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <form onSubmit={handleAddPolicy} className="grid grid-cols-2 md:grid-cols-7 gap-3 items-end p-3 border rounded-md">
+          <div className="space-y-2">
+            <Label>Category</Label>
+            <Select
+              value={newPolicy.category_id}
+              onValueChange={(value) => setNewPolicy({ ...newPolicy, category_id: value })}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select" />
+              </SelectTrigger>
+              <SelectContent>
+                {sortCategoryTree(categories).map((category) => (
+                  <SelectItem key={category.id} value={category.id}>
+                    {getCategoryLabel(category.id, categories)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Role</Label>
+            <Select
+              value={newPolicy.role}
+              onValueChange={(value) => setNewPolicy({ ...newPolicy, role: value as "admin" | "student" })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="student">Student</SelectItem>
+                <SelectItem value="admin">Admin</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {numberFields.map(({ field, label, step }) => (
+            <div key={field} className="space-y-2">
+              <Label htmlFor={`new_${field}`}>{label}</Label>
+              <Input
+                id={`new_${field}`}
+                type="number"
+                min="0"
+                step={step}
+                value={newPolicy[field]}
+                onChange={(e) => setNewPolicy({ ...newPolicy, [field]: e.target.value })}
+                required
+              />
+            </div>
+          ))}
+          <Button type="submit">
+            <Plus className="h-4 w-4 mr-2" />
+            Add
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LoanPolicies;
@@ -0,0 +1,170 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { HandHelping, PackageOpen, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import { addDays, format, isPast } from "date-fns";
+import { getErrorMessage } from "@/lib/libraryErrors";
+
+interface PickupRequest {
+  id: string;
+  ready_at: string | null;
+  profiles: {
+    name: string;
+    roll_no: string | null;
+  };
+  books: {
+    title: string;
+    author: string;
+  };
+  book_copies: {
+    accession_number: string;
+  } | null;
+}
+
+// Approved requests whose copies are set aside for collection, oldest first
+const PickupShelf = () => {
+  const [requests, setRequests] = useState<PickupRequest[]>([]);
+  const [pickupDeadlineDays, setPickupDeadlineDays] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [issuingId, setIssuingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchShelf();
+  }, []);
+
+  const fetchShelf = async () => {
+    try {
+      const [{ data, error }, { data: settings, error: settingsError }] = await Promise.all([
+        supabase
+          .from("borrow_requests")
+          .select(`
+            id,
+            ready_at,
+            profiles (name, roll_no),
+            books (title, author),
+            book_copies (accession_number)
+          `)
+          .eq("status", "approved")
+          .order("ready_at", { ascending: true }),
+        supabase.from("library_settings").select("pickup_deadline_days").single(),
+      ]);
+
+      if (error) throw error;
+      if (settingsError) throw settingsError;
+      setRequests(data || []);
+      setPickupDeadlineDays(settings.pickup_deadline_days);
+    } catch (error) {
+      toast.error("Error loading pickup shelf: " + getErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Issues with the policy's due date; pick a different date from the request card
+  const issueRequest = async (request: PickupRequest) => {
+    try {
+      setIssuingId(request.id);
+      const { data: loan, error } = await supabase.rpc("issue_borrow_request", { _request_id: request.id });
+      if (error) throw error;
+      toast.success(`"${request.books.title}" issued to ${request.profiles.name}, due ${format(new Date(loan.due_date), "PP")}`);
+      fetchShelf();
+    } catch (error) {
+      toast.error("Error issuing book: " + getErrorMessage(error));
+      fetchShelf();
+    } finally {
+      setIssuingId(null);
+    }
+  };
+
+  const getCollectBy = (request: PickupRequest) =>
+    request.ready_at && pickupDeadlineDays ? addDays(new Date(request.ready_at), pickupDeadlineDays) : null;
+
+  if (loading) {
+    return <div className="text-center py-8">Loading pickup shelf...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Pickup Shelf</h2>
+          <p className="text-muted-foreground">Approved books set aside and waiting to be collected</p>
+        </div>
+        <Button variant="outline" onClick={fetchShelf}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      {requests.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <PackageOpen className="h-16 w-16 text-muted-foreground mb-4" />
+            <p className="text-muted-foreground text-center">Nothing is waiting to be collected</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="pt-6">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Book</TableHead>
+                  <TableHead>Copy</TableHead>
+                  <TableHead>Student</TableHead>
+                  <TableHead>Ready Since</TableHead>
+                  <TableHead>Collect By</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {requests.map((request) => {
+                  const collectBy = getCollectBy(request);
+                  return (
+                    <TableRow key={request.id}>
+                      <TableCell>
+                        <p className="font-medium">{request.books.title}</p>
+                        <p className="text-xs text-muted-foreground">{request.books.author}</p>
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">{request.book_copies?.accession_number ?? "—"}</TableCell>
+                      <TableCell>
+                        <p className="font-medium">{request.profiles.name}</p>
+                        {request.profiles.roll_no && (
+                          <p className="text-xs text-muted-foreground">{request.profiles.roll_no}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>{request.ready_at ? format(new Date(request.ready_at), "PP") : "—"}</TableCell>
+                      <TableCell>
+                        {collectBy ? (
+                          isPast(collectBy) ? (
+                            <Badge variant="destructive">{format(collectBy, "PP")}</Badge>
+                          ) : (
+                            format(collectBy, "PP")
+                          )
+                        ) : (
+                          "—"
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button size="sm" disabled={issuingId === request.id} onClick={() => issueRequest(request)}>
+                          <HandHelping className="h-3 w-3 mr-1" />
+                          Issue
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default PickupShelf;
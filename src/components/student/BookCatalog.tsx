@@ -1,120 +1,181 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
+import { Link } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { BookOpen, BookmarkPlus } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BookOpen, SearchX } from "lucide-react";
 import { toast } from "sonner";
+import { getErrorMessage } from "@/lib/libraryErrors";
+import { Category, countBooksInCategory, fetchCategories, getSubcategories } from "@/lib/categories";
+import {
+  BookSearchFacets,
+  BookSearchFilters,
+  BookSearchResult,
+  BookSearchSort,
+  SEARCH_PAGE_SIZE,
+  SearchSuggestion,
+  fetchSearchFacets,
+  fetchSearchSuggestions,
+  hasActiveFilters,
+  searchBooks,
+} from "@/lib/bookSearch";
+import { parseSearchQuery } from "@/lib/searchQuery";
+import { useCatalogSearchParams } from "@/hooks/use-catalog-search-params";
+import HighlightedText from "@/components/HighlightedText";
+import SearchPagination from "@/components/SearchPagination";
+import CatalogFacets from "@/components/student/CatalogFacets";
+import BookRequestAction, { BookHold } from "@/components/student/BookRequestAction";
 
-interface Book {
-  id: string;
-  title: string;
-  author: string;
-  category: string;
-  description?: string;
-  isbn?: string;
-  photo_url?: string;
-  publisher?: string;
-  year_published?: number;
-  total_count: number;
-  available_count: number;
-}
-
-interface BookCatalogProps {
-  searchQuery: string;
-}
-
-const BookCatalog = ({ searchQuery }: BookCatalogProps) => {
-  const [books, setBooks] = useState<Book[]>([]);
+// Below this many results the catalog offers "did you mean" spellings
+const SUGGESTION_THRESHOLD = 3;
+
+const SORT_OPTIONS: { value: BookSearchSort; label: string }[] = [
+  { value: "relevance", label: "Best match" },
+  { value: "title", label: "Title (A–Z)" },
+  { value: "newest", label: "Newest" },
+  { value: "most_borrowed", label: "Most borrowed" },
+];
+
+// Search, category, filters, sort and page all live in the URL, see useCatalogSearchParams
+const BookCatalog = () => {
+  const [books, setBooks] = useState<BookSearchResult[]>([]);
+  const [totalBooks, setTotalBooks] = useState(0);
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
+  const [facets, setFacets] = useState<BookSearchFacets | null>(null);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [holds, setHolds] = useState<BookHold[]>([]);
   const [loading, setLoading] = useState(true);
-  const [selectedCategory, setSelectedCategory] = useState<string>("all");
+  const [catalogSearch, updateCatalogSearch] = useCatalogSearchParams();
+  const { query, category: selectedCategory, subcategory: selectedSubcategory, filters, sort, page } = catalogSearch;
+  const parsedQuery = useMemo(() => parseSearchQuery(query), [query]);
+  const latestSearch = useRef(0);
   const { user } = useAuth();
 
+  const categoryFilter =
+    selectedSubcategory !== "all" ? selectedSubcategory : selectedCategory !== "all" ? selectedCategory : null;
+
   useEffect(() => {
-    fetchBooks();
+    loadCategories();
   }, []);
 
-  const fetchBooks = async () => {
-    try {
-      const { data, error } = await supabase
-        .from("books")
-        .select("*")
-        .order("title");
+  useEffect(() => {
+    fetchBooks();
+  }, [parsedQuery, categoryFilter, filters, sort, page]);
 
-      if (error) throw error;
-      setBooks(data || []);
-    } catch (error: any) {
-      toast.error("Error loading books: " + error.message);
-    } finally {
-      setLoading(false);
+  useEffect(() => {
+    if (user) {
+      fetchHolds();
     }
-  };
+  }, [user]);
 
-  const requestBorrow = async (bookId: string, bookTitle: string) => {
-    if (!user) {
-      toast.error("Please sign in to borrow books");
-      return;
+  const loadCategories = async () => {
+    try {
+      setCategories(await fetchCategories());
+    } catch (error) {
+      toast.error("Error loading categories: " + getErrorMessage(error));
     }
+  };
 
-    try {
-      const { error } = await supabase
-        .from("borrow_requests")
-        .insert({
-          student_id: user.id,
-          book_id: bookId,
-          status: "pending",
-        });
+  // Only the latest search is shown when responses arrive out of order
+  const fetchBooks = async () => {
+    const searchId = ++latestSearch.current;
 
-      if (error) throw error;
-      toast.success(`Borrow request submitted for "${bookTitle}"`);
-    } catch (error: any) {
-      if (error.message.includes("duplicate")) {
-        toast.error("You already have a pending or active request for this book");
-      } else {
-        toast.error("Error submitting request: " + error.message);
+    try {
+      const search = { query: parsedQuery.text, terms: parsedQuery.terms, categoryId: categoryFilter, filters };
+      const [result, facetCounts] = await Promise.all([
+        searchBooks({ ...search, sort, page }),
+        fetchSearchFacets(search),
+      ]);
+      // Spelling suggestions only make sense for a search that is nothing but plain words
+      const suggestionList =
+        result.total < SUGGESTION_THRESHOLD && parsedQuery.terms.length === 0
+          ? await fetchSearchSuggestions(parsedQuery.text)
+          : [];
+      if (searchId !== latestSearch.current) return;
+      setBooks(result.books);
+      setTotalBooks(result.total);
+      setFacets(facetCounts);
+      setSuggestions(suggestionList);
+    } catch (error) {
+      if (searchId === latestSearch.current) {
+        toast.error("Error loading books: " + getErrorMessage(error));
+      }
+    } finally {
+      if (searchId === latestSearch.current) {
+        setLoading(false);
       }
     }
   };
 
-  const filteredBooks = books.filter((book) => {
-    const query = searchQuery.toLowerCase();
-    const matchesSearch = 
-      book.title.toLowerCase().includes(query) ||
-      book.author.toLowerCase().includes(query) ||
-      book.category.toLowerCase().includes(query);
-    
-    const matchesCategory = 
-      selectedCategory === "all" || 
-      book.category.toLowerCase() === selectedCategory.toLowerCase();
-    
-    return matchesSearch && matchesCategory;
-  });
-
-  const categories = ["all", "novel", "autobiography", "study", "history", "reference", "fiction", "non-fiction"];
-  const booksByCategory = categories.reduce((acc, cat) => {
-    if (cat === "all") {
-      acc[cat] = books;
-    } else {
-      acc[cat] = books.filter(b => b.category.toLowerCase() === cat.toLowerCase());
+  const fetchHolds = async () => {
+    try {
+      const { data, error } = await supabase.rpc("get_my_holds");
+      if (error) throw error;
+      setHolds(data || []);
+    } catch (error) {
+      toast.error("Error loading holds: " + getErrorMessage(error));
     }
-    return acc;
-  }, {} as Record<string, Book[]>);
+  };
+
+  // A request or hold changes both the student's holds and the book's availability
+  const refreshAfterRequest = () => {
+    fetchHolds();
+    fetchBooks();
+  };
+
+  // Tabs for top-level categories with books; a tab also covers its sub-categories
+  const categoryTabs = categories.filter(
+    (category) => !category.parent_id && countBooksInCategory(category, categories) > 0
+  );
+  const subcategoryFilters =
+    selectedCategory === "all"
+      ? []
+      : getSubcategories(selectedCategory, categories).filter((category) => category.book_count > 0);
+
+  const selectCategory = (categoryId: string) => {
+    updateCatalogSearch({ category: categoryId, subcategory: "all", page: 1 });
+  };
+
+  const selectSubcategory = (categoryId: string) => {
+    updateCatalogSearch({ subcategory: categoryId, page: 1 });
+  };
+
+  const changeFilters = (nextFilters: BookSearchFilters) => {
+    updateCatalogSearch({ filters: nextFilters, page: 1 });
+  };
+
+  const changeSort = (nextSort: string) => {
+    updateCatalogSearch({ sort: nextSort as BookSearchSort, page: 1 });
+  };
+
+  const changePage = (nextPage: number) => {
+    updateCatalogSearch({ page: nextPage });
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
 
   if (loading) {
     return <div className="text-center py-8">Loading books...</div>;
   }
 
-  const renderBookGrid = (booksToRender: Book[]) => (
-    <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+  const renderBookGrid = (booksToRender: BookSearchResult[]) => (
+    <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
       {booksToRender.map((book) => (
         <Card key={book.id} className="flex flex-col">
           <CardHeader>
             <div className="flex items-start justify-between">
               <div className="flex-1">
-                <CardTitle className="line-clamp-2">{book.title}</CardTitle>
-                <CardDescription className="mt-1">{book.author}</CardDescription>
+                <CardTitle className="line-clamp-2">
+                  <Link to={`/books/${book.id}`} className="hover:underline">
+                    <HighlightedText text={book.title_highlight} />
+                  </Link>
+                </CardTitle>
+                <CardDescription className="mt-1">
+                  <HighlightedText text={book.author_highlight} />
+                </CardDescription>
               </div>
               {book.photo_url ? (
                 <img
@@ -130,15 +191,15 @@ const BookCatalog = ({ searchQuery }: BookCatalogProps) => {
             </div>
           </CardHeader>
           <CardContent className="flex-1">
-            {book.description && (
+            {book.description_highlight && (
               <p className="text-sm text-muted-foreground mb-4 line-clamp-3">
-                {book.description}
+                <HighlightedText text={book.description_highlight} />
               </p>
             )}
             <div className="space-y-2 text-sm">
               <div className="flex items-center justify-between">
                 <span className="text-muted-foreground">Category</span>
-                <Badge variant="secondary">{book.category}</Badge>
+                <Badge variant="secondary">{book.category_name}</Badge>
               </div>
               <div className="flex items-center justify-between">
                 <span className="text-muted-foreground">Available</span>
@@ -158,17 +219,20 @@ const BookCatalog = ({ searchQuery }: BookCatalogProps) => {
                   <span className="text-xs">{book.year_published}</span>
                 </div>
               )}
+              {book.language && (
+                <div className="flex items-center justify-between">
+                  <span className="text-muted-foreground">Language</span>
+                  <span className="text-xs">{book.language}</span>
+                </div>
+              )}
             </div>
           </CardContent>
           <CardFooter>
-            <Button
-              className="w-full"
-              disabled={book.available_count === 0}
-              onClick={() => requestBorrow(book.id, book.title)}
-            >
-              <BookmarkPlus className="h-4 w-4 mr-2" />
-              Request to Borrow
-            </Button>
+            <BookRequestAction
+              book={book}
+              hold={holds.find((h) => h.book_id === book.id)}
+              onChange={refreshAfterRequest}
+            />
           </CardFooter>
         </Card>
       ))}
@@ -176,37 +240,91 @@ const BookCatalog = ({ searchQuery }: BookCatalogProps) => {
   );
 
   return (
-    <Tabs defaultValue="all" value={selectedCategory} onValueChange={setSelectedCategory}>
-      <TabsList className="mb-4">
-        <TabsTrigger value="all">All Books</TabsTrigger>
-        <TabsTrigger value="novel">Novel</TabsTrigger>
-        <TabsTrigger value="autobiography">Autobiography</TabsTrigger>
-        <TabsTrigger value="study">Study</TabsTrigger>
-        <TabsTrigger value="history">History</TabsTrigger>
-        <TabsTrigger value="reference">Reference</TabsTrigger>
-        <TabsTrigger value="fiction">Fiction</TabsTrigger>
-        <TabsTrigger value="non-fiction">Non-Fiction</TabsTrigger>
+    <Tabs defaultValue="all" value={selectedCategory} onValueChange={selectCategory}>
+      <TabsList className="mb-4 h-auto flex-wrap justify-start">
+        <TabsTrigger value="all">
+          All Books ({categories.reduce((sum, category) => sum + category.book_count, 0)})
+        </TabsTrigger>
+        {categoryTabs.map((category) => (
+          <TabsTrigger key={category.id} value={category.id}>
+            {category.name} ({countBooksInCategory(category, categories)})
+          </TabsTrigger>
+        ))}
       </TabsList>
-      
-      {categories.map((category) => (
-        <TabsContent key={category} value={category}>
-          {renderBookGrid(
-            category === "all" 
-              ? filteredBooks 
-              : filteredBooks.filter(b => b.category.toLowerCase() === category.toLowerCase())
+
+      <TabsContent value={selectedCategory} className="grid gap-6 md:grid-cols-[16rem_1fr] items-start">
+        <CatalogFacets facets={facets} filters={filters} onFiltersChange={changeFilters} />
+        <div>
+          <div className="flex items-center justify-between gap-4 mb-4">
+            <p className="text-sm text-muted-foreground">
+              {totalBooks} {totalBooks === 1 ? "book" : "books"}
+            </p>
+            <Select value={sort} onValueChange={changeSort}>
+              <SelectTrigger className="w-44" aria-label="Sort books">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SORT_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {suggestions.length > 0 && (
+            <p className="flex flex-wrap items-center gap-x-2 gap-y-1 text-sm text-muted-foreground mb-4">
+              <SearchX className="h-4 w-4" />
+              Did you mean
+              {suggestions.map(({ suggestion, kind }, index) => (
+                <span key={suggestion}>
+                  <Button variant="link" className="h-auto p-0" onClick={() => updateCatalogSearch({ query: suggestion, page: 1 })}>
+                    {suggestion}
+                  </Button>
+                  <span className="text-xs"> ({kind})</span>
+                  {index < suggestions.length - 1 ? "," : "?"}
+                </span>
+              ))}
+            </p>
           )}
-          {filteredBooks.length === 0 && (
+          {subcategoryFilters.length > 0 && (
+            <div className="flex flex-wrap gap-2 mb-4">
+              <Button
+                size="sm"
+                variant={selectedSubcategory === "all" ? "default" : "outline"}
+                onClick={() => selectSubcategory("all")}
+              >
+                All
+              </Button>
+              {subcategoryFilters.map((subcategory) => (
+                <Button
+                  key={subcategory.id}
+                  size="sm"
+                  variant={selectedSubcategory === subcategory.id ? "default" : "outline"}
+                  onClick={() => selectSubcategory(subcategory.id)}
+                >
+                  {subcategory.name} ({subcategory.book_count})
+                </Button>
+              ))}
+            </div>
+          )}
+          {renderBookGrid(books)}
+          {books.length === 0 && (
             <Card>
               <CardContent className="flex flex-col items-center justify-center py-12">
                 <BookOpen className="h-16 w-16 text-muted-foreground mb-4" />
                 <p className="text-muted-foreground text-center">
-                  No books found {category !== "all" ? `in ${category} category` : ""}.
+                  No books found{selectedCategory !== "all" ? " in this category" : ""}
+                  {hasActiveFilters(filters) ? " with these filters" : ""}.
                 </p>
               </CardContent>
             </Card>
           )}
-        </TabsContent>
-      ))}
+          <div className="mt-6">
+            <SearchPagination page={page} pageSize={SEARCH_PAGE_SIZE} total={totalBooks} onPageChange={changePage} />
+          </div>
+        </div>
+      </TabsContent>
     </Tabs>
   );
 };
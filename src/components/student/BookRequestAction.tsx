@@ -0,0 +1,100 @@
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { BookmarkPlus, Hourglass } from "lucide-react";
+import { toast } from "sonner";
+import { describeLibraryError, getErrorMessage, getLibraryError } from "@/lib/libraryErrors";
+
+export interface BookHold {
+  id: string;
+  book_id: string;
+  status: "waiting" | "ready" | "fulfilled" | "expired" | "cancelled";
+  queue_position: number;
+}
+
+interface BookRequestActionProps {
+  book: { id: string; title: string; available_count: number };
+  // The student's hold on this book, if any
+  hold?: BookHold;
+  // Called after a request or hold so the caller can refresh holds and availability
+  onChange: () => void;
+}
+
+// Request to borrow a copy on the shelf, or join the hold queue when none is left
+const BookRequestAction = ({ book, hold, onChange }: BookRequestActionProps) => {
+  const { user } = useAuth();
+
+  const placeHold = async () => {
+    if (!user) {
+      toast.error("Please sign in to place holds");
+      return;
+    }
+
+    try {
+      const { error } = await supabase.rpc("place_hold", { _book_id: book.id });
+      if (error) throw error;
+      toast.success(`You're in the queue for "${book.title}"`);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      onChange();
+    }
+  };
+
+  const requestBorrow = async () => {
+    if (!user) {
+      toast.error("Please sign in to borrow books");
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from("borrow_requests")
+        .insert({
+          student_id: user.id,
+          book_id: book.id,
+          status: "pending",
+        });
+
+      if (error) throw error;
+      toast.success(`Borrow request submitted for "${book.title}"`);
+      onChange();
+    } catch (error: any) {
+      const libraryError = getLibraryError(error);
+      if (libraryError) {
+        toast.error(describeLibraryError(libraryError));
+      } else if (error.message.includes("duplicate")) {
+        toast.error("You already have a pending or active request for this book");
+      } else {
+        toast.error("Error submitting request: " + error.message);
+      }
+    }
+  };
+
+  if (hold?.status === "waiting") {
+    return (
+      <Button className="w-full" variant="outline" disabled>
+        <Hourglass className="h-4 w-4 mr-2" />
+        On Hold (#{hold.queue_position} in queue)
+      </Button>
+    );
+  }
+
+  if (book.available_count === 0 && hold?.status !== "ready") {
+    return (
+      <Button className="w-full" variant="secondary" onClick={placeHold}>
+        <Hourglass className="h-4 w-4 mr-2" />
+        Place Hold
+      </Button>
+    );
+  }
+
+  return (
+    <Button className="w-full" onClick={requestBorrow}>
+      <BookmarkPlus className="h-4 w-4 mr-2" />
+      {hold?.status === "ready" ? "Borrow Held Copy" : "Request to Borrow"}
+    </Button>
+  );
+};
+
+export default BookRequestAction;
@@ -0,0 +1,170 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Separator } from "@/components/ui/separator";
+import { SlidersHorizontal } from "lucide-react";
+import { BookSearchFacets, BookSearchFilters, EMPTY_FILTERS, FacetValue, hasActiveFilters } from "@/lib/bookSearch";
+
+interface CatalogFacetsProps {
+  facets: BookSearchFacets | null;
+  filters: BookSearchFilters;
+  onFiltersChange: (filters: BookSearchFilters) => void;
+}
+
+// Long publisher lists start collapsed to the most common values
+const COLLAPSED_VALUES = 8;
+
+const CatalogFacets = ({ facets, filters, onFiltersChange }: CatalogFacetsProps) => {
+  const [showAllPublishers, setShowAllPublishers] = useState(false);
+
+  const years = facets?.years ?? [];
+  const minYear = years[0]?.year;
+  const maxYear = years[years.length - 1]?.year;
+
+  // The slider moves freely while dragging; the search only reruns on release
+  const [yearRange, setYearRange] = useState<number[]>([]);
+  useEffect(() => {
+    if (minYear !== undefined && maxYear !== undefined) {
+      setYearRange([filters.yearFrom ?? minYear, filters.yearTo ?? maxYear]);
+    }
+  }, [minYear, maxYear, filters.yearFrom, filters.yearTo]);
+
+  const toggleValue = (field: "publishers" | "languages", value: string, checked: boolean) => {
+    const current = filters[field];
+    onFiltersChange({
+      ...filters,
+      [field]: checked ? [...current, value] : current.filter((v) => v !== value),
+    });
+  };
+
+  const commitYearRange = ([from, to]: number[]) => {
+    onFiltersChange({
+      ...filters,
+      yearFrom: from === minYear ? null : from,
+      yearTo: to === maxYear ? null : to,
+    });
+  };
+
+  // Selected values stay listed even when the current search has no books for them
+  const withSelected = (values: FacetValue[], selected: string[]) => [
+    ...values,
+    ...selected.filter((value) => !values.some((v) => v.value === value)).map((value) => ({ value, count: 0 })),
+  ];
+
+  const renderValues = (field: "publishers" | "languages", values: FacetValue[], limit?: number) => {
+    const visible = limit ? values.slice(0, limit) : values;
+    return (
+      <div className="space-y-2">
+        {visible.map(({ value, count }) => {
+          const id = `facet_${field}_${value}`;
+          return (
+            <div key={value} className="flex items-center gap-2">
+              <Checkbox
+                id={id}
+                checked={filters[field].includes(value)}
+                onCheckedChange={(checked) => toggleValue(field, value, checked === true)}
+              />
+              <Label htmlFor={id} className="flex-1 text-sm font-normal leading-tight">
+                {value}
+              </Label>
+              <span className="text-xs text-muted-foreground">{count}</span>
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const publishers = withSelected(facets?.publishers ?? [], filters.publishers);
+  const languages = withSelected(facets?.languages ?? [], filters.languages);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base flex items-center gap-2">
+            <SlidersHorizontal className="h-4 w-4" />
+            Filters
+          </CardTitle>
+          {hasActiveFilters(filters) && (
+            <Button variant="link" size="sm" className="h-auto p-0" onClick={() => onFiltersChange(EMPTY_FILTERS)}>
+              Clear all
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <Label htmlFor="facet_available" className="text-sm">
+            Available now
+            <span className="ml-1 text-xs text-muted-foreground">({facets?.availableCount ?? 0})</span>
+          </Label>
+          <Switch
+            id="facet_available"
+            checked={filters.availableOnly}
+            onCheckedChange={(checked) => onFiltersChange({ ...filters, availableOnly: checked })}
+          />
+        </div>
+
+        {minYear !== undefined && maxYear !== undefined && minYear < maxYear && yearRange.length === 2 && (
+          <>
+            <Separator />
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm">Year Published</Label>
+                <span className="text-xs text-muted-foreground">
+                  {yearRange[0]} – {yearRange[1]}
+                </span>
+              </div>
+              <Slider
+                min={minYear}
+                max={maxYear}
+                step={1}
+                minStepsBetweenThumbs={0}
+                value={yearRange}
+                onValueChange={setYearRange}
+                onValueCommit={commitYearRange}
+              />
+            </div>
+          </>
+        )}
+
+        {languages.length > 0 && (
+          <>
+            <Separator />
+            <div className="space-y-2">
+              <Label className="text-sm">Language</Label>
+              {renderValues("languages", languages)}
+            </div>
+          </>
+        )}
+
+        {publishers.length > 0 && (
+          <>
+            <Separator />
+            <div className="space-y-2">
+              <Label className="text-sm">Publisher</Label>
+              {renderValues("publishers", publishers, showAllPublishers ? undefined : COLLAPSED_VALUES)}
+              {publishers.length > COLLAPSED_VALUES && (
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="h-auto p-0"
+                  onClick={() => setShowAllPublishers(!showAllPublishers)}
+                >
+                  {showAllPublishers ? "Show fewer" : `Show all ${publishers.length}`}
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CatalogFacets;
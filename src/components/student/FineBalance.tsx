@@ -0,0 +1,56 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Receipt } from "lucide-react";
+import { formatCurrency } from "@/lib/utils";
+
+interface Balance {
+  outstanding: number;
+  accruing: number;
+  block_threshold: number;
+  blocked: boolean;
+}
+
+const FineBalance = () => {
+  const [balance, setBalance] = useState<Balance | null>(null);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (user) {
+      fetchBalance(user.id);
+    }
+  }, [user]);
+
+  const fetchBalance = async (studentId: string) => {
+    const { data, error } = await supabase.rpc("get_fine_balance", { _student_id: studentId });
+    if (error) {
+      console.error("Error fetching fine balance:", error);
+      return;
+    }
+    setBalance(data?.[0] ?? null);
+  };
+
+  if (!balance || (balance.outstanding <= 0 && balance.accruing <= 0)) {
+    return null;
+  }
+
+  return (
+    <Alert variant={balance.blocked ? "destructive" : "default"} className="mb-6 animate-fade-in">
+      <Receipt className="h-4 w-4" />
+      <AlertTitle>Outstanding fines: {formatCurrency(balance.outstanding)}</AlertTitle>
+      <AlertDescription>
+        {balance.accruing > 0 && (
+          <span>
+            A further {formatCurrency(balance.accruing)} is accruing on overdue books until they are returned.{" "}
+          </span>
+        )}
+        {balance.blocked
+          ? `Borrowing is blocked until your balance is below ${formatCurrency(balance.block_threshold)}. Please pay at the library desk.`
+          : "Please pay at the library desk."}
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export default FineBalance;
@@ -1,26 +1,36 @@
 import { useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { BookOpen, Clock, CheckCircle, XCircle } from "lucide-react";
+import { BookOpen, Clock, XCircle, RefreshCw, Ban, SearchX, TimerOff, PackageCheck } from "lucide-react";
 import { toast } from "sonner";
-import { format } from "date-fns";
+import { addDays, format, isBefore, parseISO, startOfToday } from "date-fns";
+import { getErrorMessage } from "@/lib/libraryErrors";
+import { formatCurrency } from "@/lib/utils";
+import RequestTimeline from "@/components/RequestTimeline";
 
 interface BorrowRequest {
   id: string;
+  student_id: string;
   book_id: string;
   issue_date: string | null;
   due_date: string | null;
   return_date: string | null;
-  status: "pending" | "approved" | "rejected" | "returned";
+  ready_at: string | null;
+  status: "pending" | "approved" | "issued" | "rejected" | "cancelled" | "expired" | "returned" | "lost";
   remarks: string | null;
+  renewal_count: number;
   created_at: string;
   books: {
     title: string;
     author: string;
     photo_url?: string;
   };
+  loan_policies: {
+    max_renewals: number;
+  } | null;
 }
 
 interface MyBorrowingsProps {
@@ -30,6 +40,7 @@ interface MyBorrowingsProps {
 const MyBorrowings = ({ showActive = true }: MyBorrowingsProps) => {
   const [requests, setRequests] = useState<BorrowRequest[]>([]);
   const [loading, setLoading] = useState(true);
+  const [pickupDeadlineDays, setPickupDeadlineDays] = useState<number | null>(null);
   const { user } = useAuth();
 
   useEffect(() => {
@@ -38,6 +49,17 @@ const MyBorrowings = ({ showActive = true }: MyBorrowingsProps) => {
     }
   }, [user, showActive]);
 
+  useEffect(() => {
+    if (showActive) {
+      fetchPickupDeadline();
+    }
+  }, [showActive]);
+
+  const fetchPickupDeadline = async () => {
+    const { data } = await supabase.from("library_settings").select("pickup_deadline_days").single();
+    setPickupDeadlineDays(data?.pickup_deadline_days ?? null);
+  };
+
   const fetchRequests = async () => {
     if (!user) return;
 
@@ -46,15 +68,16 @@ const MyBorrowings = ({ showActive = true }: MyBorrowingsProps) => {
         .from("borrow_requests")
         .select(`
           *,
-          books (title, author, photo_url)
+          books (title, author, photo_url),
+          loan_policies (max_renewals)
         `)
         .eq("student_id", user.id);
       
       // Filter based on showActive prop
       if (showActive) {
-        query = query.in("status", ["pending", "approved"]);
+        query = query.in("status", ["pending", "approved", "issued"]);
       } else {
-        query = query.in("status", ["rejected", "returned"]);
+        query = query.in("status", ["rejected", "cancelled", "expired", "returned", "lost"]);
       }
       
       const { data, error } = await query.order("created_at", { ascending: false });
@@ -71,9 +94,13 @@ const MyBorrowings = ({ showActive = true }: MyBorrowingsProps) => {
   const getStatusBadge = (status: string) => {
     const config: Record<string, { label: string; icon: any; variant: "default" | "secondary" | "destructive" | "outline" }> = {
       pending: { label: "Pending Review", icon: Clock, variant: "outline" },
-      approved: { label: "Approved", icon: CheckCircle, variant: "default" },
+      approved: { label: "Ready for Pickup", icon: PackageCheck, variant: "default" },
+      issued: { label: "Issued", icon: BookOpen, variant: "default" },
       rejected: { label: "Rejected", icon: XCircle, variant: "destructive" },
+      cancelled: { label: "Cancelled", icon: Ban, variant: "outline" },
+      expired: { label: "Expired", icon: TimerOff, variant: "outline" },
       returned: { label: "Returned", icon: BookOpen, variant: "secondary" },
+      lost: { label: "Lost", icon: SearchX, variant: "destructive" },
     };
     const { label, icon: Icon, variant } = config[status] || config.pending;
     return (
@@ -84,9 +111,55 @@ const MyBorrowings = ({ showActive = true }: MyBorrowingsProps) => {
     );
   };
 
+  // Due dates are calendar days: a loan is overdue from the day after, as renew_loan sees it
   const isOverdue = (dueDate: string | null) => {
     if (!dueDate) return false;
-    return new Date(dueDate) < new Date();
+    return isBefore(parseISO(dueDate), startOfToday());
+  };
+
+  const isOnLoan = (status: BorrowRequest["status"]) => status === "issued";
+
+  const cancelRequest = async (request: BorrowRequest) => {
+    if (!confirm(`Cancel your request for "${request.books.title}"?`)) return;
+
+    try {
+      const { error } = await supabase.rpc("cancel_borrow_request", { _request_id: request.id });
+      if (error) throw error;
+      toast.success("Request cancelled");
+      fetchRequests();
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+      fetchRequests();
+    }
+  };
+
+  const reportLost = async (request: BorrowRequest) => {
+    const { data: cost } = await supabase.rpc("get_replacement_cost", { _book_id: request.book_id });
+    const charge = cost ? ` You will be charged ${formatCurrency(cost)} for a replacement.` : "";
+    if (!confirm(`Report "${request.books.title}" as lost?${charge}`)) return;
+
+    try {
+      const { data: charged, error } = await supabase.rpc("report_loan_lost", { _request_id: request.id });
+      if (error) throw error;
+      toast.success(
+        charged > 0 ? `Reported lost, ${formatCurrency(charged)} added to your fines` : "Reported lost"
+      );
+      fetchRequests();
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+      fetchRequests();
+    }
+  };
+
+  const renewLoan = async (request: BorrowRequest) => {
+    try {
+      const { data: newDueDate, error } = await supabase.rpc("renew_loan", { _request_id: request.id });
+      if (error) throw error;
+      toast.success(`Renewed "${request.books.title}" until ${format(new Date(newDueDate), "PP")}`);
+      fetchRequests();
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    }
   };
 
   if (loading) {
@@ -148,9 +221,9 @@ const MyBorrowings = ({ showActive = true }: MyBorrowingsProps) => {
                 {request.due_date && (
                   <div className="transition-all duration-300 hover:text-primary hover:scale-110 hover:-translate-y-1 p-2 rounded hover:bg-primary/5">
                     <p className="text-muted-foreground text-xs sm:text-sm">Due Date</p>
-                    <p className={`font-medium text-sm sm:text-base transition-all ${isOverdue(request.due_date) && request.status === "approved" ? "text-destructive animate-pulse scale-110" : ""}`}>
+                    <p className={`font-medium text-sm sm:text-base transition-all ${isOverdue(request.due_date) && isOnLoan(request.status) ? "text-destructive animate-pulse scale-110" : ""}`}>
                       {format(new Date(request.due_date), "PP")}
-                      {isOverdue(request.due_date) && request.status === "approved" && " (Overdue)"}
+                      {isOverdue(request.due_date) && isOnLoan(request.status) && " (Overdue)"}
                     </p>
                   </div>
                 )}
@@ -169,14 +242,59 @@ const MyBorrowings = ({ showActive = true }: MyBorrowingsProps) => {
                 </div>
               )}
 
+              {isOnLoan(request.status) && showActive && (
+                <div className="mt-4 flex items-center justify-between gap-4 flex-wrap">
+                  <p className="text-xs sm:text-sm text-muted-foreground">
+                    {request.loan_policies &&
+                      `Renewed ${request.renewal_count} of ${request.loan_policies.max_renewals} times`}
+                  </p>
+                  <div className="flex gap-2">
+                    <Button variant="ghost" size="sm" className="text-destructive" onClick={() => reportLost(request)}>
+                      <SearchX className="h-3 w-3 mr-1" />
+                      Report Lost
+                    </Button>
+                    {request.loan_policies && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={isOverdue(request.due_date) || request.renewal_count >= request.loan_policies.max_renewals}
+                        onClick={() => renewLoan(request)}
+                      >
+                        <RefreshCw className="h-3 w-3 mr-1" />
+                        Renew
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {request.status === "approved" && showActive && (
+                <div className="mt-4 p-4 bg-primary/5 border border-primary/20 rounded-md">
+                  <p className="text-xs sm:text-sm text-primary flex items-center gap-2">
+                    <PackageCheck className="h-4 w-4" />
+                    Your book is waiting on the pickup shelf at the library desk
+                    {request.ready_at && pickupDeadlineDays &&
+                      ` — collect it by ${format(addDays(new Date(request.ready_at), pickupDeadlineDays), "PP")}`}
+                  </p>
+                </div>
+              )}
+
               {request.status === "pending" && showActive && (
-                <div className="mt-4 p-4 bg-primary/5 border border-primary/20 rounded-md animate-bounce-in hover:bg-primary/10 transition-all duration-300">
+                <div className="mt-4 p-4 bg-primary/5 border border-primary/20 rounded-md animate-bounce-in hover:bg-primary/10 transition-all duration-300 flex items-center justify-between gap-4 flex-wrap">
                   <p className="text-xs sm:text-sm text-primary flex items-center gap-2">
                     <Clock className="h-4 w-4 animate-spin drop-shadow-lg" />
                     Your request is being reviewed by the library admin
                   </p>
+                  <Button variant="outline" size="sm" onClick={() => cancelRequest(request)}>
+                    <Ban className="h-3 w-3 mr-1" />
+                    Cancel Request
+                  </Button>
                 </div>
               )}
+
+              <div className="mt-4">
+                <RequestTimeline requestId={request.id} studentId={request.student_id} />
+              </div>
             </CardContent>
           </Card>
         ))}
@@ -194,7 +312,7 @@ const MyBorrowings = ({ showActive = true }: MyBorrowingsProps) => {
             <p className="text-sm text-muted-foreground text-center mt-2 max-w-md px-4 animate-fade-in" style={{ animationDelay: "0.2s" }}>
               {showActive 
                 ? "Browse the catalog to find books you'd like to borrow" 
-                : "Your completed and rejected requests will appear here"}
+                : "Your returned, rejected and cancelled requests will appear here"}
             </p>
           </CardContent>
         </Card>
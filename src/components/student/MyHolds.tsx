@@ -0,0 +1,144 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { BookOpen, Hourglass, PackageCheck, X } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { getErrorMessage } from "@/lib/libraryErrors";
+
+interface Hold {
+  id: string;
+  book_id: string;
+  status: "waiting" | "ready" | "fulfilled" | "expired" | "cancelled";
+  queue_position: number;
+  ready_at: string | null;
+  expires_at: string | null;
+  created_at: string;
+  book?: {
+    title: string;
+    author: string;
+    photo_url: string | null;
+  };
+}
+
+const MyHolds = () => {
+  const [holds, setHolds] = useState<Hold[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (user) {
+      fetchHolds();
+    }
+  }, [user]);
+
+  const fetchHolds = async () => {
+    try {
+      const { data, error } = await supabase.rpc("get_my_holds");
+      if (error) throw error;
+
+      const bookIds = (data || []).map((hold) => hold.book_id);
+      const { data: books, error: booksError } = bookIds.length
+        ? await supabase.from("books").select("id, title, author, photo_url").in("id", bookIds)
+        : { data: [], error: null };
+
+      if (booksError) throw booksError;
+      setHolds(
+        (data || []).map((hold) => ({
+          ...hold,
+          book: books?.find((book) => book.id === hold.book_id),
+        }))
+      );
+    } catch (error) {
+      toast.error("Error loading holds: " + getErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const cancelHold = async (hold: Hold) => {
+    if (!confirm(`Cancel your hold on "${hold.book?.title}"?`)) return;
+
+    try {
+      const { error } = await supabase.rpc("cancel_hold", { _hold_id: hold.id });
+      if (error) throw error;
+      toast.success("Hold cancelled");
+      fetchHolds();
+    } catch (error) {
+      toast.error("Error cancelling hold: " + getErrorMessage(error));
+    }
+  };
+
+  if (loading || holds.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="animate-fade-in">
+        <h2 className="text-2xl font-bold">My Holds</h2>
+        <p className="text-muted-foreground">Books you are queued for</p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {holds.map((hold) => (
+          <Card key={hold.id} className="animate-fade-up">
+            <CardHeader>
+              <div className="flex items-start justify-between gap-4">
+                <div className="flex gap-4 flex-1 min-w-0">
+                  {hold.book?.photo_url ? (
+                    <img
+                      src={hold.book.photo_url}
+                      alt={hold.book.title}
+                      className="w-12 h-16 object-cover rounded"
+                    />
+                  ) : (
+                    <div className="w-12 h-16 bg-muted rounded flex items-center justify-center">
+                      <BookOpen className="h-6 w-6 text-muted-foreground" />
+                    </div>
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <CardTitle className="text-lg break-words">{hold.book?.title}</CardTitle>
+                    <CardDescription className="mt-1 break-words">by {hold.book?.author}</CardDescription>
+                  </div>
+                </div>
+                {hold.status === "ready" ? (
+                  <Badge className="flex items-center gap-1">
+                    <PackageCheck className="h-3 w-3" />
+                    Ready for Pickup
+                  </Badge>
+                ) : (
+                  <Badge variant="outline" className="flex items-center gap-1">
+                    <Hourglass className="h-3 w-3" />
+                    #{hold.queue_position} in queue
+                  </Badge>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {hold.status === "ready" && hold.expires_at ? (
+                <p className="text-sm text-primary">
+                  A copy is set aside for you until {format(new Date(hold.expires_at), "PPp")}. Request to borrow it
+                  from the catalog before then.
+                </p>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  Placed on {format(new Date(hold.created_at), "PP")}
+                </p>
+              )}
+              <Button variant="outline" size="sm" onClick={() => cancelHold(hold)}>
+                <X className="h-3 w-3 mr-1" />
+                Cancel Hold
+              </Button>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default MyHolds;
@@ -0,0 +1,70 @@
+import * as React from "react";
+import { useSearchParams } from "react-router-dom";
+import { BookSearchFilters, BookSearchSort } from "@/lib/bookSearch";
+
+// Everything that decides which catalog page is shown, so a search can be
+// linked to and the back button steps through it
+export interface CatalogSearchState {
+  query: string;
+  // Top-level category tab and sub-category button, "all" for none
+  category: string;
+  subcategory: string;
+  filters: BookSearchFilters;
+  sort: BookSearchSort;
+  page: number;
+}
+
+const SORTS: BookSearchSort[] = ["relevance", "title", "newest", "most_borrowed"];
+
+const readYear = (value: string | null) => (value && /^\d{1,4}$/.test(value) ? Number(value) : null);
+
+const readCatalogSearch = (params: URLSearchParams): CatalogSearchState => {
+  const sort = params.get("sort") as BookSearchSort;
+  const page = Number(params.get("page"));
+
+  return {
+    query: params.get("q") ?? "",
+    category: params.get("category") || "all",
+    subcategory: params.get("sub") || "all",
+    filters: {
+      publishers: params.getAll("publisher"),
+      languages: params.getAll("language"),
+      yearFrom: readYear(params.get("from")),
+      yearTo: readYear(params.get("to")),
+      availableOnly: params.get("available") === "1",
+    },
+    sort: SORTS.includes(sort) ? sort : "relevance",
+    page: Number.isInteger(page) && page > 1 ? page : 1,
+  };
+};
+
+// Defaults are left out to keep shared links short
+const writeCatalogSearch = ({ query, category, subcategory, filters, sort, page }: CatalogSearchState) => {
+  const params = new URLSearchParams();
+  if (query.trim()) params.set("q", query);
+  if (category !== "all") params.set("category", category);
+  if (subcategory !== "all") params.set("sub", subcategory);
+  filters.publishers.forEach((publisher) => params.append("publisher", publisher));
+  filters.languages.forEach((language) => params.append("language", language));
+  if (filters.yearFrom !== null) params.set("from", String(filters.yearFrom));
+  if (filters.yearTo !== null) params.set("to", String(filters.yearTo));
+  if (filters.availableOnly) params.set("available", "1");
+  if (sort !== "relevance") params.set("sort", sort);
+  if (page > 1) params.set("page", String(page));
+  return params;
+};
+
+export function useCatalogSearchParams() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const state = React.useMemo(() => readCatalogSearch(searchParams), [searchParams]);
+
+  // Pass replace for changes that shouldn't get their own history entry, like typing
+  const updateState = React.useCallback(
+    (changes: Partial<CatalogSearchState>, options?: { replace?: boolean }) => {
+      setSearchParams((current) => writeCatalogSearch({ ...readCatalogSearch(current), ...changes }), options);
+    },
+    [setSearchParams]
+  );
+
+  return [state, updateState] as const;
+}
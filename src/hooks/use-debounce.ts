@@ -0,0 +1,13 @@
+import * as React from "react";
+
+// The value once it has stopped changing for `delay` ms, e.g. a search box
+export function useDebounce<T>(value: T, delay = 300) {
+  const [debounced, setDebounced] = React.useState(value);
+
+  React.useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+
+  return debounced;
+}
@@ -14,17 +14,95 @@ export type Database = {
   }
   public: {
     Tables: {
+      author_aliases: {
+        Row: {
+          alias: string
+          alias_key: string | null
+          author: string
+          created_at: string
+          id: string
+        }
+        Insert: {
+          alias: string
+          alias_key?: never
+          author: string
+          created_at?: string
+          id?: string
+        }
+        Update: {
+          alias?: string
+          alias_key?: never
+          author?: string
+          created_at?: string
+          id?: string
+        }
+        Relationships: []
+      }
+      book_copies: {
+        Row: {
+          accession_number: string
+          acquired_on: string | null
+          barcode: string
+          book_id: string
+          condition: Database["public"]["Enums"]["copy_condition"]
+          created_at: string
+          id: string
+          notes: string | null
+          retired_at: string | null
+          status: Database["public"]["Enums"]["copy_status"]
+          updated_at: string
+        }
+        Insert: {
+          accession_number?: string
+          acquired_on?: string | null
+          barcode?: string
+          book_id: string
+          condition?: Database["public"]["Enums"]["copy_condition"]
+          created_at?: string
+          id?: string
+          notes?: string | null
+          retired_at?: string | null
+          status?: Database["public"]["Enums"]["copy_status"]
+          updated_at?: string
+        }
+        Update: {
+          accession_number?: string
+          acquired_on?: string | null
+          barcode?: string
+          book_id?: string
+          condition?: Database["public"]["Enums"]["copy_condition"]
+          created_at?: string
+          id?: string
+          notes?: string | null
+          retired_at?: string | null
+          status?: Database["public"]["Enums"]["copy_status"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "book_copies_book_id_fkey"
+            columns: ["book_id"]
+            isOneToOne: false
+            referencedRelation: "books"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       books: {
         Row: {
           author: string
+          author_key: string | null
           available_count: number
-          category: string
+          category_id: string
           created_at: string
           description: string | null
           id: string
           isbn: string | null
+          language: string | null
           photo_url: string | null
           publisher: string | null
+          replacement_cost: number | null
+          search_vector: unknown
           title: string
           total_count: number
           updated_at: string
@@ -32,14 +110,18 @@ export type Database = {
         }
         Insert: {
           author: string
+          author_key?: never
           available_count?: number
-          category: string
+          category_id: string
           created_at?: string
           description?: string | null
           id?: string
           isbn?: string | null
+          language?: string | null
           photo_url?: string | null
           publisher?: string | null
+          replacement_cost?: number | null
+          search_vector?: never
           title: string
           total_count?: number
           updated_at?: string
@@ -47,51 +129,116 @@ export type Database = {
         }
         Update: {
           author?: string
+          author_key?: never
           available_count?: number
-          category?: string
+          category_id?: string
           created_at?: string
           description?: string | null
           id?: string
           isbn?: string | null
+          language?: string | null
           photo_url?: string | null
           publisher?: string | null
+          replacement_cost?: number | null
+          search_vector?: never
           title?: string
           total_count?: number
           updated_at?: string
           year_published?: number | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "books_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      borrow_request_events: {
+        Row: {
+          actor_id: string | null
+          created_at: string
+          from_status: Database["public"]["Enums"]["borrow_status"] | null
+          id: string
+          request_id: string
+          to_status: Database["public"]["Enums"]["borrow_status"]
+        }
+        Insert: {
+          actor_id?: string | null
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["borrow_status"] | null
+          id?: string
+          request_id: string
+          to_status: Database["public"]["Enums"]["borrow_status"]
+        }
+        Update: {
+          actor_id?: string | null
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["borrow_status"] | null
+          id?: string
+          request_id?: string
+          to_status?: Database["public"]["Enums"]["borrow_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "borrow_request_events_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "borrow_requests"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       borrow_requests: {
         Row: {
           book_id: string
+          copy_id: string | null
           created_at: string
           due_date: string | null
           id: string
           issue_date: string | null
+          issued_at: string | null
+          last_renewed_at: string | null
+          policy_id: string | null
+          ready_at: string | null
           remarks: string | null
+          renewal_count: number
           return_date: string | null
           status: Database["public"]["Enums"]["borrow_status"]
           student_id: string
         }
         Insert: {
           book_id: string
+          copy_id?: string | null
           created_at?: string
           due_date?: string | null
           id?: string
           issue_date?: string | null
+          issued_at?: string | null
+          last_renewed_at?: string | null
+          policy_id?: string | null
+          ready_at?: string | null
           remarks?: string | null
+          renewal_count?: number
           return_date?: string | null
           status?: Database["public"]["Enums"]["borrow_status"]
           student_id: string
         }
         Update: {
           book_id?: string
+          copy_id?: string | null
           created_at?: string
           due_date?: string | null
           id?: string
           issue_date?: string | null
+          issued_at?: string | null
+          last_renewed_at?: string | null
+          policy_id?: string | null
+          ready_at?: string | null
           remarks?: string | null
+          renewal_count?: number
           return_date?: string | null
           status?: Database["public"]["Enums"]["borrow_status"]
           student_id?: string
@@ -104,6 +251,20 @@ export type Database = {
             referencedRelation: "books"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "borrow_requests_copy_id_fkey"
+            columns: ["copy_id"]
+            isOneToOne: false
+            referencedRelation: "book_copies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "borrow_requests_policy_id_fkey"
+            columns: ["policy_id"]
+            isOneToOne: false
+            referencedRelation: "loan_policies"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "borrow_requests_student_id_fkey"
             columns: ["student_id"]
@@ -113,6 +274,296 @@ export type Database = {
           },
         ]
       }
+      categories: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          parent_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          parent_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          parent_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "categories_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fines: {
+        Row: {
+          amount: number
+          borrow_request_id: string | null
+          created_at: string
+          entry_type: Database["public"]["Enums"]["fine_entry_type"]
+          id: string
+          kind: Database["public"]["Enums"]["fine_kind"] | null
+          reason: string | null
+          recorded_by: string | null
+          student_id: string
+        }
+        Insert: {
+          amount: number
+          borrow_request_id?: string | null
+          created_at?: string
+          entry_type: Database["public"]["Enums"]["fine_entry_type"]
+          id?: string
+          kind?: Database["public"]["Enums"]["fine_kind"] | null
+          reason?: string | null
+          recorded_by?: string | null
+          student_id: string
+        }
+        Update: {
+          amount?: number
+          borrow_request_id?: string | null
+          created_at?: string
+          entry_type?: Database["public"]["Enums"]["fine_entry_type"]
+          id?: string
+          kind?: Database["public"]["Enums"]["fine_kind"] | null
+          reason?: string | null
+          recorded_by?: string | null
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fines_borrow_request_id_fkey"
+            columns: ["borrow_request_id"]
+            isOneToOne: false
+            referencedRelation: "borrow_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fines_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      holds: {
+        Row: {
+          book_id: string
+          copy_id: string | null
+          created_at: string
+          expires_at: string | null
+          id: string
+          ready_at: string | null
+          status: Database["public"]["Enums"]["hold_status"]
+          student_id: string
+          updated_at: string
+        }
+        Insert: {
+          book_id: string
+          copy_id?: string | null
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          ready_at?: string | null
+          status?: Database["public"]["Enums"]["hold_status"]
+          student_id: string
+          updated_at?: string
+        }
+        Update: {
+          book_id?: string
+          copy_id?: string | null
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          ready_at?: string | null
+          status?: Database["public"]["Enums"]["hold_status"]
+          student_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "holds_book_id_fkey"
+            columns: ["book_id"]
+            isOneToOne: false
+            referencedRelation: "books"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "holds_copy_id_fkey"
+            columns: ["copy_id"]
+            isOneToOne: false
+            referencedRelation: "book_copies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "holds_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      library_closures: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          end_date: string
+          id: string
+          reason: string
+          start_date: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          end_date: string
+          id?: string
+          reason: string
+          start_date: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          end_date?: string
+          id?: string
+          reason?: string
+          start_date?: string
+        }
+        Relationships: []
+      }
+      library_settings: {
+        Row: {
+          closed_weekdays: number[]
+          default_replacement_cost: number
+          fine_block_threshold: number
+          hold_pickup_days: number
+          id: boolean
+          pending_expiry_days: number
+          pickup_deadline_days: number
+          updated_at: string
+        }
+        Insert: {
+          closed_weekdays?: number[]
+          default_replacement_cost?: number
+          fine_block_threshold?: number
+          hold_pickup_days?: number
+          id?: boolean
+          pending_expiry_days?: number
+          pickup_deadline_days?: number
+          updated_at?: string
+        }
+        Update: {
+          closed_weekdays?: number[]
+          default_replacement_cost?: number
+          fine_block_threshold?: number
+          hold_pickup_days?: number
+          id?: boolean
+          pending_expiry_days?: number
+          pickup_deadline_days?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      loan_policies: {
+        Row: {
+          category_id: string | null
+          created_at: string
+          fine_per_day: number
+          id: string
+          loan_period_days: number
+          max_items: number
+          max_renewals: number
+          role: Database["public"]["Enums"]["app_role"]
+          updated_at: string
+        }
+        Insert: {
+          category_id?: string | null
+          created_at?: string
+          fine_per_day?: number
+          id?: string
+          loan_period_days?: number
+          max_items?: number
+          max_renewals?: number
+          role: Database["public"]["Enums"]["app_role"]
+          updated_at?: string
+        }
+        Update: {
+          category_id?: string | null
+          created_at?: string
+          fine_per_day?: number
+          id?: string
+          loan_period_days?: number
+          max_items?: number
+          max_renewals?: number
+          role?: Database["public"]["Enums"]["app_role"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "loan_policies_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          body: string
+          borrow_request_id: string | null
+          created_at: string
+          id: string
+          read_at: string | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          body: string
+          borrow_request_id?: string | null
+          created_at?: string
+          id?: string
+          read_at?: string | null
+          title: string
+          user_id: string
+        }
+        Update: {
+          body?: string
+          borrow_request_id?: string | null
+          created_at?: string
+          id?: string
+          read_at?: string | null
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_borrow_request_id_fkey"
+            columns: ["borrow_request_id"]
+            isOneToOne: false
+            referencedRelation: "borrow_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           borrow_limit: number | null
@@ -175,6 +626,284 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      add_book: {
+        Args: {
+          _author: string
+          _category_id: string
+          _copies?: number
+          _description?: string
+          _isbn?: string
+          _language?: string
+          _photo_url?: string
+          _publisher?: string
+          _replacement_cost?: number
+          _title: string
+          _year_published?: number
+        }
+        Returns: string
+      }
+      approve_borrow_request: {
+        Args: { _remarks?: string; _request_id: string }
+        Returns: {
+          book_id: string
+          copy_id: string | null
+          created_at: string
+          due_date: string | null
+          id: string
+          issue_date: string | null
+          issued_at: string | null
+          last_renewed_at: string | null
+          policy_id: string | null
+          ready_at: string | null
+          remarks: string | null
+          renewal_count: number
+          return_date: string | null
+          status: Database["public"]["Enums"]["borrow_status"]
+          student_id: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "borrow_requests"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      book_matches_term: {
+        Args: {
+          _book: Database["public"]["Tables"]["books"]["Row"]
+          _category_name: string
+          _parent_category_name: string
+          _term: Json
+        }
+        Returns: boolean
+      }
+      bulk_update_borrow_requests: {
+        Args: {
+          _remarks?: string
+          _request_ids: string[]
+          _status: Database["public"]["Enums"]["borrow_status"]
+        }
+        Returns: {
+          error_code: string
+          error_detail: string
+          request_id: string
+          success: boolean
+        }[]
+      }
+      cancel_borrow_request: {
+        Args: { _request_id: string }
+        Returns: undefined
+      }
+      cancel_hold: { Args: { _hold_id: string }; Returns: undefined }
+      count_open_days: {
+        Args: { _from: string; _to: string }
+        Returns: number
+      }
+      desk_checkin: {
+        Args: { _barcode: string }
+        Returns: {
+          accession_number: string
+          book_title: string
+          due_date: string
+          fine: number
+          request_id: string
+          student_name: string
+        }[]
+      }
+      desk_checkout: {
+        Args: { _barcode: string; _student_id: string }
+        Returns: {
+          accession_number: string
+          book_title: string
+          due_date: string
+          request_id: string
+        }[]
+      }
+      expire_ready_holds: { Args: never; Returns: number }
+      expire_stale_borrow_requests: {
+        Args: never
+        Returns: {
+          expired_approvals: number
+          expired_holds: number
+          expired_pending: number
+        }[]
+      }
+      export_catalog: {
+        Args: {
+          _available_only?: boolean
+          _category_id?: string
+          _languages?: string[]
+          _publishers?: string[]
+          _query?: string
+          _terms?: Json
+          _year_from?: number
+          _year_to?: number
+        }
+        Returns: {
+          author: string
+          available_count: number
+          category: string
+          copies: Json
+          created_at: string
+          description: string | null
+          id: string
+          isbn: string | null
+          language: string | null
+          publisher: string | null
+          replacement_cost: number | null
+          title: string
+          total_count: number
+          year_published: number | null
+        }[]
+      }
+      find_books_by_isbn: {
+        Args: { _isbns: string[] }
+        Returns: {
+          book_id: string
+          isbn: string
+          title: string
+        }[]
+      }
+      get_accruing_fine: { Args: { _student_id: string }; Returns: number }
+      get_book_activity: {
+        Args: { _book_id: string }
+        Returns: {
+          distinct_borrowers: number
+          holds_ready: number
+          holds_waiting: number
+          last_borrowed_at: string | null
+          next_due_date: string | null
+          on_loan: number
+          times_borrowed: number
+        }[]
+      }
+      get_borrow_eligibility: {
+        Args: { _student_id: string }
+        Returns: {
+          borrow_limit: number
+          eligible: boolean
+          used: number
+        }[]
+      }
+      get_catalog_stats: {
+        Args: never
+        Returns: {
+          available_copies: number
+          total_books: number
+        }[]
+      }
+      get_desk_patron: {
+        Args: { _roll_no: string }
+        Returns: {
+          borrow_limit: number
+          email: string
+          fines_blocked: boolean
+          loans: number
+          name: string
+          outstanding: number
+          roll_no: string
+          student_id: string
+        }[]
+      }
+      get_fine_balance: {
+        Args: { _student_id: string }
+        Returns: {
+          accruing: number
+          block_threshold: number
+          blocked: boolean
+          charged: number
+          outstanding: number
+          paid: number
+          waived: number
+        }[]
+      }
+      get_fine_balances: {
+        Args: never
+        Returns: {
+          accruing: number
+          email: string
+          name: string
+          outstanding: number
+          roll_no: string
+          student_id: string
+        }[]
+      }
+      get_loan_policy: {
+        Args: { _book_id: string; _policy_id: string; _student_id: string }
+        Returns: {
+          category_id: string | null
+          created_at: string
+          fine_per_day: number
+          id: string
+          loan_period_days: number
+          max_items: number
+          max_renewals: number
+          role: Database["public"]["Enums"]["app_role"]
+          updated_at: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "loan_policies"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      get_loan_terms: {
+        Args: { _issue_date?: string; _request_id: string }
+        Returns: {
+          due_date: string
+          fine_per_day: number
+          issue_date: string
+          loan_period_days: number
+          max_items: number
+          max_renewals: number
+          policy_category: string
+          policy_id: string
+        }[]
+      }
+      get_my_holds: {
+        Args: never
+        Returns: {
+          book_id: string
+          created_at: string
+          expires_at: string
+          id: string
+          queue_position: number
+          ready_at: string
+          status: Database["public"]["Enums"]["hold_status"]
+        }[]
+      }
+      get_related_books: {
+        Args: { _book_id: string; _limit?: number }
+        Returns: {
+          author: string
+          available_count: number
+          id: string
+          photo_url: string | null
+          relation: string
+          title: string
+          total_count: number
+          year_published: number | null
+        }[]
+      }
+      get_replacement_cost: { Args: { _book_id: string }; Returns: number }
+      get_search_facets: {
+        Args: {
+          _available_only?: boolean
+          _category_id?: string
+          _languages?: string[]
+          _publishers?: string[]
+          _query?: string
+          _terms?: Json
+          _year_from?: number
+          _year_to?: number
+        }
+        Returns: {
+          book_count: number
+          facet: string
+          value: string
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -182,10 +911,187 @@ export type Database = {
         }
         Returns: boolean
       }
+      import_books: {
+        Args: { _books: Json }
+        Returns: {
+          book_id: string | null
+          error: string | null
+          row_number: number
+        }[]
+      }
+      is_library_open: { Args: { _date: string }; Returns: boolean }
+      is_valid_borrow_transition: {
+        Args: {
+          _from: Database["public"]["Enums"]["borrow_status"]
+          _to: Database["public"]["Enums"]["borrow_status"]
+        }
+        Returns: boolean
+      }
+      issue_borrow_request: {
+        Args: { _due_date?: string; _request_id: string }
+        Returns: {
+          book_id: string
+          copy_id: string | null
+          created_at: string
+          due_date: string | null
+          id: string
+          issue_date: string | null
+          issued_at: string | null
+          last_renewed_at: string | null
+          policy_id: string | null
+          ready_at: string | null
+          remarks: string | null
+          renewal_count: number
+          return_date: string | null
+          status: Database["public"]["Enums"]["borrow_status"]
+          student_id: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "borrow_requests"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      lock_available_copy: {
+        Args: { _book_id: string; _copy_id: string }
+        Returns: undefined
+      }
+      mark_loan_found: { Args: { _request_id: string }; Returns: number }
+      match_books: {
+        Args: {
+          _available_only?: boolean
+          _category_id?: string
+          _languages?: string[]
+          _publishers?: string[]
+          _query?: string
+          _terms?: Json
+          _year_from?: number
+          _year_to?: number
+        }
+        Returns: {
+          book_id: string
+          rank: number
+        }[]
+      }
+      name_key: { Args: { _name: string }; Returns: string }
+      next_open_day: { Args: { _date: string }; Returns: string }
+      normalize_isbn: { Args: { _isbn: string }; Returns: string }
+      place_hold: { Args: { _book_id: string }; Returns: string }
+      promote_next_hold: { Args: { _book_id: string }; Returns: number }
+      refresh_book_counts: { Args: { _book_id: string }; Returns: undefined }
+      release_hold: {
+        Args: {
+          _hold_id: string
+          _status: Database["public"]["Enums"]["hold_status"]
+        }
+        Returns: undefined
+      }
+      renew_loan: { Args: { _request_id: string }; Returns: string }
+      report_loan_lost: {
+        Args: { _charge?: number; _request_id: string }
+        Returns: number
+      }
+      resolve_loan_policy: {
+        Args: { _book_id: string; _student_id: string }
+        Returns: {
+          category_id: string | null
+          created_at: string
+          fine_per_day: number
+          id: string
+          loan_period_days: number
+          max_items: number
+          max_renewals: number
+          role: Database["public"]["Enums"]["app_role"]
+          updated_at: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "loan_policies"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      return_loan_damaged: {
+        Args: { _charge?: number; _note?: string; _request_id: string }
+        Returns: number
+      }
+      search_authors: {
+        Args: { _limit?: number; _query: string }
+        Returns: {
+          author: string
+          book_count: number
+        }[]
+      }
+      search_books: {
+        Args: {
+          _available_only?: boolean
+          _category_id?: string
+          _languages?: string[]
+          _limit?: number
+          _offset?: number
+          _publishers?: string[]
+          _query?: string
+          _sort?: string
+          _terms?: Json
+          _year_from?: number
+          _year_to?: number
+        }
+        Returns: {
+          author: string
+          author_highlight: string
+          available_count: number
+          category_id: string
+          category_name: string
+          created_at: string
+          description: string
+          description_highlight: string
+          id: string
+          isbn: string
+          language: string
+          photo_url: string
+          publisher: string
+          rank: number
+          replacement_cost: number
+          title: string
+          title_highlight: string
+          total_count: number
+          total_results: number
+          year_published: number
+        }[]
+      }
+      suggest_search_terms: {
+        Args: { _limit?: number; _query: string }
+        Returns: {
+          kind: string
+          score: number
+          suggestion: string
+        }[]
+      }
+      to_prefix_tsquery: { Args: { _query: string }; Returns: unknown }
     }
     Enums: {
       app_role: "admin" | "student"
-      borrow_status: "pending" | "approved" | "rejected" | "returned"
+      borrow_status:
+        | "pending"
+        | "approved"
+        | "issued"
+        | "rejected"
+        | "cancelled"
+        | "expired"
+        | "returned"
+        | "lost"
+      copy_condition: "new" | "good" | "fair" | "poor" | "damaged"
+      copy_status:
+        | "available"
+        | "on_loan"
+        | "on_hold"
+        | "damaged"
+        | "lost"
+        | "retired"
+      fine_entry_type: "charge" | "payment" | "waiver"
+      fine_kind: "overdue" | "manual" | "replacement" | "damage"
+      hold_status: "waiting" | "ready" | "fulfilled" | "expired" | "cancelled"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -314,7 +1220,28 @@ export const Constants = {
   public: {
     Enums: {
       app_role: ["admin", "student"],
-      borrow_status: ["pending", "approved", "rejected", "returned"],
+      borrow_status: [
+        "pending",
+        "approved",
+        "issued",
+        "rejected",
+        "cancelled",
+        "expired",
+        "returned",
+        "lost",
+      ],
+      copy_condition: ["new", "good", "fair", "poor", "damaged"],
+      copy_status: [
+        "available",
+        "on_loan",
+        "on_hold",
+        "damaged",
+        "lost",
+        "retired",
+      ],
+      fine_entry_type: ["charge", "payment", "waiver"],
+      fine_kind: ["overdue", "manual", "replacement", "damage"],
+      hold_status: ["waiting", "ready", "fulfilled", "expired", "cancelled"],
     },
   },
 } as const
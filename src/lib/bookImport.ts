@@ -0,0 +1,274 @@
+import { supabase } from "@/integrations/supabase/client";
+import { bookSchema } from "@/lib/bookSchema";
+import { Category, getCategoryLabel } from "@/lib/categories";
+import { SheetRow } from "@/lib/spreadsheet";
+
+// Bulk import of a spreadsheet of books: map its columns to book fields,
+// validate each row against bookSchema, flag ISBNs that are already
+// catalogued or repeated in the file, then add the valid rows in batches.
+
+export type ImportField =
+  | "title"
+  | "author"
+  | "category"
+  | "description"
+  | "isbn"
+  | "publisher"
+  | "year_published"
+  | "language"
+  | "copies"
+  | "replacement_cost"
+  | "photo_url";
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required?: boolean; aliases: string[] }[] = [
+  { field: "title", label: "Title", required: true, aliases: ["title", "book title", "book name", "name"] },
+  { field: "author", label: "Author", required: true, aliases: ["author", "authors", "author name", "writer"] },
+  { field: "category", label: "Category", required: true, aliases: ["category", "subject", "genre", "section"] },
+  { field: "description", label: "Description", aliases: ["description", "summary", "about"] },
+  { field: "isbn", label: "ISBN / Book No", aliases: ["isbn", "isbn 13", "isbn13", "isbn 10", "isbn10", "book no", "book number"] },
+  { field: "publisher", label: "Publisher", aliases: ["publisher", "publication", "published by"] },
+  { field: "year_published", label: "Year Published", aliases: ["year published", "year", "publication year", "published"] },
+  { field: "language", label: "Language", aliases: ["language", "lang"] },
+  { field: "copies", label: "Copies", aliases: ["copies", "no of copies", "number of copies", "quantity", "qty"] },
+  { field: "replacement_cost", label: "Replacement Cost", aliases: ["replacement cost", "price", "cost", "mrp"] },
+  { field: "photo_url", label: "Cover Image URL", aliases: ["cover image url", "photo url", "cover url", "image url", "cover", "photo"] },
+];
+
+// Column of the file each field is read from, or null when it isn't imported
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export interface ImportBook {
+  title: string;
+  author: string;
+  category_id: string;
+  description: string | null;
+  isbn: string | null;
+  publisher: string | null;
+  year_published: number | null;
+  language: string | null;
+  replacement_cost: number | null;
+  photo_url: string | null;
+  copies: number;
+}
+
+export interface ImportRow {
+  // Where the row is in the file, see SheetRow
+  rowNumber: number;
+  cells: string[];
+  // Set when the row passed validation
+  book: ImportBook | null;
+  errors: string[];
+  // Where the same ISBN already appears, e.g. "row 12" or a catalog title
+  duplicateOf: string | null;
+}
+
+export const IMPORT_BATCH_SIZE = 100;
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+// Same rule as public.normalize_isbn
+export const normalizeIsbn = (isbn: string) => isbn.replace(/[^0-9Xx]/g, "").toUpperCase();
+
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const taken = new Set<number>();
+
+  return IMPORT_FIELDS.reduce((mapping, { field, aliases }) => {
+    const index = aliases
+      .map((alias) => normalized.findIndex((header, i) => header === alias && !taken.has(i)))
+      .find((i) => i !== -1);
+    if (index !== undefined) taken.add(index);
+    return { ...mapping, [field]: index ?? null };
+  }, {} as ColumnMapping);
+}
+
+// Categories are matched by name, or by "Parent › Child" (also with > or /)
+const buildCategoryLookup = (categories: Category[]) => {
+  const lookup = new Map<string, string>();
+  for (const category of categories) {
+    lookup.set(category.name.trim().toLowerCase(), category.id);
+    const label = getCategoryLabel(category.id, categories).toLowerCase();
+    for (const separator of [" › ", " > ", " / ", "/", ">"]) {
+      lookup.set(label.split(" › ").join(separator), category.id);
+    }
+  }
+  return lookup;
+};
+
+const parseWholeNumber = (value: string) => (/^\d+(\.0+)?$/.test(value) ? Math.round(Number(value)) : NaN);
+
+// "₹1,250.00" -> 1250; text without a number such as "TBD" or "free" -> NaN
+const parseAmount = (value: string) => (/\d/.test(value) ? Number(value.replace(/[^\d.-]/g, "")) : NaN);
+
+// Rows with an empty (or unmapped) category go into defaultCategoryId when one
+// is given. With defaultForUnknown, so do rows whose category matches none of
+// ours: MARC subject headings such as "Malayalam fiction" rarely name one.
+export function validateImportRows(
+  rows: SheetRow[],
+  mapping: ColumnMapping,
+  categories: Category[],
+  defaultCategoryId?: string,
+  defaultForUnknown = false
+): ImportRow[] {
+  const categoryLookup = buildCategoryLookup(categories);
+  const labels = Object.fromEntries(IMPORT_FIELDS.map(({ field, label }) => [field, label]));
+  const seenIsbns = new Map<string, number>();
+
+  return rows.map(({ number: rowNumber, cells }) => {
+    const read = (field: ImportField) => {
+      const column = mapping[field];
+      return column === null ? "" : (cells[column] ?? "").trim();
+    };
+    const errors: string[] = [];
+
+    const categoryName = read("category");
+    const matchedCategoryId = categoryName
+      ? categoryLookup.get(categoryName.toLowerCase().replace(/\s+/g, " "))
+      : undefined;
+    const categoryId =
+      matchedCategoryId ?? (!categoryName || defaultForUnknown ? defaultCategoryId || undefined : undefined);
+    if (categoryName && !categoryId) {
+      errors.push(
+        defaultForUnknown
+          ? `Category: "${categoryName}" matches no category. Choose a category for unmatched subjects`
+          : `Category: "${categoryName}" does not exist. Add it under Settings first`
+      );
+    }
+
+    const year = read("year_published");
+    const copies = read("copies");
+    const cost = read("replacement_cost");
+    if (year && Number.isNaN(parseWholeNumber(year))) errors.push(`Year Published: "${year}" is not a year`);
+    if (copies && Number.isNaN(parseWholeNumber(copies))) errors.push(`Copies: "${copies}" is not a whole number`);
+    if (cost && Number.isNaN(parseAmount(cost))) errors.push(`Replacement Cost: "${cost}" is not an amount`);
+
+    const result = bookSchema.safeParse({
+      title: read("title"),
+      author: read("author"),
+      category_id: categoryId ?? (categoryName ? "unknown" : ""),
+      description: read("description") || undefined,
+      isbn: read("isbn") || undefined,
+      publisher: read("publisher") || undefined,
+      year_published: year ? parseWholeNumber(year) : undefined,
+      language: read("language") || null,
+      initial_copies: copies ? parseWholeNumber(copies) : 1,
+      replacement_cost: cost ? parseAmount(cost) : null,
+      photo_url: read("photo_url"),
+    });
+
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        const field = String(issue.path[0]);
+        // Unparseable numbers were already reported above
+        if (issue.code === "invalid_type" && issue.received === "nan") continue;
+        const label = field === "category_id" ? labels.category : field === "initial_copies" ? labels.copies : labels[field];
+        errors.push(`${label ?? field}: ${issue.message}`);
+      }
+    }
+
+    const book =
+      result.success && errors.length === 0
+        ? {
+            title: result.data.title,
+            author: result.data.author,
+            category_id: result.data.category_id,
+            description: result.data.description ?? null,
+            isbn: result.data.isbn ?? null,
+            publisher: result.data.publisher ?? null,
+            year_published: result.data.year_published ?? null,
+            language: result.data.language,
+            replacement_cost: result.data.replacement_cost,
+            photo_url: result.data.photo_url || null,
+            copies: result.data.initial_copies ?? 1,
+          }
+        : null;
+
+    // Only rows that will be imported claim their ISBN for later rows
+    let duplicateOf: string | null = null;
+    const isbn = normalizeIsbn(read("isbn"));
+    if (isbn) {
+      const firstRow = seenIsbns.get(isbn);
+      if (firstRow !== undefined) {
+        duplicateOf = `row ${firstRow}`;
+      } else if (book) {
+        seenIsbns.set(isbn, rowNumber);
+      }
+    }
+
+    return { rowNumber, cells, book, errors, duplicateOf };
+  });
+}
+
+// Marks rows whose ISBN is already in the catalog
+export async function findCatalogDuplicates(rows: ImportRow[]): Promise<ImportRow[]> {
+  const isbns = [...new Set(rows.map((row) => row.book?.isbn).filter(Boolean).map((isbn) => normalizeIsbn(isbn!)))];
+  const existing = new Map<string, string>();
+
+  for (let i = 0; i < isbns.length; i += 500) {
+    const { data, error } = await supabase.rpc("find_books_by_isbn", { _isbns: isbns.slice(i, i + 500) });
+    if (error) throw error;
+    (data || []).forEach(({ isbn, title }) => existing.set(isbn, title));
+  }
+
+  return rows.map((row) => {
+    const title = row.book?.isbn ? existing.get(normalizeIsbn(row.book.isbn)) : undefined;
+    return title && !row.duplicateOf ? { ...row, duplicateOf: `"${title}" in the catalog` } : row;
+  });
+}
+
+export const isImportable = (row: ImportRow) => row.book !== null && row.duplicateOf === null;
+
+// Adds the rows batch by batch; returns the failure message for each row that didn't go in
+export async function importBooks(
+  rows: ImportRow[],
+  onProgress: (imported: number, processed: number) => void
+): Promise<Map<number, string>> {
+  const failures = new Map<number, string>();
+  let imported = 0;
+
+  for (let i = 0; i < rows.length; i += IMPORT_BATCH_SIZE) {
+    const batch = rows.slice(i, i + IMPORT_BATCH_SIZE);
+    const { data, error } = await supabase.rpc("import_books", {
+      _books: batch.map((row) => ({ row_number: row.rowNumber, ...row.book })),
+    });
+
+    if (error) {
+      batch.forEach((row) => failures.set(row.rowNumber, error.message));
+    } else {
+      for (const result of data || []) {
+        if (result.error) {
+          failures.set(result.row_number, result.error);
+        } else {
+          imported++;
+        }
+      }
+    }
+
+    onProgress(imported, Math.min(i + IMPORT_BATCH_SIZE, rows.length));
+  }
+
+  return failures;
+}
+
+// The rows that were not imported, with the original columns and the reasons
+export function buildErrorReport(headers: string[], rows: ImportRow[], failures: Map<number, string>): string[][] {
+  const problems = rows
+    .map((row) => {
+      const reasons = [
+        ...row.errors,
+        ...(row.duplicateOf ? [`Duplicate ISBN, same as ${row.duplicateOf}`] : []),
+        ...(failures.has(row.rowNumber) ? [failures.get(row.rowNumber)!] : []),
+      ];
+      return { row, reasons };
+    })
+    .filter(({ reasons }) => reasons.length > 0);
+
+  return [
+    ["Row", ...headers, "Problems"],
+    ...problems.map(({ row, reasons }) => [
+      String(row.rowNumber),
+      ...headers.map((_, column) => row.cells[column] ?? ""),
+      reasons.join("; "),
+    ]),
+  ];
+}
@@ -0,0 +1,18 @@
+import { z } from "zod";
+
+// A catalog entry as entered by a librarian, in the add/edit dialog or a bulk import
+export const bookSchema = z.object({
+  title: z.string().min(1, "Title is required").max(200),
+  author: z.string().min(1, "Author is required").max(200),
+  category_id: z.string().min(1, "Category is required"),
+  description: z.string().max(1000).optional(),
+  isbn: z.string().max(20).optional(),
+  publisher: z.string().max(200).optional(),
+  year_published: z.number().min(1000).max(9999).optional(),
+  language: z.string().trim().max(50).nullable(),
+  initial_copies: z.number().min(1, "Must have at least 1 copy").max(500).optional(),
+  replacement_cost: z.number().min(0, "Replacement cost cannot be negative").nullable(),
+  photo_url: z.string().url().optional().or(z.literal("")),
+});
+
+export type BookInput = z.infer<typeof bookSchema>;
@@ -0,0 +1,156 @@
+import { supabase } from "@/integrations/supabase/client";
+import { SearchTerm, toSearchTermArgs } from "@/lib/searchQuery";
+
+export const SEARCH_PAGE_SIZE = 24;
+
+export type BookSearchSort = "relevance" | "title" | "newest" | "most_borrowed";
+
+// Facet selections; empty lists and null years mean "any"
+export interface BookSearchFilters {
+  publishers: string[];
+  languages: string[];
+  yearFrom: number | null;
+  yearTo: number | null;
+  availableOnly: boolean;
+}
+
+export const EMPTY_FILTERS: BookSearchFilters = {
+  publishers: [],
+  languages: [],
+  yearFrom: null,
+  yearTo: null,
+  availableOnly: false,
+};
+
+export interface BookSearchParams {
+  query?: string;
+  // Fielded terms, phrases and exclusions from parseSearchQuery
+  terms?: SearchTerm[];
+  categoryId?: string | null;
+  filters?: BookSearchFilters;
+  sort?: BookSearchSort;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface BookSearchResult {
+  id: string;
+  title: string;
+  author: string;
+  category_id: string;
+  category_name: string;
+  description: string | null;
+  isbn: string | null;
+  photo_url: string | null;
+  publisher: string | null;
+  year_published: number | null;
+  language: string | null;
+  replacement_cost: number | null;
+  total_count: number;
+  available_count: number;
+  created_at: string;
+  rank: number;
+  // Matched words are wrapped in <mark> tags, see HighlightedText
+  title_highlight: string;
+  author_highlight: string;
+  description_highlight: string | null;
+}
+
+export interface BookSearchPage {
+  books: BookSearchResult[];
+  total: number;
+}
+
+// Arguments shared by public.search_books, get_search_facets and export_catalog
+export const toFilterArgs = ({ query, terms, categoryId, filters = EMPTY_FILTERS }: BookSearchParams) => ({
+  _query: query?.trim() || undefined,
+  _terms: terms?.length ? toSearchTermArgs(terms) : undefined,
+  _category_id: categoryId || undefined,
+  _publishers: filters.publishers,
+  _languages: filters.languages,
+  _year_from: filters.yearFrom ?? undefined,
+  _year_to: filters.yearTo ?? undefined,
+  _available_only: filters.availableOnly,
+});
+
+// One page of public.search_books; pages are numbered from 1
+export async function searchBooks({
+  sort = "relevance",
+  page = 1,
+  pageSize = SEARCH_PAGE_SIZE,
+  ...search
+}: BookSearchParams): Promise<BookSearchPage> {
+  const { data, error } = await supabase.rpc("search_books", {
+    ...toFilterArgs(search),
+    _sort: sort,
+    _limit: pageSize,
+    _offset: (page - 1) * pageSize,
+  });
+
+  if (error) throw error;
+
+  return {
+    books: (data || []).map(({ total_results, ...book }) => book),
+    total: data?.[0]?.total_results ?? 0,
+  };
+}
+
+export interface SearchSuggestion {
+  suggestion: string;
+  kind: "title" | "author";
+}
+
+// Close spellings of titles and authors for a search with few or no results
+export async function fetchSearchSuggestions(query: string): Promise<SearchSuggestion[]> {
+  if (!query.trim()) return [];
+
+  const { data, error } = await supabase.rpc("suggest_search_terms", { _query: query.trim() });
+  if (error) throw error;
+
+  return (data || []).map(({ suggestion, kind }) => ({ suggestion, kind: kind as SearchSuggestion["kind"] }));
+}
+
+export interface FacetValue {
+  value: string;
+  count: number;
+}
+
+export interface BookSearchFacets {
+  publishers: FacetValue[];
+  languages: FacetValue[];
+  years: { year: number; count: number }[];
+  availableCount: number;
+}
+
+// Counts per facet value for the current search, most common first
+export async function fetchSearchFacets(search: BookSearchParams): Promise<BookSearchFacets> {
+  const { data, error } = await supabase.rpc("get_search_facets", toFilterArgs(search));
+  if (error) throw error;
+
+  const rows = data || [];
+  const valuesFor = (facet: string) =>
+    rows
+      .filter((row) => row.facet === facet)
+      .map((row) => ({ value: row.value, count: row.book_count }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+
+  return {
+    publishers: valuesFor("publisher"),
+    languages: valuesFor("language"),
+    years: rows
+      .filter((row) => row.facet === "year")
+      .map((row) => ({ year: Number(row.value), count: row.book_count }))
+      .sort((a, b) => a.year - b.year),
+    availableCount: rows.find((row) => row.facet === "availability")?.book_count ?? 0,
+  };
+}
+
+export function hasActiveFilters(filters: BookSearchFilters): boolean {
+  return (
+    filters.publishers.length > 0 ||
+    filters.languages.length > 0 ||
+    filters.yearFrom !== null ||
+    filters.yearTo !== null ||
+    filters.availableOnly
+  );
+}
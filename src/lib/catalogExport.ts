@@ -0,0 +1,69 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { BookSearchParams, toFilterArgs } from "@/lib/bookSearch";
+import { MarcBook, MarcFormat, bookToMarc, serializeMarc } from "@/lib/marc";
+import { downloadFile } from "@/lib/spreadsheet";
+
+// Catalog exports are built by the export-catalog edge function, so large
+// collections are read and formatted server-side; the client only saves the file.
+// MARC is the exception: the function sends the books as JSON and they are
+// written with the same MARC serializer the import uses.
+
+export type CatalogExportFormat = "csv" | "json" | "xlsx" | MarcFormat;
+
+export const CATALOG_EXPORT_FORMATS: { format: CatalogExportFormat; label: string; extension: string; type: string }[] = [
+  { format: "csv", label: "CSV", extension: "csv", type: "text/csv;charset=utf-8" },
+  {
+    format: "xlsx",
+    label: "Excel (XLSX)",
+    extension: "xlsx",
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  },
+  { format: "json", label: "JSON", extension: "json", type: "application/json" },
+  { format: "marc21", label: "MARC 21 (.mrc)", extension: "mrc", type: "application/marc" },
+  { format: "marcxml", label: "MARCXML", extension: "xml", type: "application/marcxml+xml" },
+];
+
+const isMarcFormat = (exportFormat: CatalogExportFormat): exportFormat is MarcFormat =>
+  exportFormat === "marc21" || exportFormat === "marcxml";
+
+const invokeExport = async (exportFormat: "csv" | "json" | "xlsx", search?: BookSearchParams) => {
+  const { data, error } = await supabase.functions.invoke("export-catalog", {
+    body: { format: exportFormat, filters: search ? toFilterArgs(search) : undefined },
+  });
+
+  if (error) {
+    // The function explains failures in a JSON body, e.g. { error: "admin_only" }
+    if (error instanceof FunctionsHttpError) {
+      const body = await error.context.json().catch(() => null);
+      if (body?.error) throw new Error(body.error);
+    }
+    throw error;
+  }
+
+  return data as Blob;
+};
+
+const saveExport = (name: string, exportFormat: CatalogExportFormat, content: BlobPart) => {
+  const { extension, type } = CATALOG_EXPORT_FORMATS.find((option) => option.format === exportFormat)!;
+  downloadFile(`${name}.${extension}`, content, type);
+};
+
+// Exports the books matching the search, or the whole catalog without one
+export async function exportCatalog(exportFormat: CatalogExportFormat, search?: BookSearchParams): Promise<void> {
+  const name = `catalog-${search ? "search" : "all"}-${format(new Date(), "yyyy-MM-dd")}`;
+
+  if (isMarcFormat(exportFormat)) {
+    const { books } = JSON.parse(await (await invokeExport("json", search)).text()) as { books: MarcBook[] };
+    saveExport(name, exportFormat, serializeMarc(books.map(bookToMarc), exportFormat));
+  } else {
+    saveExport(name, exportFormat, await invokeExport(exportFormat, search));
+  }
+}
+
+// A single catalog record, e.g. to send to a union catalog
+export function exportBookAsMarc(book: MarcBook, exportFormat: MarcFormat): void {
+  const name = book.title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "book";
+  saveExport(name, exportFormat, serializeMarc([bookToMarc(book)], exportFormat));
+}
@@ -0,0 +1,46 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface Category {
+  id: string;
+  name: string;
+  parent_id: string | null;
+  book_count: number;
+}
+
+export async function fetchCategories(): Promise<Category[]> {
+  const { data, error } = await supabase
+    .from("categories")
+    .select("id, name, parent_id, books(count)")
+    .order("name");
+
+  if (error) throw error;
+
+  return (data || []).map(({ books, ...category }) => ({
+    ...category,
+    book_count: books[0]?.count ?? 0,
+  }));
+}
+
+// Top-level categories in name order, each followed by its sub-categories
+export function sortCategoryTree(categories: Category[]): Category[] {
+  return categories
+    .filter((category) => !category.parent_id)
+    .flatMap((parent) => [parent, ...getSubcategories(parent.id, categories)]);
+}
+
+export function getSubcategories(parentId: string, categories: Category[]): Category[] {
+  return categories.filter((category) => category.parent_id === parentId);
+}
+
+// "Parent › Child" for sub-categories, the plain name otherwise
+export function getCategoryLabel(categoryId: string | null, categories: Category[]): string {
+  const category = categories.find((c) => c.id === categoryId);
+  if (!category) return "";
+  const parent = categories.find((c) => c.id === category.parent_id);
+  return parent ? `${parent.name} › ${category.name}` : category.name;
+}
+
+// Books filed under a category or any of its sub-categories
+export function countBooksInCategory(category: Category, categories: Category[]): number {
+  return getSubcategories(category.id, categories).reduce((sum, sub) => sum + sub.book_count, category.book_count);
+}
@@ -0,0 +1,50 @@
+import { addDays, format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+
+export const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+export interface LibraryClosure {
+  id: string;
+  start_date: string;
+  end_date: string;
+  reason: string;
+}
+
+export interface LibraryCalendar {
+  closedWeekdays: number[];
+  closures: LibraryClosure[];
+}
+
+export async function fetchLibraryCalendar(): Promise<LibraryCalendar> {
+  const [settingsResult, closuresResult] = await Promise.all([
+    supabase.from("library_settings").select("closed_weekdays").single(),
+    supabase.from("library_closures").select("id, start_date, end_date, reason").order("start_date"),
+  ]);
+
+  if (settingsResult.error) throw settingsResult.error;
+  if (closuresResult.error) throw closuresResult.error;
+
+  return {
+    closedWeekdays: settingsResult.data.closed_weekdays,
+    closures: closuresResult.data || [],
+  };
+}
+
+// Mirrors public.is_library_open so calendars can grey out closed days
+export function getClosure(date: Date, calendar: LibraryCalendar): LibraryClosure | undefined {
+  const day = format(date, "yyyy-MM-dd");
+  return calendar.closures.find((closure) => closure.start_date <= day && day <= closure.end_date);
+}
+
+export function isLibraryClosed(date: Date, calendar: LibraryCalendar): boolean {
+  return calendar.closedWeekdays.includes(date.getDay()) || !!getClosure(date, calendar);
+}
+
+// Mirrors public.next_open_day
+export function nextOpenDay(date: Date, calendar: LibraryCalendar): Date {
+  for (let offset = 0; offset <= 366; offset++) {
+    const day = addDays(date, offset);
+    if (!isLibraryClosed(day, calendar)) return day;
+  }
+  return date;
+}
@@ -0,0 +1,162 @@
+import { formatCurrency } from "@/lib/utils";
+
+// Database functions raise library errors with the error code as the message
+// and a JSON payload in the details, e.g. { used: 3, limit: 3 }.
+export type LibraryErrorCode =
+  | "borrow_limit_reached"
+  | "book_not_found"
+  | "hold_copies_available"
+  | "hold_already_placed"
+  | "hold_not_found"
+  | "loan_not_found"
+  | "loan_not_active"
+  | "renewal_overdue"
+  | "renewal_limit_reached"
+  | "renewal_book_on_hold"
+  | "fines_outstanding"
+  | "policy_max_items_reached"
+  | "invalid_loan_dates"
+  | "loan_period_exceeded"
+  | "due_date_closed"
+  | "admin_only"
+  | "copy_not_found"
+  | "copy_not_available"
+  | "copy_not_on_loan"
+  | "request_not_found"
+  | "request_not_pending"
+  | "no_copy_available"
+  | "invalid_status_transition"
+  | "loan_not_lost"
+  | "request_not_approved"
+  | "category_too_deep"
+  | "invalid_search_term"
+  | "too_many_copies";
+
+export interface LibraryError {
+  code: LibraryErrorCode;
+  details: Record<string, unknown>;
+}
+
+const libraryErrorCodes: LibraryErrorCode[] = [
+  "borrow_limit_reached",
+  "book_not_found",
+  "hold_copies_available",
+  "hold_already_placed",
+  "hold_not_found",
+  "loan_not_found",
+  "loan_not_active",
+  "renewal_overdue",
+  "renewal_limit_reached",
+  "renewal_book_on_hold",
+  "fines_outstanding",
+  "policy_max_items_reached",
+  "invalid_loan_dates",
+  "loan_period_exceeded",
+  "due_date_closed",
+  "admin_only",
+  "copy_not_found",
+  "copy_not_available",
+  "copy_not_on_loan",
+  "request_not_found",
+  "request_not_pending",
+  "no_copy_available",
+  "invalid_status_transition",
+  "loan_not_lost",
+  "request_not_approved",
+  "category_too_deep",
+  "invalid_search_term",
+  "too_many_copies",
+];
+
+export function getLibraryError(error: unknown): LibraryError | null {
+  if (!error || typeof error !== "object") return null;
+
+  const { message, details } = error as { message?: string; details?: string | null };
+  if (!message || !libraryErrorCodes.includes(message as LibraryErrorCode)) return null;
+
+  let parsedDetails: Record<string, unknown> = {};
+  if (details) {
+    try {
+      parsedDetails = JSON.parse(details);
+    } catch {
+      // Details are not always JSON; keep the code without a payload
+    }
+  }
+
+  return { code: message as LibraryErrorCode, details: parsedDetails };
+}
+
+export function describeLibraryError({ code, details }: LibraryError): string {
+  switch (code) {
+    case "borrow_limit_reached":
+      return `You have reached your borrow limit (${details.used} of ${details.limit} used). Return a book or wait for a pending request to be processed.`;
+    case "book_not_found":
+      return "This book no longer exists in the catalog.";
+    case "hold_copies_available":
+      return "A copy of this book is on the shelf. Request to borrow it instead of placing a hold.";
+    case "hold_already_placed":
+      return "You are already in the queue for this book.";
+    case "hold_not_found":
+      return "This hold is no longer active.";
+    case "loan_not_found":
+      return "This loan could not be found.";
+    case "loan_not_active":
+      return "This book is not currently on loan.";
+    case "renewal_overdue":
+      return "Overdue loans cannot be renewed. Please return the book to the library.";
+    case "renewal_limit_reached":
+      return `This loan has already been renewed ${details.renewals} of ${details.max} times.`;
+    case "renewal_book_on_hold":
+      return `This book cannot be renewed because ${details.holds} other student(s) are waiting for it.`;
+    case "fines_outstanding":
+      return `Borrowing is blocked while you owe ${formatCurrency(Number(details.balance))} in fines (limit ${formatCurrency(Number(details.threshold))}). Please clear your balance at the library desk.`;
+    case "policy_max_items_reached":
+      return details.category
+        ? `You can only have ${details.limit} ${details.category} book(s) at a time (${details.used} of ${details.limit} used).`
+        : `You can only have ${details.limit} book(s) at a time (${details.used} of ${details.limit} used).`;
+    case "invalid_loan_dates":
+      return "The due date must be on or after the issue date.";
+    case "loan_period_exceeded":
+      return `The loan policy allows at most ${details.max_days} days between issue and due date.`;
+    case "due_date_closed":
+      return "The library is closed on the chosen due date. Pick a day the library is open.";
+    case "admin_only":
+      return "Only librarians can do this.";
+    case "copy_not_found":
+      return `No copy has the barcode ${details.barcode}.`;
+    case "copy_not_available":
+      return `Copy ${details.accession_number} cannot be issued because it is ${String(details.status).replace("_", " ")}.`;
+    case "copy_not_on_loan":
+      return `Copy ${details.accession_number} is not on loan.`;
+    case "request_not_found":
+      return "This request no longer exists.";
+    case "request_not_pending":
+      return `This request has already been ${details.status}. Refresh to see its current state.`;
+    case "no_copy_available":
+      return details.title
+        ? `No copy of "${details.title}" is on the shelf. Reject the request or wait for a copy to be returned.`
+        : "No copy of this book is on the shelf to issue.";
+    case "invalid_status_transition":
+      return details.from
+        ? `A ${details.from} request cannot be marked ${details.to}. Refresh to see its current state.`
+        : `A new request cannot start as ${details.to}.`;
+    case "loan_not_lost":
+      return `This loan is ${details.status}, not lost.`;
+    case "request_not_approved":
+      return `This request is ${details.status}, not waiting on the pickup shelf. Refresh to see its current state.`;
+    case "category_too_deep":
+      return "Sub-categories can only sit under a top-level category, and a category with sub-categories cannot be moved under another.";
+    case "invalid_search_term":
+      return `The search term ${details.field}:${details.value} is not valid. Open the search help for the supported syntax.`;
+    case "too_many_copies":
+      return `A book can be added with at most ${details.max} copies.`;
+  }
+}
+
+// Human-readable message for any error thrown by a Supabase call
+export function getErrorMessage(error: unknown): string {
+  const libraryError = getLibraryError(error);
+  if (libraryError) return describeLibraryError(libraryError);
+  if (error && typeof error === "object" && "message" in error) return String(error.message);
+  return String(error);
+}
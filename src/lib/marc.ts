@@ -0,0 +1,430 @@
+// MARC 21 bibliographic records, as exchanged with other libraries and union
+// catalogs: reading and writing ISO 2709 (.mrc) and MARCXML, and mapping
+// records to catalog books. The mapped fields are 245 title, 100 author,
+// 020 ISBN, 264/260 publisher and year, 520 description, 008 language and
+// 650 subject (our category).
+
+import { SheetRow } from "@/lib/spreadsheet";
+
+export interface MarcSubfield {
+  code: string;
+  value: string;
+}
+
+export interface MarcControlField {
+  tag: string;
+  value: string;
+}
+
+export interface MarcDataField {
+  tag: string;
+  indicators: [string, string];
+  subfields: MarcSubfield[];
+}
+
+export type MarcField = MarcControlField | MarcDataField;
+
+export interface MarcRecord {
+  leader: string;
+  fields: MarcField[];
+}
+
+export type MarcFormat = "marc21" | "marcxml";
+
+export const MARCXML_NAMESPACE = "http://www.loc.gov/MARC21/slim";
+
+const RECORD_TERMINATOR = 0x1d;
+const FIELD_TERMINATOR = 0x1e;
+const SUBFIELD_DELIMITER = "\x1f";
+
+// Tags 001-009 hold a single value, the rest indicators and subfields
+const isControlTag = (tag: string) => tag.startsWith("00");
+
+export const isControlField = (field: MarcField): field is MarcControlField => "value" in field;
+
+const isWhitespaceByte = (byte: number) => byte === 0x0a || byte === 0x0d || byte === 0x20;
+
+// ISO 2709: a 24 character leader, a directory of 12 character entries (tag,
+// length, offset) and the field data, all measured in bytes. Records marked
+// MARC-8 (leader/09 blank) are read as UTF-8 too, which is exact for the
+// plain ASCII most of them contain.
+export function parseMarc21(buffer: ArrayBuffer): MarcRecord[] {
+  const bytes = new Uint8Array(buffer);
+  const ascii = new TextDecoder("latin1");
+  const utf8 = new TextDecoder();
+  const records: MarcRecord[] = [];
+  let start = 0;
+
+  while (start < bytes.length) {
+    // Some tools put line breaks between records
+    while (start < bytes.length && isWhitespaceByte(bytes[start])) start++;
+    if (start >= bytes.length) break;
+
+    const end = bytes.indexOf(RECORD_TERMINATOR, start);
+    const record = bytes.subarray(start, end === -1 ? bytes.length : end);
+    start = end === -1 ? bytes.length : end + 1;
+
+    const number = records.length + 1;
+    const leader = ascii.decode(record.subarray(0, 24));
+    const baseAddress = Number(leader.slice(12, 17));
+    if (leader.length < 24 || !/^\d{5}$/.test(leader.slice(12, 17)) || baseAddress <= 24) {
+      throw new Error(`Record ${number} is not a MARC 21 record`);
+    }
+
+    const directory = ascii.decode(record.subarray(24, baseAddress - 1));
+    const fields: MarcField[] = [];
+
+    for (let i = 0; i + 12 <= directory.length; i += 12) {
+      const tag = directory.slice(i, i + 3);
+      const length = Number(directory.slice(i + 3, i + 7));
+      const offset = Number(directory.slice(i + 7, i + 12));
+      if (Number.isNaN(length) || Number.isNaN(offset)) {
+        throw new Error(`Record ${number} has a damaged directory`);
+      }
+
+      let data = record.subarray(baseAddress + offset, baseAddress + offset + length);
+      if (data[data.length - 1] === FIELD_TERMINATOR) data = data.subarray(0, data.length - 1);
+      const text = utf8.decode(data);
+
+      if (isControlTag(tag)) {
+        fields.push({ tag, value: text });
+      } else {
+        const [indicators, ...subfields] = text.split(SUBFIELD_DELIMITER);
+        fields.push({
+          tag,
+          indicators: [indicators[0] ?? " ", indicators[1] ?? " "],
+          subfields: subfields
+            .filter((subfield) => subfield.length > 0)
+            .map((subfield) => ({ code: subfield[0], value: subfield.slice(1) })),
+        });
+      }
+    }
+
+    records.push({ leader, fields });
+  }
+
+  return records;
+}
+
+const pad = (value: number, width: number) => String(value).padStart(width, "0");
+
+const fieldData = (field: MarcField) =>
+  isControlField(field)
+    ? field.value
+    : field.indicators.join("") +
+      field.subfields.map(({ code, value }) => SUBFIELD_DELIMITER + code + value).join("");
+
+// Written as UTF-8, so leader/09 is always "a"
+export function serializeMarc21(records: MarcRecord[]): Uint8Array {
+  const encoder = new TextEncoder();
+
+  const encoded = records.map((record) => {
+    const data = record.fields.map((field) => encoder.encode(fieldData(field) + "\x1e"));
+    let offset = 0;
+    const directory = record.fields.map((field, i) => {
+      if (data[i].length > 9999) throw new Error(`Field ${field.tag} is longer than MARC 21 allows`);
+      const entry = field.tag + pad(data[i].length, 4) + pad(offset, 5);
+      offset += data[i].length;
+      return entry;
+    });
+
+    const baseAddress = 24 + directory.length * 12 + 1;
+    const recordLength = baseAddress + offset + 1;
+    if (recordLength > 99999) throw new Error("A record is longer than MARC 21 allows");
+
+    const leader = record.leader.padEnd(24);
+    const header = encoder.encode(
+      pad(recordLength, 5) +
+        leader.slice(5, 9) +
+        "a22" +
+        pad(baseAddress, 5) +
+        leader.slice(17, 20) +
+        "4500" +
+        directory.join("") +
+        "\x1e"
+    );
+
+    const bytes = new Uint8Array(recordLength);
+    bytes.set(header, 0);
+    data.reduce((position, field) => {
+      bytes.set(field, position);
+      return position + field.length;
+    }, baseAddress);
+    bytes[recordLength - 1] = RECORD_TERMINATOR;
+    return bytes;
+  });
+
+  const output = new Uint8Array(encoded.reduce((total, bytes) => total + bytes.length, 0));
+  encoded.reduce((position, bytes) => {
+    output.set(bytes, position);
+    return position + bytes.length;
+  }, 0);
+  return output;
+}
+
+// Accepts a <collection> or a single <record>, with or without the MARCXML
+// namespace, also when wrapped in another document such as an OAI-PMH response
+export function parseMarcXml(text: string): MarcRecord[] {
+  const xml = new DOMParser().parseFromString(text, "application/xml");
+  if (xml.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("The file is not valid XML");
+  }
+
+  return Array.from(xml.getElementsByTagNameNS("*", "record"))
+    .filter((element) => element.namespaceURI === MARCXML_NAMESPACE || element.namespaceURI === null)
+    .map((element) => {
+      const children = Array.from(element.children);
+      const leader = children.find((child) => child.localName === "leader")?.textContent ?? "";
+
+      const fields = children.flatMap((child): MarcField[] => {
+        const tag = child.getAttribute("tag") ?? "";
+        if (child.localName === "controlfield") {
+          return [{ tag, value: child.textContent ?? "" }];
+        }
+        if (child.localName === "datafield") {
+          return [
+            {
+              tag,
+              indicators: [child.getAttribute("ind1") || " ", child.getAttribute("ind2") || " "],
+              subfields: Array.from(child.children)
+                .filter((subfield) => subfield.localName === "subfield")
+                .map((subfield) => ({ code: subfield.getAttribute("code") ?? "", value: subfield.textContent ?? "" })),
+            },
+          ];
+        }
+        return [];
+      });
+
+      return { leader: leader.padEnd(24), fields };
+    });
+}
+
+// Control characters other than tab and line breaks aren't allowed in XML 1.0
+const isXmlCharacter = (char: string) => char >= " " || char === "\t" || char === "\n" || char === "\r";
+
+const escapeXml = (value: string) =>
+  Array.from(value)
+    .filter(isXmlCharacter)
+    .join("")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+export function serializeMarcXml(records: MarcRecord[]): string {
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>', `<collection xmlns="${MARCXML_NAMESPACE}">`];
+
+  for (const record of records) {
+    lines.push("  <record>", `    <leader>${escapeXml(record.leader.padEnd(24))}</leader>`);
+    for (const field of record.fields) {
+      if (isControlField(field)) {
+        lines.push(`    <controlfield tag="${escapeXml(field.tag)}">${escapeXml(field.value)}</controlfield>`);
+      } else {
+        const [ind1, ind2] = field.indicators.map(escapeXml);
+        lines.push(`    <datafield tag="${escapeXml(field.tag)}" ind1="${ind1}" ind2="${ind2}">`);
+        for (const { code, value } of field.subfields) {
+          lines.push(`      <subfield code="${escapeXml(code)}">${escapeXml(value)}</subfield>`);
+        }
+        lines.push("    </datafield>");
+      }
+    }
+    lines.push("  </record>");
+  }
+
+  lines.push("</collection>");
+  return lines.join("\n") + "\n";
+}
+
+// The book fields carried in a record
+export interface MarcBook {
+  id?: string;
+  title: string;
+  author: string;
+  // Category label, e.g. "History › Kerala"
+  category: string | null;
+  isbn: string | null;
+  publisher: string | null;
+  year_published: number | null;
+  language: string | null;
+  description: string | null;
+}
+
+// MARC language codes for the languages the library catalogues most;
+// others are imported as their code
+const LANGUAGE_NAMES: Record<string, string> = {
+  eng: "English",
+  mal: "Malayalam",
+  ara: "Arabic",
+  urd: "Urdu",
+  hin: "Hindi",
+  tam: "Tamil",
+  kan: "Kannada",
+  tel: "Telugu",
+  san: "Sanskrit",
+  fre: "French",
+  ger: "German",
+  spa: "Spanish",
+};
+
+const languageCode = (language: string | null) => {
+  const name = language?.trim().toLowerCase();
+  if (!name) return "und";
+  const code = Object.keys(LANGUAGE_NAMES).find((key) => LANGUAGE_NAMES[key].toLowerCase() === name);
+  return code ?? (/^[a-z]{3}$/.test(name) ? name : "und");
+};
+
+// ISBD punctuation that closes a subfield, e.g. "Khasakkinte itihasam /" or
+// "DC Books,". A full stop after an initial stays: "Vijayan, O. V."
+const trimPunctuation = (value: string) =>
+  value
+    .trim()
+    .replace(/\s*[/:;,=]+$/, "")
+    .replace(/([^\s.]{2,})\.$/, "$1")
+    .trim();
+
+const dataFields = (record: MarcRecord, tag: string) =>
+  record.fields.filter((field): field is MarcDataField => field.tag === tag && !isControlField(field));
+
+const subfieldValue = (field: MarcDataField | undefined, code: string) => {
+  const value = field?.subfields.find((subfield) => subfield.code === code)?.value;
+  return value ? trimPunctuation(value) : "";
+};
+
+// "Vijayan, O. V." is filed under the surname; the catalog shows "O. V. Vijayan"
+const personalName = (field: MarcDataField) => {
+  const name = subfieldValue(field, "a");
+  const comma = name.indexOf(",");
+  if (field.indicators[0] !== "1" || comma === -1) return name;
+  return `${name.slice(comma + 1).trim()} ${name.slice(0, comma).trim()}`.trim();
+};
+
+const invertedName = (name: string): [string, string] => {
+  const words = name.trim().split(/\s+/);
+  if (name.includes(",")) return ["1", name.trim()];
+  if (words.length < 2) return ["0", name.trim()];
+  return ["1", `${words[words.length - 1]}, ${words.slice(0, -1).join(" ")}`];
+};
+
+export function marcToBook(record: MarcRecord): MarcBook {
+  const control = (tag: string) =>
+    (record.fields.find((field) => field.tag === tag && isControlField(field)) as MarcControlField | undefined)?.value ??
+    "";
+  const fixedData = control("008");
+
+  const titleField = dataFields(record, "245")[0];
+  const title = [subfieldValue(titleField, "a"), subfieldValue(titleField, "b")].filter(Boolean).join(": ");
+
+  const personal = [...dataFields(record, "100"), ...dataFields(record, "700")][0];
+  const corporate = [...dataFields(record, "110"), ...dataFields(record, "111"), ...dataFields(record, "710")][0];
+  const author = personal ? personalName(personal) : subfieldValue(corporate, "a");
+
+  const isbn =
+    dataFields(record, "020")
+      .map((field) => subfieldValue(field, "a"))
+      .map((value) => value.match(/[\dXx][\dXx -]{8,15}[\dXx]/)?.[0] ?? value)
+      .find(Boolean) ?? "";
+
+  // RDA records use 264 with second indicator 1 (publication), older ones 260
+  const publication =
+    dataFields(record, "264").find((field) => field.indicators[1] === "1") ??
+    dataFields(record, "260")[0] ??
+    dataFields(record, "264")[0];
+  const year = subfieldValue(publication, "c").match(/\d{4}/)?.[0] ?? fixedData.slice(7, 11);
+
+  const description = dataFields(record, "520")
+    .map((field) => [subfieldValue(field, "a"), subfieldValue(field, "b")].filter(Boolean).join(" "))
+    .join("\n\n");
+
+  const code = (fixedData.slice(35, 38).trim() || subfieldValue(dataFields(record, "041")[0], "a")).toLowerCase();
+  const language = /^[a-z]{3}$/.test(code) && !["und", "mul", "zxx"].includes(code) ? LANGUAGE_NAMES[code] ?? code : null;
+
+  return {
+    title,
+    author,
+    category: subfieldValue(dataFields(record, "650")[0], "a") || null,
+    isbn: isbn || null,
+    publisher: subfieldValue(publication, "b") || null,
+    year_published: /^\d{4}$/.test(year) ? Number(year) : null,
+    language,
+    description: description || null,
+  };
+}
+
+export function bookToMarc(book: MarcBook): MarcRecord {
+  const fields: MarcField[] = [];
+  const field = (tag: string, indicators: string, subfields: [string, string | null | undefined][]) => {
+    const present = subfields.filter(([, value]) => value);
+    if (present.length > 0) {
+      fields.push({
+        tag,
+        indicators: [indicators[0], indicators[1]],
+        subfields: present.map(([code, value]) => ({ code, value: value! })),
+      });
+    }
+  };
+
+  if (book.id) fields.push({ tag: "001", value: book.id });
+
+  // Date entered, single known date, no place, language; the book-specific
+  // positions are filled with "|" (not coded)
+  const today = new Date().toISOString();
+  const entered = today.slice(2, 4) + today.slice(5, 7) + today.slice(8, 10);
+  const year = book.year_published ? String(book.year_published) : "    ";
+  fields.push({
+    tag: "008",
+    value: `${entered}${book.year_published ? "s" : "n"}${year}    xx ${"|".repeat(17)}${languageCode(book.language)} d`,
+  });
+
+  field("020", "  ", [["a", book.isbn]]);
+  const [nameIndicator, name] = invertedName(book.author);
+  field("100", `${nameIndicator} `, [["a", name]]);
+  field("245", `${book.author ? "1" : "0"}0`, [["a", book.title]]);
+  field("264", " 1", [
+    ["b", book.publisher],
+    ["c", book.year_published ? String(book.year_published) : null],
+  ]);
+  field("520", "  ", [["a", book.description]]);
+  field("650", " 4", [["a", book.category]]);
+
+  // New record, language material, monograph, minimal level, ISBD punctuation omitted
+  return { leader: "00000nam a22000007c 4500", fields };
+}
+
+export const isMarcFile = (fileName: string) => /\.(mrc|marc|xml)$/i.test(fileName);
+
+export async function readMarcFile(file: File): Promise<MarcRecord[]> {
+  const records = file.name.toLowerCase().endsWith(".xml")
+    ? parseMarcXml(await file.text())
+    : parseMarc21(await file.arrayBuffer());
+  if (records.length === 0) throw new Error("No MARC records found in the file");
+  return records;
+}
+
+// The records as a sheet for the bulk import, numbered by their position in
+// the file; the headers are ones the import maps to book fields on its own,
+// with the subject read as the category
+export function marcRecordsToTable(records: MarcRecord[]): SheetRow[] {
+  return [
+    {
+      number: 0,
+      cells: ["Title", "Author", "Subject", "Description", "ISBN", "Publisher", "Year Published", "Language"],
+    },
+    ...records.map(marcToBook).map((book, index) => ({
+      number: index + 1,
+      cells: [
+        book.title,
+        book.author,
+        book.category ?? "",
+        book.description ?? "",
+        book.isbn ?? "",
+        book.publisher ?? "",
+        book.year_published ? String(book.year_published) : "",
+        book.language ?? "",
+      ],
+    })),
+  ];
+}
+
+export function serializeMarc(records: MarcRecord[], format: MarcFormat): BlobPart {
+  return format === "marcxml" ? serializeMarcXml(records) : serializeMarc21(records);
+}
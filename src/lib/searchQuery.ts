@@ -0,0 +1,206 @@
+// Advanced catalog search syntax, e.g. author:iqbal year:>1990 -available:0 "old man".
+// Plain words stay free text; fielded terms, phrases and negated words become
+// terms that public.search_books applies on top of the text search.
+
+export type SearchField =
+  | "title"
+  | "author"
+  | "publisher"
+  | "isbn"
+  | "category"
+  | "language"
+  | "year"
+  | "available";
+
+export type SearchOperator = "=" | ">" | ">=" | "<" | "<=" | "..";
+
+export interface SearchTerm {
+  // "any" matches the whole catalog record, like a plain word
+  field: SearchField | "any";
+  op: SearchOperator;
+  value: string;
+  // Upper bound of a .. range
+  valueTo?: string;
+  negate: boolean;
+  phrase: boolean;
+}
+
+export interface SearchSyntaxError {
+  message: string;
+  // The offending part of the query
+  fragment: string;
+  start: number;
+  end: number;
+}
+
+export interface ParsedSearchQuery {
+  text: string;
+  terms: SearchTerm[];
+  errors: SearchSyntaxError[];
+}
+
+export const SEARCH_SYNTAX_EXAMPLES: { example: string; description: string }[] = [
+  { example: "author:iqbal", description: "Author name, tolerant of spelling variants and aliases" },
+  { example: "title:khasak", description: "Word or part of a word in the title" },
+  { example: "category:history", description: "Category or its parent category" },
+  { example: "publisher:dc", description: "Part of the publisher's name" },
+  { example: "language:malayalam", description: "Book language" },
+  { example: "isbn:9788126", description: "Part of the ISBN" },
+  { example: "year:>1990", description: "Year published; also >=, <, <=, or a range like 1990..2000" },
+  { example: "available:0", description: "Copies on the shelf; available:yes for any, available:no for none" },
+  { example: '"old man and the sea"', description: "Exact phrase" },
+  { example: "-poetry", description: "Leave out books matching a word or any term above" },
+];
+
+const TEXT_FIELDS: SearchField[] = ["title", "author", "publisher", "isbn", "category", "language"];
+const NUMBER_FIELDS: SearchField[] = ["year", "available"];
+
+const COMPARISON_PATTERN = /^(>=|<=|>|<|=)?(\d{1,9})$/;
+const RANGE_PATTERN = /^(\d{1,9})\.\.(\d{1,9})$/;
+
+interface Token {
+  start: number;
+  end: number;
+  negate: boolean;
+  field: string | null;
+  value: string;
+  quoted: boolean;
+  unterminated: boolean;
+}
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    let negate = false;
+    if (input[i] === "-" && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      negate = true;
+      i++;
+    }
+
+    let field: string | null = null;
+    const fieldMatch = /^([a-z]+):/i.exec(input.slice(i));
+    if (fieldMatch) {
+      field = fieldMatch[1].toLowerCase();
+      i += fieldMatch[0].length;
+    }
+
+    let value: string;
+    let quoted = false;
+    let unterminated = false;
+    if (input[i] === '"') {
+      quoted = true;
+      const close = input.indexOf('"', i + 1);
+      unterminated = close === -1;
+      value = input.slice(i + 1, unterminated ? input.length : close);
+      i = unterminated ? input.length : close + 1;
+    } else {
+      const valueStart = i;
+      while (i < input.length && !/\s/.test(input[i])) i++;
+      value = input.slice(valueStart, i);
+    }
+
+    tokens.push({ start, end: i, negate, field, value: value.trim(), quoted, unterminated });
+  }
+
+  return tokens;
+};
+
+// year and available take a number, a comparison or a range
+const parseNumberTerm = (field: SearchField, value: string): Omit<SearchTerm, "negate" | "phrase"> | string => {
+  if (field === "available") {
+    const answer = value.toLowerCase();
+    if (answer === "yes" || answer === "true") return { field, op: ">", value: "0" };
+    if (answer === "no" || answer === "false") return { field, op: "=", value: "0" };
+  }
+
+  const comparison = COMPARISON_PATTERN.exec(value);
+  if (comparison) {
+    return { field, op: (comparison[1] || "=") as SearchOperator, value: comparison[2] };
+  }
+
+  const range = RANGE_PATTERN.exec(value);
+  if (range) {
+    if (Number(range[1]) > Number(range[2])) {
+      return `The range ${value} starts after it ends`;
+    }
+    return { field, op: "..", value: range[1], valueTo: range[2] };
+  }
+
+  return field === "year"
+    ? "year: expects a year, a comparison like year:>1990 or a range like year:1990..2000"
+    : "available: expects a number of copies, a comparison like available:>2, or yes/no";
+};
+
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const words: string[] = [];
+  const terms: SearchTerm[] = [];
+  const errors: SearchSyntaxError[] = [];
+
+  for (const token of tokenize(input)) {
+    const fragment = input.slice(token.start, token.end);
+    const addError = (message: string) => errors.push({ message, fragment, start: token.start, end: token.end });
+
+    if (token.unterminated) {
+      addError("Missing closing quote");
+    }
+
+    if (token.field === null) {
+      if (!token.value) continue;
+      if (token.quoted) {
+        terms.push({ field: "any", op: "=", value: token.value, negate: token.negate, phrase: true });
+        // Phrase words also feed the ranking and highlighting
+        if (!token.negate) words.push(token.value);
+      } else if (token.negate) {
+        terms.push({ field: "any", op: "=", value: token.value, negate: true, phrase: false });
+      } else {
+        words.push(token.value);
+      }
+      continue;
+    }
+
+    const field = token.field as SearchField;
+    if (!TEXT_FIELDS.includes(field) && !NUMBER_FIELDS.includes(field)) {
+      addError(`Unknown field "${token.field}:". Put the term in quotes to search for it as text`);
+      continue;
+    }
+
+    if (!token.value) {
+      addError(`${field}: needs a value, e.g. ${SEARCH_SYNTAX_EXAMPLES.find(({ example }) => example.startsWith(`${field}:`))?.example}`);
+      continue;
+    }
+
+    if (NUMBER_FIELDS.includes(field)) {
+      const term = parseNumberTerm(field, token.value);
+      if (typeof term === "string") {
+        addError(term);
+      } else {
+        terms.push({ ...term, negate: token.negate, phrase: false });
+      }
+      continue;
+    }
+
+    terms.push({ field, op: "=", value: token.value, negate: token.negate, phrase: token.quoted });
+  }
+
+  return { text: words.join(" "), terms, errors };
+}
+
+// The terms in the shape public.search_books expects
+export function toSearchTermArgs(terms: SearchTerm[]) {
+  return terms.map(({ field, op, value, valueTo, negate, phrase }) => ({
+    field,
+    op,
+    value,
+    value_to: valueTo ?? null,
+    negate,
+    phrase,
+  }));
+}
@@ -0,0 +1,30 @@
+let audioContext: AudioContext | null = null;
+
+// Short beeps for the circulation desk, where the librarian is looking at the
+// book and the scanner rather than the screen
+function beep(frequency: number, duration: number, repeat = 1) {
+  try {
+    audioContext ??= new AudioContext();
+    const start = audioContext.currentTime;
+
+    for (let i = 0; i < repeat; i++) {
+      const oscillator = audioContext.createOscillator();
+      const gain = audioContext.createGain();
+      const at = start + i * duration * 1.5;
+
+      oscillator.type = "square";
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.1, at);
+      gain.gain.exponentialRampToValueAtTime(0.001, at + duration);
+      oscillator.connect(gain).connect(audioContext.destination);
+      oscillator.start(at);
+      oscillator.stop(at + duration);
+    }
+  } catch {
+    // Audio is a nicety; browsers without Web Audio stay silent
+  }
+}
+
+export const playSuccessSound = () => beep(880, 0.08);
+
+export const playErrorSound = () => beep(220, 0.15, 3);
@@ -0,0 +1,225 @@
+// Reading and writing the tabular files used for bulk catalog work. CSV
+// follows RFC 4180 (with ; or tab as the separator when a file uses them);
+// XLSX covers what spreadsheet apps write for a plain table: the first
+// worksheet, with shared, inline and numeric cells.
+
+export type SpreadsheetCell = string | number | boolean | null | undefined;
+
+// A row read from a file, numbered as it is in the file: the line a CSV row
+// starts on, or the row number a spreadsheet app shows. Blank rows are
+// skipped, so the numbers can have gaps.
+export interface SheetRow {
+  number: number;
+  cells: string[];
+}
+
+export async function readSpreadsheet(file: File): Promise<SheetRow[]> {
+  const name = file.name.toLowerCase();
+  if (name.endsWith(".xlsx")) {
+    return readXlsx(await file.arrayBuffer());
+  }
+  if (name.endsWith(".csv") || name.endsWith(".tsv") || name.endsWith(".txt")) {
+    return parseCsv(await file.text());
+  }
+  throw new Error("Unsupported file type. Save the sheet as .csv or .xlsx and try again");
+}
+
+// The separator that splits the header line into the most columns
+const detectDelimiter = (text: string) => {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/)).replace(/"[^"]*"/g, "");
+  const candidates = [",", ";", "\t"];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+};
+
+export function parseCsv(input: string): SheetRow[] {
+  const text = input.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(text);
+  const rows: SheetRow[] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+        // Line breaks inside a quoted cell still move to the next line of the file
+        if (char === "\n" || (char === "\r" && text[i + 1] !== "\n")) line++;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push({ number: rowLine, cells: row });
+      row = [];
+      field = "";
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push({ number: rowLine, cells: row });
+  }
+
+  return rows.filter(({ cells }) => cells.some((cell) => cell.trim() !== ""));
+}
+
+export function toCsv(rows: SpreadsheetCell[][]): string {
+  const escape = (cell: SpreadsheetCell) => {
+    const value = cell === null || cell === undefined ? "" : String(cell);
+    return /[",\r\n]/.test(value) || /^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  };
+  return rows.map((row) => row.map(escape).join(",")).join("\r\n");
+}
+
+// Saves generated content through the browser's download prompt
+export function downloadFile(filename: string, content: BlobPart, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// The byte-order mark makes Excel read the file as UTF-8
+export function downloadCsv(filename: string, rows: SpreadsheetCell[][]) {
+  downloadFile(filename, "\uFEFF" + toCsv(rows), "text/csv;charset=utf-8");
+}
+
+// Entries of a ZIP archive (an .xlsx file is one), inflated on demand
+const unzip = async (buffer: ArrayBuffer, wanted: (name: string) => boolean) => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  let end = buffer.byteLength - 22;
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) end--;
+  if (end < 0) throw new Error("The file is not a valid .xlsx workbook");
+
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const files = new Map<string, string>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) break;
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (!wanted(name)) continue;
+
+    const dataStart =
+      localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      files.set(name, decoder.decode(data));
+    } else if (method === 8) {
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+      files.set(name, await new Response(stream).text());
+    } else {
+      throw new Error("The workbook uses an unsupported compression method");
+    }
+  }
+
+  return files;
+};
+
+const parseXml = (xml: string) => new DOMParser().parseFromString(xml, "application/xml");
+
+const elements = (parent: Document | Element, tag: string) => Array.from(parent.getElementsByTagNameNS("*", tag));
+
+// "BC12" -> 54 (zero-based column of the cell reference)
+const columnIndex = (reference: string) => {
+  const letters = reference.replace(/\d+$/, "").toUpperCase();
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+export async function readXlsx(buffer: ArrayBuffer): Promise<SheetRow[]> {
+  const files = await unzip(buffer, (name) => name.startsWith("xl/") && (name.endsWith(".xml") || name.endsWith(".rels")));
+
+  // The first sheet in workbook order, which is not always sheet1.xml
+  let sheetPath = "xl/worksheets/sheet1.xml";
+  const workbook = files.get("xl/workbook.xml");
+  const relations = files.get("xl/_rels/workbook.xml.rels");
+  if (workbook && relations) {
+    const firstSheet = elements(parseXml(workbook), "sheet")[0];
+    const relationId =
+      firstSheet?.getAttributeNS("http://schemas.openxmlformats.org/officeDocument/2006/relationships", "id") ??
+      firstSheet?.getAttribute("r:id");
+    const target = elements(parseXml(relations), "Relationship")
+      .find((relation) => relation.getAttribute("Id") === relationId)
+      ?.getAttribute("Target");
+    if (target) {
+      sheetPath = target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+    }
+  }
+
+  const sheet = files.get(sheetPath);
+  if (!sheet) throw new Error("The workbook has no worksheet to import");
+
+  // Rich text strings are split into runs; phonetic guides are not part of the text
+  const textOf = (element: Element) =>
+    elements(element, "t")
+      .filter((t) => t.parentElement?.localName !== "rPh")
+      .map((t) => t.textContent ?? "")
+      .join("");
+
+  const sharedStringsXml = files.get("xl/sharedStrings.xml");
+  const sharedStrings = sharedStringsXml ? elements(parseXml(sharedStringsXml), "si").map(textOf) : [];
+
+  let previousNumber = 0;
+  const rows = elements(parseXml(sheet), "row").map((row) => {
+    // Rows carry their number in r; writers that leave it out write every row
+    const number = Number(row.getAttribute("r")) || previousNumber + 1;
+    previousNumber = number;
+    const cells: string[] = [];
+    elements(row, "c").forEach((cell, position) => {
+      const reference = cell.getAttribute("r");
+      const index = reference ? columnIndex(reference) : position;
+      const value = elements(cell, "v")[0]?.textContent ?? "";
+
+      switch (cell.getAttribute("t")) {
+        case "s":
+          cells[index] = sharedStrings[Number(value)] ?? "";
+          break;
+        case "inlineStr":
+          cells[index] = elements(cell, "is")[0] ? textOf(elements(cell, "is")[0]) : "";
+          break;
+        case "b":
+          cells[index] = value === "1" ? "TRUE" : "FALSE";
+          break;
+        default:
+          cells[index] = value;
+      }
+    });
+    return { number, cells: Array.from(cells, (cell) => cell ?? "") };
+  });
+
+  return rows.filter(({ cells }) => cells.some((cell) => cell.trim() !== ""));
+}
@@ -8,6 +8,13 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { BookOpen, Users, BookMarked, Clock } from "lucide-react";
 import BooksManagement from "@/components/admin/BooksManagement";
 import BorrowRequests from "@/components/admin/BorrowRequests";
+import PickupShelf from "@/components/admin/PickupShelf";
+import LibrarySettings from "@/components/admin/LibrarySettings";
+import LoanPolicies from "@/components/admin/LoanPolicies";
+import CategoriesManagement from "@/components/admin/CategoriesManagement";
+import AuthorAliases from "@/components/admin/AuthorAliases";
+import LibraryClosures from "@/components/admin/LibraryClosures";
+import FinesManagement from "@/components/admin/FinesManagement";
 import ProfileMenu from "@/components/ProfileMenu";
 
 const AdminDashboard = () => {
@@ -135,6 +142,9 @@ const AdminDashboard = () => {
           <TabsList>
             <TabsTrigger value="books">Books Management</TabsTrigger>
             <TabsTrigger value="requests">Borrow Requests</TabsTrigger>
+            <TabsTrigger value="pickup">Pickup Shelf</TabsTrigger>
+            <TabsTrigger value="fines">Fines</TabsTrigger>
+            <TabsTrigger value="settings">Settings</TabsTrigger>
           </TabsList>
           <TabsContent value="books" className="space-y-4">
             <BooksManagement 
@@ -150,6 +160,19 @@ const AdminDashboard = () => {
               }
             />
           </TabsContent>
+          <TabsContent value="pickup" className="space-y-4">
+            <PickupShelf />
+          </TabsContent>
+          <TabsContent value="fines" className="space-y-4">
+            <FinesManagement />
+          </TabsContent>
+          <TabsContent value="settings" className="space-y-4">
+            <LibrarySettings />
+            <CategoriesManagement />
+            <AuthorAliases />
+            <LoanPolicies />
+            <LibraryClosures />
+          </TabsContent>
         </Tabs>
       </main>
     </div>
@@ -0,0 +1,393 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link, useLocation, useNavigate, useParams } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, BookOpen } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import ProfileMenu from "@/components/ProfileMenu";
+import BookRequestAction, { BookHold } from "@/components/student/BookRequestAction";
+import { Category, fetchCategories, getCategoryLabel } from "@/lib/categories";
+import { getErrorMessage } from "@/lib/libraryErrors";
+import { formatCurrency } from "@/lib/utils";
+
+type CopyStatus = "available" | "on_loan" | "on_hold" | "damaged" | "lost" | "retired";
+
+interface Book {
+  id: string;
+  title: string;
+  author: string;
+  category_id: string;
+  description: string | null;
+  isbn: string | null;
+  photo_url: string | null;
+  publisher: string | null;
+  year_published: number | null;
+  language: string | null;
+  replacement_cost: number | null;
+  total_count: number;
+  available_count: number;
+  created_at: string;
+}
+
+interface BookCopy {
+  id: string;
+  accession_number: string;
+  condition: string;
+  status: CopyStatus;
+  acquired_on: string | null;
+}
+
+interface BookActivity {
+  holds_waiting: number;
+  holds_ready: number;
+  on_loan: number;
+  times_borrowed: number;
+  distinct_borrowers: number;
+  last_borrowed_at: string | null;
+  next_due_date: string | null;
+}
+
+interface RelatedBook {
+  id: string;
+  title: string;
+  author: string;
+  photo_url: string | null;
+  year_published: number | null;
+  available_count: number;
+  total_count: number;
+  relation: string;
+}
+
+const BookDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user, userRole, loading } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [book, setBook] = useState<Book | null>(null);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [copies, setCopies] = useState<BookCopy[]>([]);
+  const [activity, setActivity] = useState<BookActivity | null>(null);
+  const [relatedBooks, setRelatedBooks] = useState<RelatedBook[]>([]);
+  const [hold, setHold] = useState<BookHold | undefined>();
+  const [loadingBook, setLoadingBook] = useState(true);
+  const isAdmin = userRole === "admin";
+
+  useEffect(() => {
+    if (!loading && !user) {
+      navigate("/auth");
+    }
+  }, [user, loading, navigate]);
+
+  const fetchHold = useCallback(async (bookId: string) => {
+    if (isAdmin) return;
+
+    try {
+      const { data, error } = await supabase.rpc("get_my_holds");
+      if (error) throw error;
+      setHold((data || []).find((h) => h.book_id === bookId));
+    } catch (error) {
+      toast.error("Error loading holds: " + getErrorMessage(error));
+    }
+  }, [isAdmin]);
+
+  const fetchBook = useCallback(async (bookId: string) => {
+    try {
+      const [
+        { data: bookData, error: bookError },
+        categoryList,
+        { data: copyData, error: copiesError },
+        { data: activityData, error: activityError },
+        { data: relatedData, error: relatedError },
+      ] = await Promise.all([
+        supabase.from("books").select("*").eq("id", bookId).maybeSingle(),
+        fetchCategories(),
+        supabase
+          .from("book_copies")
+          .select("id, accession_number, condition, status, acquired_on")
+          .eq("book_id", bookId)
+          .order("accession_number"),
+        supabase.rpc("get_book_activity", { _book_id: bookId }),
+        supabase.rpc("get_related_books", { _book_id: bookId }),
+      ]);
+
+      if (bookError) throw bookError;
+      if (copiesError) throw copiesError;
+      if (activityError) throw activityError;
+      if (relatedError) throw relatedError;
+
+      setBook(bookData);
+      setCategories(categoryList);
+      setCopies(copyData || []);
+      setActivity(activityData?.[0] ?? null);
+      setRelatedBooks(relatedData || []);
+      fetchHold(bookId);
+    } catch (error) {
+      toast.error("Error loading book: " + getErrorMessage(error));
+    } finally {
+      setLoadingBook(false);
+    }
+  }, [fetchHold]);
+
+  useEffect(() => {
+    if (user && id) {
+      fetchBook(id);
+    }
+  }, [user, id, fetchBook]);
+
+  useEffect(() => {
+    window.scrollTo({ top: 0 });
+  }, [id]);
+
+  // Back to the search the book was opened from, or the dashboard for a shared link
+  const goBack = () => {
+    if (location.key !== "default") {
+      navigate(-1);
+    } else {
+      navigate(isAdmin ? "/admin" : "/student");
+    }
+  };
+
+  if (loading || loadingBook) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <BookOpen className="h-12 w-12 animate-pulse text-primary mx-auto mb-4" />
+          <p className="text-muted-foreground">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  // Retired copies are only of interest to librarians
+  const visibleCopies = isAdmin ? copies : copies.filter((copy) => copy.status !== "retired");
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-accent/5">
+      {/* Header */}
+      <header className="border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <BookOpen className="h-8 w-8 text-primary" />
+            <div>
+              <h1 className="text-2xl font-bold">Misbah Library</h1>
+              <p className="text-sm text-muted-foreground">Book Details</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={goBack}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back
+            </Button>
+            <ProfileMenu />
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        {!book ? (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-12">
+              <BookOpen className="h-16 w-16 text-muted-foreground mb-4" />
+              <p className="text-muted-foreground text-center">This book is no longer in the catalog.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card>
+              <CardContent className="grid gap-6 pt-6 md:grid-cols-[12rem_1fr]">
+                {book.photo_url ? (
+                  <img src={book.photo_url} alt={book.title} className="w-48 h-64 object-cover rounded" />
+                ) : (
+                  <div className="w-48 h-64 bg-muted rounded flex items-center justify-center">
+                    <BookOpen className="h-16 w-16 text-muted-foreground" />
+                  </div>
+                )}
+                <div className="space-y-4">
+                  <div>
+                    <h2 className="text-2xl font-bold">{book.title}</h2>
+                    <p className="text-muted-foreground">{book.author}</p>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <Badge variant="secondary">{getCategoryLabel(book.category_id, categories)}</Badge>
+                    <Badge variant={book.available_count > 0 ? "default" : "destructive"}>
+                      {book.available_count} of {book.total_count} available
+                    </Badge>
+                  </div>
+                  {book.description && <p className="text-sm whitespace-pre-line">{book.description}</p>}
+                  <dl className="grid gap-x-6 gap-y-2 text-sm sm:grid-cols-2">
+                    <DetailRow label="Publisher" value={book.publisher} />
+                    <DetailRow label="Year Published" value={book.year_published} />
+                    <DetailRow label="Language" value={book.language} />
+                    <DetailRow label="Book No / ISBN" value={book.isbn} />
+                    {isAdmin && (
+                      <DetailRow
+                        label="Replacement Cost"
+                        value={book.replacement_cost !== null ? formatCurrency(book.replacement_cost) : null}
+                      />
+                    )}
+                    <DetailRow label="Added" value={format(new Date(book.created_at), "MMM dd, yyyy")} />
+                  </dl>
+                  {!isAdmin && (
+                    <div className="max-w-xs">
+                      <BookRequestAction book={book} hold={hold} onChange={() => fetchBook(book.id)} />
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            {activity && (
+              <div className="grid gap-4 grid-cols-2 lg:grid-cols-4">
+                <ActivityStat
+                  label="On Loan"
+                  value={activity.on_loan}
+                  hint={
+                    activity.next_due_date
+                      ? `Next due back ${format(new Date(activity.next_due_date), "MMM dd")}`
+                      : undefined
+                  }
+                />
+                <ActivityStat
+                  label="Holds"
+                  value={activity.holds_waiting}
+                  hint={activity.holds_ready > 0 ? `${activity.holds_ready} ready for pickup` : "waiting in queue"}
+                />
+                <ActivityStat label="Times Borrowed" value={activity.times_borrowed} />
+                <ActivityStat
+                  label="Borrowers"
+                  value={activity.distinct_borrowers}
+                  hint={
+                    activity.last_borrowed_at
+                      ? `Last borrowed ${format(new Date(activity.last_borrowed_at), "MMM dd, yyyy")}`
+                      : undefined
+                  }
+                />
+              </div>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Copies</CardTitle>
+                <CardDescription>Every physical copy of this book and where it is now</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {visibleCopies.length === 0 ? (
+                  <p className="text-center text-muted-foreground py-8">No copies recorded for this book yet.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Accession No</TableHead>
+                        <TableHead>Condition</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Acquired</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {visibleCopies.map((copy) => (
+                        <TableRow key={copy.id} className={copy.status === "retired" ? "opacity-60" : undefined}>
+                          <TableCell className="font-medium">{copy.accession_number}</TableCell>
+                          <TableCell className="capitalize">{copy.condition}</TableCell>
+                          <TableCell>{getCopyStatusBadge(copy.status)}</TableCell>
+                          <TableCell>
+                            {copy.acquired_on ? format(new Date(copy.acquired_on), "MMM dd, yyyy") : "—"}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            {relatedBooks.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Related Books</CardTitle>
+                  <CardDescription>More by {book.author} and from the same category</CardDescription>
+                </CardHeader>
+                <CardContent className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                  {relatedBooks.map((related) => (
+                    <Link
+                      key={related.id}
+                      to={`/books/${related.id}`}
+                      className="flex gap-3 rounded-md border p-3 transition-colors hover:bg-muted/50"
+                    >
+                      {related.photo_url ? (
+                        <img src={related.photo_url} alt={related.title} className="w-12 h-16 object-cover rounded" />
+                      ) : (
+                        <div className="w-12 h-16 bg-muted rounded flex items-center justify-center shrink-0">
+                          <BookOpen className="h-6 w-6 text-muted-foreground" />
+                        </div>
+                      )}
+                      <div className="min-w-0 space-y-1">
+                        <p className="font-medium leading-tight line-clamp-2">{related.title}</p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {related.author}
+                          {related.year_published ? ` · ${related.year_published}` : ""}
+                        </p>
+                        <div className="flex flex-wrap gap-1">
+                          <Badge variant="outline" className="text-xs">
+                            {related.relation === "author" ? "Same author" : "Same category"}
+                          </Badge>
+                          <Badge variant={related.available_count > 0 ? "secondary" : "destructive"} className="text-xs">
+                            {related.available_count} / {related.total_count}
+                          </Badge>
+                        </div>
+                      </div>
+                    </Link>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+const DetailRow = ({ label, value }: { label: string; value: string | number | null }) => (
+  <div className="flex justify-between gap-4 border-b py-1">
+    <dt className="text-muted-foreground">{label}</dt>
+    <dd className="text-right">{value ?? "—"}</dd>
+  </div>
+);
+
+const ActivityStat = ({ label, value, hint }: { label: string; value: number; hint?: string }) => (
+  <Card>
+    <CardHeader className="pb-2">
+      <CardDescription>{label}</CardDescription>
+      <CardTitle className="text-3xl">{value}</CardTitle>
+    </CardHeader>
+    {hint && (
+      <CardContent>
+        <p className="text-xs text-muted-foreground">{hint}</p>
+      </CardContent>
+    )}
+  </Card>
+);
+
+const getCopyStatusBadge = (status: CopyStatus) => {
+  const variants: Record<CopyStatus, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+    available: { label: "On the Shelf", variant: "default" },
+    on_loan: { label: "On Loan", variant: "secondary" },
+    on_hold: { label: "On Hold Shelf", variant: "secondary" },
+    damaged: { label: "Being Repaired", variant: "destructive" },
+    lost: { label: "Lost", variant: "destructive" },
+    retired: { label: "Retired", variant: "outline" },
+  };
+  const config = variants[status];
+  return <Badge variant={config.variant}>{config.label}</Badge>;
+};
+
+export default BookDetail;
@@ -0,0 +1,426 @@
+import { useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, BookOpen, LogIn, LogOut, ScanBarcode, TriangleAlert, UserRound } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import ProfileMenu from "@/components/ProfileMenu";
+import { getErrorMessage } from "@/lib/libraryErrors";
+import { playErrorSound, playSuccessSound } from "@/lib/sounds";
+import { formatCurrency } from "@/lib/utils";
+
+interface Patron {
+  student_id: string;
+  name: string;
+  email: string;
+  roll_no: string;
+  loans: number;
+  borrow_limit: number;
+  outstanding: number;
+  fines_blocked: boolean;
+}
+
+interface DeskTransaction {
+  id: number;
+  at: Date;
+  action: "checkout" | "checkin";
+  barcode: string;
+  bookTitle?: string;
+  accessionNumber?: string;
+  patronName?: string;
+  dueDate?: string;
+  fine?: number;
+  error?: string;
+}
+
+const CirculationDesk = () => {
+  const { user, userRole, loading } = useAuth();
+  const navigate = useNavigate();
+  const [mode, setMode] = useState<"checkout" | "checkin">("checkout");
+  const [rollNo, setRollNo] = useState("");
+  const [patron, setPatron] = useState<Patron | null>(null);
+  const [barcode, setBarcode] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [transactions, setTransactions] = useState<DeskTransaction[]>([]);
+  const rollNoInput = useRef<HTMLInputElement>(null);
+  const barcodeInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!loading && (!user || userRole !== "admin")) {
+      navigate("/auth");
+    }
+  }, [user, userRole, loading, navigate]);
+
+  // Keep the cursor where the scanner will type next
+  useEffect(() => {
+    if (mode === "checkout" && !patron) {
+      rollNoInput.current?.focus();
+    } else {
+      barcodeInput.current?.focus();
+    }
+  }, [mode, patron, busy]);
+
+  const logTransaction = (transaction: Omit<DeskTransaction, "id" | "at">) => {
+    setTransactions((prev) => [{ ...transaction, id: prev.length + 1, at: new Date() }, ...prev]);
+    if (transaction.error) {
+      playErrorSound();
+      toast.error(transaction.error);
+    } else {
+      playSuccessSound();
+    }
+  };
+
+  const lookupPatron = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!rollNo.trim()) return;
+
+    setBusy(true);
+    try {
+      const { data, error } = await supabase.rpc("get_desk_patron", { _roll_no: rollNo });
+      if (error) throw error;
+
+      const found = data?.[0];
+      if (!found) {
+        playErrorSound();
+        toast.error(`No borrower with roll number ${rollNo.trim()}`);
+        setRollNo("");
+        return;
+      }
+
+      setPatron(found);
+      if (found.fines_blocked || found.loans >= found.borrow_limit) {
+        playErrorSound();
+      }
+    } catch (error) {
+      playErrorSound();
+      toast.error("Error looking up borrower: " + getErrorMessage(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const refreshPatron = async (rollNumber: string) => {
+    const { data } = await supabase.rpc("get_desk_patron", { _roll_no: rollNumber });
+    if (data?.[0]) setPatron(data[0]);
+  };
+
+  const nextPatron = () => {
+    setPatron(null);
+    setRollNo("");
+    setBarcode("");
+  };
+
+  const handleScan = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const scanned = barcode.trim();
+    if (!scanned) return;
+
+    setBusy(true);
+    setBarcode("");
+    try {
+      if (mode === "checkout" && patron) {
+        const { data, error } = await supabase.rpc("desk_checkout", {
+          _student_id: patron.student_id,
+          _barcode: scanned,
+        });
+        if (error) throw error;
+
+        const loan = data[0];
+        logTransaction({
+          action: "checkout",
+          barcode: scanned,
+          bookTitle: loan.book_title,
+          accessionNumber: loan.accession_number,
+          patronName: patron.name,
+          dueDate: loan.due_date,
+        });
+        refreshPatron(patron.roll_no);
+      } else {
+        const { data, error } = await supabase.rpc("desk_checkin", { _barcode: scanned });
+        if (error) throw error;
+
+        const loan = data[0];
+        logTransaction({
+          action: "checkin",
+          barcode: scanned,
+          bookTitle: loan.book_title,
+          accessionNumber: loan.accession_number,
+          patronName: loan.student_name,
+          dueDate: loan.due_date,
+          fine: loan.fine,
+        });
+        if (loan.fine > 0) {
+          toast.warning(`${loan.student_name} was charged ${formatCurrency(loan.fine)} for a late return`);
+        }
+      }
+    } catch (error) {
+      logTransaction({
+        action: mode,
+        barcode: scanned,
+        patronName: mode === "checkout" ? patron?.name : undefined,
+        error: getErrorMessage(error),
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <BookOpen className="h-12 w-12 animate-pulse text-primary mx-auto mb-4" />
+          <p className="text-muted-foreground">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user || userRole !== "admin") {
+    return null;
+  }
+
+  const successful = transactions.filter((t) => !t.error);
+  const totals = {
+    checkedOut: successful.filter((t) => t.action === "checkout").length,
+    checkedIn: successful.filter((t) => t.action === "checkin").length,
+    errors: transactions.length - successful.length,
+    fines: successful.reduce((sum, t) => sum + (t.fine ?? 0), 0),
+  };
+  const patronBlocked = !!patron && (patron.fines_blocked || patron.loans >= patron.borrow_limit);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-accent/5">
+      {/* Header */}
+      <header className="border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <BookOpen className="h-8 w-8 text-primary" />
+            <div>
+              <h1 className="text-2xl font-bold">Misbah Library</h1>
+              <p className="text-sm text-muted-foreground">Circulation Desk</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => navigate("/admin")}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Dashboard
+            </Button>
+            <ProfileMenu />
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        {/* Session Totals */}
+        <div className="grid gap-4 grid-cols-2 lg:grid-cols-4">
+          <SessionStat label="Checked Out" value={totals.checkedOut} />
+          <SessionStat label="Checked In" value={totals.checkedIn} />
+          <SessionStat label="Errors" value={totals.errors} />
+          <SessionStat label="Fines Charged" value={formatCurrency(totals.fines)} />
+        </div>
+
+        <Tabs value={mode} onValueChange={(value) => setMode(value as "checkout" | "checkin")}>
+          <TabsList>
+            <TabsTrigger value="checkout">
+              <LogOut className="h-4 w-4 mr-2" />
+              Check Out
+            </TabsTrigger>
+            <TabsTrigger value="checkin">
+              <LogIn className="h-4 w-4 mr-2" />
+              Check In
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="checkout">
+            <Card>
+              <CardHeader>
+                <CardTitle>Check Out</CardTitle>
+                <CardDescription>Scan or type the borrower's roll number, then scan each book</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {!patron ? (
+                  <form onSubmit={lookupPatron} className="flex gap-2 max-w-md">
+                    <Input
+                      ref={rollNoInput}
+                      placeholder="Roll number"
+                      value={rollNo}
+                      onChange={(e) => setRollNo(e.target.value)}
+                      disabled={busy}
+                    />
+                    <Button type="submit" disabled={busy}>
+                      <UserRound className="h-4 w-4 mr-2" />
+                      Find
+                    </Button>
+                  </form>
+                ) : (
+                  <>
+                    <div
+                      className={`flex items-start justify-between gap-4 p-4 rounded-md border ${patronBlocked ? "border-destructive bg-destructive/5" : "bg-muted"}`}
+                    >
+                      <div>
+                        <p className="font-semibold">{patron.name}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {patron.roll_no} · {patron.email}
+                        </p>
+                        <div className="flex flex-wrap gap-2 mt-2">
+                          <Badge variant={patron.loans >= patron.borrow_limit ? "destructive" : "secondary"}>
+                            {patron.loans} of {patron.borrow_limit} books
+                          </Badge>
+                          {patron.outstanding > 0 && (
+                            <Badge variant={patron.fines_blocked ? "destructive" : "outline"}>
+                              Owes {formatCurrency(patron.outstanding)}
+                            </Badge>
+                          )}
+                        </div>
+                        {patronBlocked && (
+                          <p className="flex items-center gap-1 text-sm text-destructive mt-2">
+                            <TriangleAlert className="h-4 w-4" />
+                            {patron.fines_blocked
+                              ? "Borrowing is blocked until fines are paid"
+                              : "Borrow limit reached"}
+                          </p>
+                        )}
+                      </div>
+                      <Button variant="outline" onClick={nextPatron}>
+                        Next Borrower
+                      </Button>
+                    </div>
+                    <ScanForm
+                      inputRef={barcodeInput}
+                      value={barcode}
+                      onChange={setBarcode}
+                      onSubmit={handleScan}
+                      disabled={busy}
+                      label="Book barcode"
+                    />
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="checkin">
+            <Card>
+              <CardHeader>
+                <CardTitle>Check In</CardTitle>
+                <CardDescription>Scan each returned book to close its loan</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ScanForm
+                  inputRef={barcodeInput}
+                  value={barcode}
+                  onChange={setBarcode}
+                  onSubmit={handleScan}
+                  disabled={busy}
+                  label="Book barcode"
+                />
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+
+        {/* Session Log */}
+        {transactions.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>This Session</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Book</TableHead>
+                    <TableHead>Borrower</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {transactions.map((t) => (
+                    <TableRow key={t.id}>
+                      <TableCell className="text-sm">{format(t.at, "p")}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{t.action === "checkout" ? "Out" : "In"}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <p className="font-medium">{t.bookTitle ?? t.barcode}</p>
+                        {t.accessionNumber && (
+                          <p className="text-xs text-muted-foreground">{t.accessionNumber}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>{t.patronName ?? "—"}</TableCell>
+                      <TableCell className="text-sm">
+                        {t.error ? (
+                          <span className="text-destructive">{t.error}</span>
+                        ) : t.action === "checkout" ? (
+                          t.dueDate && `Due ${format(new Date(t.dueDate), "PP")}`
+                        ) : t.fine ? (
+                          <span className="text-destructive">Fine {formatCurrency(t.fine)}</span>
+                        ) : (
+                          "Returned"
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+};
+
+interface ScanFormProps {
+  inputRef: React.RefObject<HTMLInputElement>;
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: (e: React.FormEvent) => void;
+  disabled: boolean;
+  label: string;
+}
+
+const ScanForm = ({ inputRef, value, onChange, onSubmit, disabled, label }: ScanFormProps) => (
+  <form onSubmit={onSubmit} className="space-y-2 max-w-md">
+    <Label htmlFor="desk_barcode">{label}</Label>
+    <div className="flex gap-2">
+      <Input
+        id="desk_barcode"
+        ref={inputRef}
+        placeholder="Scan or type a barcode"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+        autoComplete="off"
+      />
+      <Button type="submit" disabled={disabled}>
+        <ScanBarcode className="h-4 w-4 mr-2" />
+        Enter
+      </Button>
+    </div>
+  </form>
+);
+
+const SessionStat = ({ label, value }: { label: string; value: string | number }) => (
+  <Card>
+    <CardHeader className="pb-2">
+      <CardTitle className="text-sm font-medium">{label}</CardTitle>
+    </CardHeader>
+    <CardContent>
+      <div className="text-2xl font-bold">{value}</div>
+    </CardContent>
+  </Card>
+);
+
+export default CirculationDesk;
@@ -1,19 +1,47 @@
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { BookOpen, Search } from "lucide-react";
+import { AlertCircle, BookOpen, Search } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import BookCatalog from "@/components/student/BookCatalog";
 import MyBorrowings from "@/components/student/MyBorrowings";
+import MyHolds from "@/components/student/MyHolds";
+import FineBalance from "@/components/student/FineBalance";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import ProfileMenu from "@/components/ProfileMenu";
+import NotificationsMenu from "@/components/NotificationsMenu";
+import SearchSyntaxHelp from "@/components/SearchSyntaxHelp";
+import { parseSearchQuery } from "@/lib/searchQuery";
+import { useDebounce } from "@/hooks/use-debounce";
+import { useCatalogSearchParams } from "@/hooks/use-catalog-search-params";
 
 const StudentDashboard = () => {
   const { user, userRole, signOut, loading } = useAuth();
   const navigate = useNavigate();
-  const [searchQuery, setSearchQuery] = useState("");
+  const [catalogSearch, updateCatalogSearch] = useCatalogSearchParams();
+  const [searchQuery, setSearchQuery] = useState(catalogSearch.query);
+  // The URL and the syntax errors follow the search box once typing pauses
+  const debouncedQuery = useDebounce(searchQuery);
+  const syntaxErrors = useMemo(() => parseSearchQuery(debouncedQuery).errors, [debouncedQuery]);
+
+  // Only typing writes the query; when back/forward changes the URL the box
+  // catches up below rather than overwriting it
+  const writtenQuery = useRef(debouncedQuery);
+
+  useEffect(() => {
+    if (debouncedQuery === writtenQuery.current) return;
+    writtenQuery.current = debouncedQuery;
+    if (debouncedQuery !== catalogSearch.query) {
+      updateCatalogSearch({ query: debouncedQuery, page: 1 }, { replace: true });
+    }
+  }, [debouncedQuery, catalogSearch.query, updateCatalogSearch]);
+
+  // Back/forward navigation and "did you mean" links change the query from outside the box
+  useEffect(() => {
+    setSearchQuery(catalogSearch.query);
+  }, [catalogSearch.query]);
 
   useEffect(() => {
     if (!loading && (!user || userRole !== "student")) {
@@ -48,11 +76,15 @@ const StudentDashboard = () => {
               <p className="text-xs sm:text-sm text-muted-foreground animate-slide-in-left" style={{ animationDelay: "0.1s" }}>Student Portal</p>
             </div>
           </div>
-          <ProfileMenu />
+          <div className="flex items-center gap-2">
+            <NotificationsMenu />
+            <ProfileMenu />
+          </div>
         </div>
       </header>
 
       <main className="container mx-auto px-4 py-8 animate-fade-up">
+        <FineBalance />
         <Tabs defaultValue="catalog" className="space-y-6">
           <TabsList className="grid w-full max-w-md mx-auto grid-cols-3 gap-1 shadow-lg animate-scale-in hover-glow">
             <TabsTrigger value="catalog" className="text-sm sm:text-base transition-all duration-300 hover:scale-105">Browse Books</TabsTrigger>
@@ -71,21 +103,38 @@ const StudentDashboard = () => {
                 <div className="relative animate-fade-in" style={{ animationDelay: "0.2s" }}>
                   <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground transition-all duration-300 animate-pulse" />
                   <Input
-                    placeholder="Search by title, author, or category..."
-                    className="pl-10 transition-all duration-300 focus:scale-105 focus:shadow-lg focus:shadow-primary/30"
+                    placeholder="Search by title, author, publisher, book no or description..."
+                    className="pl-10 pr-12 transition-all duration-300 focus:scale-105 focus:shadow-lg focus:shadow-primary/30"
                     value={searchQuery}
                     onChange={(e) => setSearchQuery(e.target.value)}
+                    aria-invalid={syntaxErrors.length > 0}
                   />
+                  <div className="absolute right-1 top-1">
+                    <SearchSyntaxHelp onInsert={(example) => setSearchQuery(`${searchQuery.trim()} ${example}`.trim())} />
+                  </div>
                 </div>
+                {syntaxErrors.length > 0 && (
+                  <ul className="mt-2 space-y-1 text-sm text-destructive">
+                    {syntaxErrors.map((error) => (
+                      <li key={error.start} className="flex items-start gap-2">
+                        <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                        <span>
+                          <span className="font-mono">{error.fragment}</span>: {error.message}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
               </CardContent>
             </Card>
 
             {/* Book Catalog */}
-            <BookCatalog searchQuery={searchQuery} />
+            <BookCatalog />
           </TabsContent>
 
           <TabsContent value="borrowings" className="space-y-6 animate-fade-in">
             <MyBorrowings showActive={true} />
+            <MyHolds />
           </TabsContent>
 
           <TabsContent value="history" className="space-y-6 animate-fade-in">
@@ -0,0 +1,70 @@
+// Supabase Edge Function: expire-stale-requests
+// Expires pending requests and uncollected approvals past the thresholds in
+// library settings, and notifies the students affected. Ready holds past
+// their pickup window are released to the next student in the queue.
+//
+// The same database function runs hourly from a pg_cron job (see the
+// migration that schedules expire-stale-requests); admins run it on demand
+// from the library settings through this function.
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.81.0'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Missing authorization header' }),
+        { status: 401, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+      )
+    }
+
+    // The database function accepts the service role or an admin, so run it as the caller
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: authHeader }
+        },
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false
+        }
+      }
+    )
+
+    const { data, error } = await supabaseClient.rpc('expire_stale_borrow_requests')
+
+    if (error) {
+      const status = error.message === 'admin_only' ? 403 : 500
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+      )
+    }
+
+    const result = data?.[0] ?? { expired_pending: 0, expired_approvals: 0, expired_holds: 0 }
+
+    return new Response(
+      JSON.stringify({ success: true, ...result }),
+      { status: 200, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+    )
+  } catch (error) {
+    console.error('expire-stale-requests unexpected error', error)
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+    )
+  }
+})
@@ -0,0 +1,224 @@
+// Supabase Edge Function: export-catalog
+// Exports the catalog, or the books matching a search, as CSV, JSON or XLSX
+// with availability and the details of every copy. Runs as the calling admin;
+// export_catalog rejects anyone else.
+//
+// Body: { format: 'csv' | 'json' | 'xlsx', filters?: { _query, _terms, ... } }
+// where filters are the arguments of public.search_books.
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.81.0'
+import * as XLSX from 'https://esm.sh/xlsx@0.18.5'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// PostgREST caps each response, so the export is read in pages
+const PAGE_SIZE = 1000
+
+const FILTER_ARGS = [
+  '_query',
+  '_terms',
+  '_category_id',
+  '_publishers',
+  '_languages',
+  '_year_from',
+  '_year_to',
+  '_available_only',
+]
+
+interface ExportCopy {
+  accession_number: string
+  barcode: string
+  condition: string
+  status: string
+  acquired_on: string | null
+  notes: string | null
+}
+
+interface ExportBook {
+  id: string
+  title: string
+  author: string
+  category: string
+  isbn: string | null
+  publisher: string | null
+  year_published: number | null
+  language: string | null
+  description: string | null
+  replacement_cost: number | null
+  total_count: number
+  available_count: number
+  created_at: string
+  copies: ExportCopy[]
+}
+
+const COPY_STATUSES = ['available', 'on_loan', 'on_hold', 'damaged', 'lost', 'retired']
+
+const BOOK_HEADERS = [
+  'Title', 'Author', 'Category', 'ISBN', 'Publisher', 'Year Published', 'Language', 'Description',
+  'Replacement Cost', 'Total Copies', 'Available', 'On Loan', 'On Hold Shelf', 'Damaged', 'Lost', 'Retired',
+  'Accession Numbers', 'Added On',
+]
+
+const COPY_HEADERS = ['Accession No', 'Barcode', 'Title', 'ISBN', 'Condition', 'Status', 'Acquired On', 'Notes']
+
+const bookRow = (book: ExportBook) => {
+  const statusCount = (status: string) => book.copies.filter((copy) => copy.status === status).length
+  return [
+    book.title,
+    book.author,
+    book.category,
+    book.isbn,
+    book.publisher,
+    book.year_published,
+    book.language,
+    book.description,
+    book.replacement_cost,
+    book.total_count,
+    book.available_count,
+    ...COPY_STATUSES.slice(1).map(statusCount),
+    book.copies.map((copy) => copy.accession_number).join('; '),
+    book.created_at.slice(0, 10),
+  ]
+}
+
+const copyRows = (books: ExportBook[]) =>
+  books.flatMap((book) =>
+    book.copies.map((copy) => [
+      copy.accession_number,
+      copy.barcode,
+      book.title,
+      book.isbn,
+      copy.condition,
+      copy.status,
+      copy.acquired_on,
+      copy.notes,
+    ])
+  )
+
+// Imported text can start like a formula; spreadsheet apps would run it on open
+const looksLikeFormula = (cell: unknown) => typeof cell === 'string' && /^[=+\-@\t\r]/.test(cell)
+
+const toCsv = (rows: unknown[][]) => {
+  const escape = (cell: unknown) => {
+    const text = cell === null || cell === undefined ? '' : String(cell)
+    const value = looksLikeFormula(cell) ? `'${text}` : text
+    return /[",\r\n]/.test(value) || /^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+  }
+  // The byte-order mark makes Excel read the file as UTF-8
+  return '\uFEFF' + rows.map((row) => row.map(escape).join(',')).join('\r\n')
+}
+
+// Text is written as string cells so nothing is read back as a formula
+const toSheet = (rows: unknown[][]) =>
+  XLSX.utils.aoa_to_sheet(
+    rows.map((row) => row.map((cell) => (typeof cell === 'string' ? { t: 's', v: cell } : cell)))
+  )
+
+const toXlsx = (books: ExportBook[]) => {
+  const workbook = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(workbook, toSheet([BOOK_HEADERS, ...books.map(bookRow)]), 'Books')
+  XLSX.utils.book_append_sheet(workbook, toSheet([COPY_HEADERS, ...copyRows(books)]), 'Copies')
+  return new Uint8Array(XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }))
+}
+
+const toJson = (books: ExportBook[]) =>
+  JSON.stringify(
+    {
+      exported_at: new Date().toISOString(),
+      count: books.length,
+      books: books.map((book) => ({
+        ...book,
+        copy_counts: Object.fromEntries(
+          COPY_STATUSES.map((status) => [status, book.copies.filter((copy) => copy.status === status).length])
+        ),
+      })),
+    },
+    null,
+    2
+  )
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Missing authorization header' }),
+        { status: 401, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+      )
+    }
+
+    const { format, filters } = await req.json()
+    if (!['csv', 'json', 'xlsx'].includes(format)) {
+      return new Response(
+        JSON.stringify({ error: 'Format must be csv, json or xlsx' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+      )
+    }
+
+    // Only the search arguments are passed through to the database
+    const args = Object.fromEntries(
+      Object.entries(filters ?? {}).filter(([key, value]) => FILTER_ARGS.includes(key) && value !== null)
+    )
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: authHeader }
+        },
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false
+        }
+      }
+    )
+
+    const books: ExportBook[] = []
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabaseClient
+        .rpc('export_catalog', args)
+        .range(from, from + PAGE_SIZE - 1)
+
+      if (error) {
+        const status = error.message === 'admin_only' ? 403 : 500
+        return new Response(
+          JSON.stringify({ error: error.message }),
+          { status, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+        )
+      }
+
+      books.push(...(data as ExportBook[]))
+      if (data.length < PAGE_SIZE) break
+    }
+
+    const body =
+      format === 'xlsx' ? toXlsx(books)
+      : format === 'json' ? toJson(books)
+      : toCsv([BOOK_HEADERS, ...books.map(bookRow)])
+
+    // Sent as a plain download so the client receives the bytes untouched
+    return new Response(body, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Content-Disposition': `attachment; filename="catalog.${format}"`,
+        ...corsHeaders,
+      },
+    })
+  } catch (error) {
+    console.error('export-catalog unexpected error', error)
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+    )
+  }
+})
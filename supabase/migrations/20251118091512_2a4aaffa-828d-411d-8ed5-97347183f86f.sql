@@ -0,0 +1,211 @@
+-- Per-copy item inventory: every physical copy of a book is tracked individually
+CREATE TYPE public.copy_condition AS ENUM ('new', 'good', 'fair', 'poor', 'damaged');
+CREATE TYPE public.copy_status AS ENUM ('available', 'on_loan', 'damaged', 'lost', 'retired');
+
+CREATE SEQUENCE public.book_copy_accession_seq;
+
+-- Create book_copies table
+CREATE TABLE public.book_copies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  book_id UUID NOT NULL REFERENCES public.books(id) ON DELETE CASCADE,
+  accession_number TEXT NOT NULL UNIQUE
+    DEFAULT ('ACC' || lpad(nextval('public.book_copy_accession_seq')::text, 6, '0')),
+  barcode TEXT NOT NULL UNIQUE,
+  condition copy_condition NOT NULL DEFAULT 'good',
+  status copy_status NOT NULL DEFAULT 'available',
+  notes TEXT,
+  acquired_on DATE DEFAULT CURRENT_DATE,
+  retired_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX book_copies_book_id_status_idx ON public.book_copies (book_id, status);
+
+-- Enable RLS on book_copies
+ALTER TABLE public.book_copies ENABLE ROW LEVEL SECURITY;
+
+-- Book copies policies
+CREATE POLICY "Everyone can view book copies"
+  ON public.book_copies FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can insert book copies"
+  ON public.book_copies FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update book copies"
+  ON public.book_copies FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete book copies"
+  ON public.book_copies FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Copies without a printed barcode are scanned by their accession number
+CREATE OR REPLACE FUNCTION public.set_book_copy_barcode()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+AS $$
+BEGIN
+  NEW.barcode = COALESCE(NULLIF(TRIM(NEW.barcode), ''), NEW.accession_number);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_book_copy_barcode
+  BEFORE INSERT OR UPDATE OF barcode ON public.book_copies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_book_copy_barcode();
+
+CREATE TRIGGER update_book_copies_updated_at
+  BEFORE UPDATE ON public.book_copies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- books.total_count and books.available_count are now derived from copy status
+CREATE OR REPLACE FUNCTION public.refresh_book_counts(_book_id UUID)
+RETURNS VOID
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.books
+  SET
+    total_count = (
+      SELECT COUNT(*) FROM public.book_copies
+      WHERE book_id = _book_id AND status NOT IN ('lost', 'retired')
+    ),
+    available_count = (
+      SELECT COUNT(*) FROM public.book_copies
+      WHERE book_id = _book_id AND status = 'available'
+    )
+  WHERE id = _book_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.handle_book_copy_change()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM public.refresh_book_counts(OLD.book_id);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND (TG_OP = 'INSERT' OR NEW.book_id <> OLD.book_id) THEN
+    PERFORM public.refresh_book_counts(NEW.book_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_book_copy_change
+  AFTER INSERT OR UPDATE OF status, book_id OR DELETE ON public.book_copies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_book_copy_change();
+
+-- New books start empty; their counts grow as copies are added
+ALTER TABLE public.books ALTER COLUMN total_count SET DEFAULT 0;
+ALTER TABLE public.books ALTER COLUMN available_count SET DEFAULT 0;
+
+-- Loans issue a specific copy
+ALTER TABLE public.borrow_requests
+  ADD COLUMN copy_id UUID REFERENCES public.book_copies(id) ON DELETE SET NULL;
+
+CREATE INDEX borrow_requests_copy_id_idx ON public.borrow_requests (copy_id);
+
+-- Backfill one copy per counted book, plus enough to cover every active loan
+INSERT INTO public.book_copies (book_id)
+SELECT b.id
+FROM public.books b
+CROSS JOIN LATERAL generate_series(
+  1,
+  GREATEST(
+    b.total_count,
+    (SELECT COUNT(*) FROM public.borrow_requests r WHERE r.book_id = b.id AND r.status = 'approved')
+  )
+);
+
+WITH ranked_loans AS (
+  SELECT id, book_id, ROW_NUMBER() OVER (PARTITION BY book_id ORDER BY created_at) AS rn
+  FROM public.borrow_requests
+  WHERE status = 'approved'
+),
+ranked_copies AS (
+  SELECT id, book_id, ROW_NUMBER() OVER (PARTITION BY book_id ORDER BY accession_number) AS rn
+  FROM public.book_copies
+)
+UPDATE public.borrow_requests r
+SET copy_id = c.id
+FROM ranked_loans l
+JOIN ranked_copies c ON c.book_id = l.book_id AND c.rn = l.rn
+WHERE r.id = l.id;
+
+UPDATE public.book_copies
+SET status = 'on_loan'
+WHERE id IN (
+  SELECT copy_id FROM public.borrow_requests
+  WHERE status = 'approved' AND copy_id IS NOT NULL
+);
+
+-- Replace the counter-based availability trigger with copy assignment
+DROP TRIGGER IF EXISTS on_borrow_request_status_change ON public.borrow_requests;
+DROP FUNCTION IF EXISTS public.update_book_availability();
+
+CREATE OR REPLACE FUNCTION public.sync_borrow_request_copy()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- When request is approved, issue a specific available copy
+  IF NEW.status = 'approved' AND (TG_OP = 'INSERT' OR OLD.status != 'approved') THEN
+    IF NEW.copy_id IS NULL THEN
+      SELECT id INTO NEW.copy_id
+      FROM public.book_copies
+      WHERE book_id = NEW.book_id AND status = 'available'
+      ORDER BY accession_number
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED;
+
+      IF NEW.copy_id IS NULL THEN
+        RAISE EXCEPTION 'No available copy of this book to issue';
+      END IF;
+    ELSE
+      PERFORM 1
+      FROM public.book_copies
+      WHERE id = NEW.copy_id AND book_id = NEW.book_id AND status = 'available'
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'The selected copy is not available for this book';
+      END IF;
+    END IF;
+
+    UPDATE public.book_copies
+    SET status = 'on_loan'
+    WHERE id = NEW.copy_id;
+  END IF;
+
+  -- When an approved loan is returned or rejected, the copy goes back on the shelf
+  IF TG_OP = 'UPDATE' AND OLD.status = 'approved' AND NEW.status IN ('returned', 'rejected')
+     AND NEW.copy_id IS NOT NULL THEN
+    UPDATE public.book_copies
+    SET status = 'available'
+    WHERE id = NEW.copy_id AND status = 'on_loan';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_borrow_request_status_change
+  BEFORE INSERT OR UPDATE OF status ON public.borrow_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_borrow_request_copy();
@@ -0,0 +1,63 @@
+-- Borrow limit: pending and approved requests count against profiles.borrow_limit
+CREATE OR REPLACE FUNCTION public.get_borrow_eligibility(_student_id UUID)
+RETURNS TABLE (used INTEGER, borrow_limit INTEGER, eligible BOOLEAN)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    counts.used,
+    counts.borrow_limit,
+    counts.used < counts.borrow_limit AS eligible
+  FROM (
+    SELECT
+      (
+        SELECT COUNT(*)::INTEGER
+        FROM public.borrow_requests
+        WHERE student_id = p.id AND status IN ('pending', 'approved')
+      ) AS used,
+      COALESCE(p.borrow_limit, 3) AS borrow_limit
+    FROM public.profiles p
+    WHERE p.id = _student_id
+      AND (_student_id = auth.uid() OR public.has_role(auth.uid(), 'admin'))
+  ) counts
+$$;
+
+-- Reject new requests over the limit with a machine-readable error:
+-- MESSAGE carries the error code and DETAIL a JSON payload for the client
+CREATE OR REPLACE FUNCTION public.enforce_borrow_limit()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _limit INTEGER;
+  _used INTEGER;
+BEGIN
+  -- Lock the profile so concurrent requests from the same student are counted one at a time
+  SELECT COALESCE(borrow_limit, 3) INTO _limit
+  FROM public.profiles
+  WHERE id = NEW.student_id
+  FOR UPDATE;
+
+  SELECT COUNT(*) INTO _used
+  FROM public.borrow_requests
+  WHERE student_id = NEW.student_id AND status IN ('pending', 'approved');
+
+  IF _used >= _limit THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'borrow_limit_reached',
+      DETAIL = json_build_object('used', _used, 'limit', _limit)::TEXT,
+      HINT = format('%s of %s used', _used, _limit);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_borrow_limit
+  BEFORE INSERT ON public.borrow_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_borrow_limit();
@@ -0,0 +1,2 @@
+-- Copies set aside on the hold shelf for the next student in the queue
+ALTER TYPE public.copy_status ADD VALUE IF NOT EXISTS 'on_hold' AFTER 'on_loan';
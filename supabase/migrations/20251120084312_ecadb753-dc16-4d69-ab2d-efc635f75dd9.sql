@@ -0,0 +1,357 @@
+-- Library-wide settings (single row)
+CREATE TABLE public.library_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+  hold_pickup_days INTEGER NOT NULL DEFAULT 3 CHECK (hold_pickup_days > 0),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO public.library_settings DEFAULT VALUES;
+
+ALTER TABLE public.library_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view library settings"
+  ON public.library_settings FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can update library settings"
+  ON public.library_settings FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_library_settings_updated_at
+  BEFORE UPDATE ON public.library_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Holds queue for books with no copy on the shelf
+CREATE TYPE public.hold_status AS ENUM ('waiting', 'ready', 'fulfilled', 'expired', 'cancelled');
+
+CREATE TABLE public.holds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  book_id UUID NOT NULL REFERENCES public.books(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  status hold_status NOT NULL DEFAULT 'waiting',
+  copy_id UUID REFERENCES public.book_copies(id) ON DELETE SET NULL,
+  ready_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- A student can only queue once per book
+CREATE UNIQUE INDEX holds_active_student_book_idx
+  ON public.holds (book_id, student_id)
+  WHERE status IN ('waiting', 'ready');
+
+CREATE INDEX holds_book_queue_idx ON public.holds (book_id, status, created_at);
+
+ALTER TABLE public.holds ENABLE ROW LEVEL SECURITY;
+
+-- Holds are written through the functions below
+CREATE POLICY "Students can view their own holds"
+  ON public.holds FOR SELECT
+  USING (auth.uid() = student_id);
+
+CREATE POLICY "Admins can view all holds"
+  ON public.holds FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update holds"
+  ON public.holds FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_holds_updated_at
+  BEFORE UPDATE ON public.holds
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Move waiting holds to "ready for pickup" while copies of the book are on the shelf
+CREATE OR REPLACE FUNCTION public.promote_next_hold(_book_id UUID)
+RETURNS INTEGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _hold_id UUID;
+  _copy_id UUID;
+  _pickup_days INTEGER;
+  _promoted INTEGER := 0;
+BEGIN
+  SELECT hold_pickup_days INTO _pickup_days FROM public.library_settings;
+
+  LOOP
+    SELECT id INTO _hold_id
+    FROM public.holds
+    WHERE book_id = _book_id AND status = 'waiting'
+    ORDER BY created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED;
+
+    EXIT WHEN _hold_id IS NULL;
+
+    SELECT id INTO _copy_id
+    FROM public.book_copies
+    WHERE book_id = _book_id AND status = 'available'
+    ORDER BY accession_number
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED;
+
+    EXIT WHEN _copy_id IS NULL;
+
+    UPDATE public.book_copies SET status = 'on_hold' WHERE id = _copy_id;
+
+    UPDATE public.holds
+    SET
+      status = 'ready',
+      copy_id = _copy_id,
+      ready_at = NOW(),
+      expires_at = NOW() + make_interval(days => COALESCE(_pickup_days, 3))
+    WHERE id = _hold_id;
+
+    _promoted := _promoted + 1;
+  END LOOP;
+
+  RETURN _promoted;
+END;
+$$;
+
+-- Release a ready hold's copy and offer it to the next student in the queue
+CREATE OR REPLACE FUNCTION public.release_hold(_hold_id UUID, _status hold_status)
+RETURNS VOID
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _hold public.holds%ROWTYPE;
+BEGIN
+  UPDATE public.holds
+  SET status = _status
+  WHERE id = _hold_id AND status IN ('waiting', 'ready')
+  RETURNING * INTO _hold;
+
+  IF _hold.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- The copy trigger promotes the next hold once the copy is available again
+  IF _hold.copy_id IS NOT NULL THEN
+    UPDATE public.book_copies
+    SET status = 'available'
+    WHERE id = _hold.copy_id AND status = 'on_hold';
+  END IF;
+END;
+$$;
+
+-- Expire holds that were not picked up in time; the copy rolls to the next student
+CREATE OR REPLACE FUNCTION public.expire_ready_holds()
+RETURNS INTEGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _hold_id UUID;
+  _expired INTEGER := 0;
+BEGIN
+  FOR _hold_id IN
+    SELECT id FROM public.holds
+    WHERE status = 'ready' AND expires_at < NOW()
+    ORDER BY expires_at
+  LOOP
+    PERFORM public.release_hold(_hold_id, 'expired');
+    _expired := _expired + 1;
+  END LOOP;
+
+  RETURN _expired;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.place_hold(_book_id UUID)
+RETURNS UUID
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _hold_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'student') THEN
+    RAISE EXCEPTION 'Only students can place holds';
+  END IF;
+
+  PERFORM public.expire_ready_holds();
+
+  -- Serialize against copies being issued or returned for this book
+  PERFORM 1 FROM public.books WHERE id = _book_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING MESSAGE = 'book_not_found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.book_copies
+    WHERE book_id = _book_id AND status = 'available'
+  ) THEN
+    RAISE EXCEPTION USING MESSAGE = 'hold_copies_available';
+  END IF;
+
+  INSERT INTO public.holds (book_id, student_id)
+  VALUES (_book_id, auth.uid())
+  RETURNING id INTO _hold_id;
+
+  RETURN _hold_id;
+EXCEPTION
+  WHEN unique_violation THEN
+    RAISE EXCEPTION USING MESSAGE = 'hold_already_placed';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cancel_hold(_hold_id UUID)
+RETURNS VOID
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.holds
+    WHERE id = _hold_id
+      AND status IN ('waiting', 'ready')
+      AND (student_id = auth.uid() OR public.has_role(auth.uid(), 'admin'))
+  ) THEN
+    RAISE EXCEPTION USING MESSAGE = 'hold_not_found';
+  END IF;
+
+  PERFORM public.release_hold(_hold_id, 'cancelled');
+END;
+$$;
+
+-- The signed-in student's active holds with their position in each queue
+CREATE OR REPLACE FUNCTION public.get_my_holds()
+RETURNS TABLE (
+  id UUID,
+  book_id UUID,
+  status hold_status,
+  queue_position INTEGER,
+  ready_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ
+)
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.expire_ready_holds();
+
+  RETURN QUERY
+  SELECT
+    h.id,
+    h.book_id,
+    h.status,
+    CASE
+      WHEN h.status = 'ready' THEN 0
+      ELSE (
+        SELECT COUNT(*)::INTEGER + 1
+        FROM public.holds q
+        WHERE q.book_id = h.book_id
+          AND q.status = 'waiting'
+          AND q.created_at < h.created_at
+      )
+    END,
+    h.ready_at,
+    h.expires_at,
+    h.created_at
+  FROM public.holds h
+  WHERE h.student_id = auth.uid() AND h.status IN ('waiting', 'ready')
+  ORDER BY h.created_at;
+END;
+$$;
+
+-- A copy coming back on the shelf is offered to the hold queue first
+CREATE OR REPLACE FUNCTION public.handle_book_copy_change()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM public.refresh_book_counts(OLD.book_id);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND (TG_OP = 'INSERT' OR NEW.book_id <> OLD.book_id) THEN
+    PERFORM public.refresh_book_counts(NEW.book_id);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.status = 'available'
+     AND (TG_OP = 'INSERT' OR OLD.status <> 'available') THEN
+    PERFORM public.promote_next_hold(NEW.book_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Approving a request from a student whose hold is ready issues the held copy
+CREATE OR REPLACE FUNCTION public.sync_borrow_request_copy()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _hold_id UUID;
+  _held_copy_id UUID;
+BEGIN
+  -- When request is approved, issue a specific copy
+  IF NEW.status = 'approved' AND (TG_OP = 'INSERT' OR OLD.status != 'approved') THEN
+    SELECT id, copy_id INTO _hold_id, _held_copy_id
+    FROM public.holds
+    WHERE book_id = NEW.book_id AND student_id = NEW.student_id AND status = 'ready'
+    FOR UPDATE;
+
+    IF _hold_id IS NOT NULL AND (NEW.copy_id IS NULL OR NEW.copy_id = _held_copy_id) THEN
+      NEW.copy_id = _held_copy_id;
+
+      UPDATE public.holds SET status = 'fulfilled' WHERE id = _hold_id;
+    ELSIF NEW.copy_id IS NULL THEN
+      SELECT id INTO NEW.copy_id
+      FROM public.book_copies
+      WHERE book_id = NEW.book_id AND status = 'available'
+      ORDER BY accession_number
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED;
+
+      IF NEW.copy_id IS NULL THEN
+        RAISE EXCEPTION 'No available copy of this book to issue';
+      END IF;
+    ELSE
+      PERFORM 1
+      FROM public.book_copies
+      WHERE id = NEW.copy_id AND book_id = NEW.book_id AND status = 'available'
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'The selected copy is not available for this book';
+      END IF;
+    END IF;
+
+    UPDATE public.book_copies
+    SET status = 'on_loan'
+    WHERE id = NEW.copy_id;
+  END IF;
+
+  -- When an approved loan is returned or rejected, the copy goes back on the shelf
+  -- (and from there to the next hold in the queue)
+  IF TG_OP = 'UPDATE' AND OLD.status = 'approved' AND NEW.status IN ('returned', 'rejected')
+     AND NEW.copy_id IS NOT NULL THEN
+    UPDATE public.book_copies
+    SET status = 'available'
+    WHERE id = NEW.copy_id AND status = 'on_loan';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,72 @@
+-- Loan renewals
+ALTER TABLE public.library_settings
+  ADD COLUMN renewal_period_days INTEGER NOT NULL DEFAULT 14 CHECK (renewal_period_days > 0),
+  ADD COLUMN max_renewals INTEGER NOT NULL DEFAULT 2 CHECK (max_renewals >= 0);
+
+ALTER TABLE public.borrow_requests
+  ADD COLUMN renewal_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN last_renewed_at TIMESTAMPTZ;
+
+-- Extend an active loan by the renewal period (students their own loans, admins any loan)
+CREATE OR REPLACE FUNCTION public.renew_loan(_request_id UUID)
+RETURNS DATE
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _loan public.borrow_requests%ROWTYPE;
+  _settings public.library_settings%ROWTYPE;
+  _waiting_holds INTEGER;
+  _new_due_date DATE;
+BEGIN
+  SELECT * INTO _loan
+  FROM public.borrow_requests
+  WHERE id = _request_id
+    AND (student_id = auth.uid() OR public.has_role(auth.uid(), 'admin'))
+  FOR UPDATE;
+
+  IF _loan.id IS NULL THEN
+    RAISE EXCEPTION USING MESSAGE = 'loan_not_found';
+  END IF;
+
+  IF _loan.status != 'approved' OR _loan.due_date IS NULL THEN
+    RAISE EXCEPTION USING MESSAGE = 'loan_not_active';
+  END IF;
+
+  IF _loan.due_date < CURRENT_DATE THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'renewal_overdue',
+      DETAIL = json_build_object('due_date', _loan.due_date)::TEXT;
+  END IF;
+
+  SELECT * INTO _settings FROM public.library_settings;
+
+  IF _loan.renewal_count >= _settings.max_renewals THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'renewal_limit_reached',
+      DETAIL = json_build_object('renewals', _loan.renewal_count, 'max', _settings.max_renewals)::TEXT;
+  END IF;
+
+  SELECT COUNT(*) INTO _waiting_holds
+  FROM public.holds
+  WHERE book_id = _loan.book_id AND status = 'waiting';
+
+  IF _waiting_holds > 0 THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'renewal_book_on_hold',
+      DETAIL = json_build_object('holds', _waiting_holds)::TEXT;
+  END IF;
+
+  _new_due_date := GREATEST(_loan.due_date, CURRENT_DATE + _settings.renewal_period_days);
+
+  UPDATE public.borrow_requests
+  SET
+    due_date = _new_due_date,
+    renewal_count = renewal_count + 1,
+    last_renewed_at = NOW()
+  WHERE id = _request_id;
+
+  RETURN _new_due_date;
+END;
+$$;
@@ -0,0 +1,211 @@
+-- Overdue fines
+ALTER TABLE public.library_settings
+  ADD COLUMN fine_per_day NUMERIC(10, 2) NOT NULL DEFAULT 1.00 CHECK (fine_per_day >= 0),
+  ADD COLUMN fine_block_threshold NUMERIC(10, 2) NOT NULL DEFAULT 100.00 CHECK (fine_block_threshold >= 0);
+
+CREATE TYPE public.fine_entry_type AS ENUM ('charge', 'payment', 'waiver');
+CREATE TYPE public.fine_kind AS ENUM ('overdue', 'manual');
+
+-- Fines ledger: charges increase what a student owes, payments and waivers reduce it
+CREATE TABLE public.fines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  borrow_request_id UUID REFERENCES public.borrow_requests(id) ON DELETE SET NULL,
+  entry_type fine_entry_type NOT NULL,
+  kind fine_kind,
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+  reason TEXT,
+  recorded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (entry_type != 'charge' OR kind IS NOT NULL),
+  CHECK (entry_type != 'waiver' OR LENGTH(TRIM(COALESCE(reason, ''))) > 0)
+);
+
+CREATE INDEX fines_student_id_idx ON public.fines (student_id, created_at);
+
+-- A loan is charged for being overdue only once
+CREATE UNIQUE INDEX fines_overdue_charge_idx
+  ON public.fines (borrow_request_id)
+  WHERE entry_type = 'charge' AND kind = 'overdue';
+
+ALTER TABLE public.fines ENABLE ROW LEVEL SECURITY;
+
+-- The ledger is append-only
+CREATE POLICY "Students can view their own fines"
+  ON public.fines FOR SELECT
+  USING (auth.uid() = student_id);
+
+CREATE POLICY "Admins can view all fines"
+  ON public.fines FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can record fine entries"
+  ON public.fines FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin') AND recorded_by = auth.uid());
+
+-- Charge the daily rate for every day a loan was returned late
+CREATE OR REPLACE FUNCTION public.charge_overdue_fine()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _days_late INTEGER;
+  _fine_per_day NUMERIC(10, 2);
+BEGIN
+  IF NEW.status != 'returned' OR OLD.status = 'returned' OR NEW.due_date IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  _days_late := COALESCE(NEW.return_date, CURRENT_DATE) - NEW.due_date;
+
+  IF _days_late <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT fine_per_day INTO _fine_per_day FROM public.library_settings;
+
+  IF _fine_per_day > 0 THEN
+    INSERT INTO public.fines (student_id, borrow_request_id, entry_type, kind, amount, reason)
+    VALUES (
+      NEW.student_id,
+      NEW.id,
+      'charge',
+      'overdue',
+      _days_late * _fine_per_day,
+      format('Returned %s day(s) late', _days_late)
+    )
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER charge_overdue_fine
+  AFTER UPDATE OF status ON public.borrow_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.charge_overdue_fine();
+
+-- Fine that is still accruing on loans that are overdue and not yet returned
+CREATE OR REPLACE FUNCTION public.get_accruing_fine(_student_id UUID)
+RETURNS NUMERIC
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM((CURRENT_DATE - r.due_date) * s.fine_per_day), 0)::NUMERIC(10, 2)
+  FROM public.borrow_requests r
+  CROSS JOIN public.library_settings s
+  WHERE r.student_id = _student_id
+    AND r.status = 'approved'
+    AND r.due_date < CURRENT_DATE
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_fine_balance(_student_id UUID)
+RETURNS TABLE (
+  charged NUMERIC,
+  paid NUMERIC,
+  waived NUMERIC,
+  outstanding NUMERIC,
+  accruing NUMERIC,
+  block_threshold NUMERIC,
+  blocked BOOLEAN
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    totals.charged,
+    totals.paid,
+    totals.waived,
+    totals.charged - totals.paid - totals.waived,
+    totals.accruing,
+    s.fine_block_threshold,
+    totals.charged - totals.paid - totals.waived + totals.accruing > s.fine_block_threshold
+  FROM (
+    SELECT
+      COALESCE(SUM(amount) FILTER (WHERE entry_type = 'charge'), 0)::NUMERIC(10, 2) AS charged,
+      COALESCE(SUM(amount) FILTER (WHERE entry_type = 'payment'), 0)::NUMERIC(10, 2) AS paid,
+      COALESCE(SUM(amount) FILTER (WHERE entry_type = 'waiver'), 0)::NUMERIC(10, 2) AS waived,
+      public.get_accruing_fine(_student_id) AS accruing
+    FROM public.fines
+    WHERE student_id = _student_id
+  ) totals
+  CROSS JOIN public.library_settings s
+  WHERE _student_id = auth.uid() OR public.has_role(auth.uid(), 'admin')
+$$;
+
+-- Every student who owes something, for the admin fines screen
+CREATE OR REPLACE FUNCTION public.get_fine_balances()
+RETURNS TABLE (
+  student_id UUID,
+  name TEXT,
+  email TEXT,
+  roll_no TEXT,
+  outstanding NUMERIC,
+  accruing NUMERIC
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT *
+  FROM (
+    SELECT
+      p.id,
+      p.name,
+      p.email,
+      p.roll_no,
+      COALESCE((
+        SELECT SUM(CASE WHEN f.entry_type = 'charge' THEN f.amount ELSE -f.amount END)
+        FROM public.fines f
+        WHERE f.student_id = p.id
+      ), 0)::NUMERIC(10, 2) AS outstanding,
+      public.get_accruing_fine(p.id) AS accruing
+    FROM public.profiles p
+    WHERE public.has_role(auth.uid(), 'admin')
+  ) balances
+  WHERE balances.outstanding != 0 OR balances.accruing > 0
+  ORDER BY balances.outstanding + balances.accruing DESC
+$$;
+
+-- Students who owe more than the threshold cannot request new books
+CREATE OR REPLACE FUNCTION public.enforce_fine_block()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _owed NUMERIC(10, 2);
+  _threshold NUMERIC(10, 2);
+BEGIN
+  SELECT fine_block_threshold INTO _threshold FROM public.library_settings;
+
+  SELECT
+    COALESCE(SUM(CASE WHEN entry_type = 'charge' THEN amount ELSE -amount END), 0)
+      + public.get_accruing_fine(NEW.student_id)
+  INTO _owed
+  FROM public.fines
+  WHERE student_id = NEW.student_id;
+
+  IF _owed > _threshold THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'fines_outstanding',
+      DETAIL = json_build_object('balance', _owed, 'threshold', _threshold)::TEXT;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_fine_block
+  BEFORE INSERT ON public.borrow_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_fine_block();
@@ -0,0 +1,288 @@
+-- Loan policies keyed by book category and borrower role.
+-- A NULL category is the role's default policy for every other category.
+CREATE TABLE public.loan_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  category TEXT,
+  role app_role NOT NULL,
+  loan_period_days INTEGER NOT NULL DEFAULT 14 CHECK (loan_period_days > 0),
+  max_renewals INTEGER NOT NULL DEFAULT 2 CHECK (max_renewals >= 0),
+  fine_per_day NUMERIC(10, 2) NOT NULL DEFAULT 1.00 CHECK (fine_per_day >= 0),
+  max_items INTEGER NOT NULL DEFAULT 3 CHECK (max_items > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX loan_policies_category_role_idx
+  ON public.loan_policies (LOWER(COALESCE(category, '')), role);
+
+ALTER TABLE public.loan_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view loan policies"
+  ON public.loan_policies FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can insert loan policies"
+  ON public.loan_policies FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update loan policies"
+  ON public.loan_policies FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete loan policies"
+  ON public.loan_policies FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin') AND category IS NOT NULL);
+
+CREATE TRIGGER update_loan_policies_updated_at
+  BEFORE UPDATE ON public.loan_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Default policies carry over the library-wide settings they replace
+INSERT INTO public.loan_policies (category, role, loan_period_days, max_renewals, fine_per_day, max_items)
+SELECT NULL, r.role, s.renewal_period_days, s.max_renewals, s.fine_per_day, 3
+FROM public.library_settings s
+CROSS JOIN (VALUES ('student'::app_role), ('admin'::app_role)) AS r(role);
+
+ALTER TABLE public.library_settings
+  DROP COLUMN renewal_period_days,
+  DROP COLUMN max_renewals,
+  DROP COLUMN fine_per_day;
+
+ALTER TABLE public.borrow_requests
+  ADD COLUMN policy_id UUID REFERENCES public.loan_policies(id) ON DELETE SET NULL;
+
+-- The policy for a borrower and book: category-specific first, then the role default
+CREATE OR REPLACE FUNCTION public.resolve_loan_policy(_student_id UUID, _book_id UUID)
+RETURNS public.loan_policies
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT lp.*
+  FROM public.loan_policies lp
+  JOIN public.books b ON b.id = _book_id
+  WHERE lp.role = CASE
+      WHEN public.has_role(_student_id, 'admin') THEN 'admin'::app_role
+      ELSE 'student'::app_role
+    END
+    AND (lp.category IS NULL OR LOWER(lp.category) = LOWER(b.category))
+  ORDER BY lp.category IS NULL
+  LIMIT 1
+$$;
+
+-- Suggested dates for approving a request under its policy
+CREATE OR REPLACE FUNCTION public.get_loan_terms(_request_id UUID, _issue_date DATE DEFAULT CURRENT_DATE)
+RETURNS TABLE (
+  policy_id UUID,
+  policy_category TEXT,
+  issue_date DATE,
+  due_date DATE,
+  loan_period_days INTEGER,
+  max_renewals INTEGER,
+  fine_per_day NUMERIC,
+  max_items INTEGER
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.category,
+    _issue_date,
+    _issue_date + p.loan_period_days,
+    p.loan_period_days,
+    p.max_renewals,
+    p.fine_per_day,
+    p.max_items
+  FROM public.borrow_requests r
+  CROSS JOIN LATERAL public.resolve_loan_policy(r.student_id, r.book_id) p
+  WHERE r.id = _request_id
+    AND p.id IS NOT NULL
+    AND (r.student_id = auth.uid() OR public.has_role(auth.uid(), 'admin'))
+$$;
+
+-- Enforce the policy: item limits on new requests, dates on approval
+CREATE OR REPLACE FUNCTION public.apply_loan_policy()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _policy public.loan_policies%ROWTYPE;
+  _used INTEGER;
+BEGIN
+  _policy := public.resolve_loan_policy(NEW.student_id, NEW.book_id);
+
+  IF _policy.id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    SELECT COUNT(*) INTO _used
+    FROM public.borrow_requests r
+    JOIN public.books b ON b.id = r.book_id
+    WHERE r.student_id = NEW.student_id
+      AND r.status IN ('pending', 'approved')
+      AND (_policy.category IS NULL OR LOWER(b.category) = LOWER(_policy.category));
+
+    IF _used >= _policy.max_items THEN
+      RAISE EXCEPTION USING
+        MESSAGE = 'policy_max_items_reached',
+        DETAIL = json_build_object('used', _used, 'limit', _policy.max_items, 'category', _policy.category)::TEXT;
+    END IF;
+  END IF;
+
+  IF NEW.status = 'approved' AND (TG_OP = 'INSERT' OR OLD.status != 'approved') THEN
+    NEW.policy_id = _policy.id;
+    NEW.issue_date = COALESCE(NEW.issue_date, CURRENT_DATE);
+    NEW.due_date = COALESCE(NEW.due_date, NEW.issue_date + _policy.loan_period_days);
+
+    IF NEW.due_date < NEW.issue_date THEN
+      RAISE EXCEPTION USING MESSAGE = 'invalid_loan_dates';
+    END IF;
+
+    IF NEW.due_date - NEW.issue_date > _policy.loan_period_days THEN
+      RAISE EXCEPTION USING
+        MESSAGE = 'loan_period_exceeded',
+        DETAIL = json_build_object('max_days', _policy.loan_period_days)::TEXT;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_loan_policy
+  BEFORE INSERT OR UPDATE OF status ON public.borrow_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_loan_policy();
+
+-- Renewals follow the loan's policy
+CREATE OR REPLACE FUNCTION public.renew_loan(_request_id UUID)
+RETURNS DATE
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _loan public.borrow_requests%ROWTYPE;
+  _policy public.loan_policies%ROWTYPE;
+  _waiting_holds INTEGER;
+  _new_due_date DATE;
+BEGIN
+  SELECT * INTO _loan
+  FROM public.borrow_requests
+  WHERE id = _request_id
+    AND (student_id = auth.uid() OR public.has_role(auth.uid(), 'admin'))
+  FOR UPDATE;
+
+  IF _loan.id IS NULL THEN
+    RAISE EXCEPTION USING MESSAGE = 'loan_not_found';
+  END IF;
+
+  IF _loan.status != 'approved' OR _loan.due_date IS NULL THEN
+    RAISE EXCEPTION USING MESSAGE = 'loan_not_active';
+  END IF;
+
+  IF _loan.due_date < CURRENT_DATE THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'renewal_overdue',
+      DETAIL = json_build_object('due_date', _loan.due_date)::TEXT;
+  END IF;
+
+  _policy := public.resolve_loan_policy(_loan.student_id, _loan.book_id);
+
+  IF _loan.renewal_count >= _policy.max_renewals THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'renewal_limit_reached',
+      DETAIL = json_build_object('renewals', _loan.renewal_count, 'max', _policy.max_renewals)::TEXT;
+  END IF;
+
+  SELECT COUNT(*) INTO _waiting_holds
+  FROM public.holds
+  WHERE book_id = _loan.book_id AND status = 'waiting';
+
+  IF _waiting_holds > 0 THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'renewal_book_on_hold',
+      DETAIL = json_build_object('holds', _waiting_holds)::TEXT;
+  END IF;
+
+  _new_due_date := GREATEST(_loan.due_date, CURRENT_DATE + _policy.loan_period_days);
+
+  UPDATE public.borrow_requests
+  SET
+    due_date = _new_due_date,
+    renewal_count = renewal_count + 1,
+    last_renewed_at = NOW()
+  WHERE id = _request_id;
+
+  RETURN _new_due_date;
+END;
+$$;
+
+-- Fines are charged at the loan's policy rate
+CREATE OR REPLACE FUNCTION public.charge_overdue_fine()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _days_late INTEGER;
+  _fine_per_day NUMERIC(10, 2);
+BEGIN
+  IF NEW.status != 'returned' OR OLD.status = 'returned' OR NEW.due_date IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  _days_late := COALESCE(NEW.return_date, CURRENT_DATE) - NEW.due_date;
+
+  IF _days_late <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT fine_per_day INTO _fine_per_day
+  FROM public.resolve_loan_policy(NEW.student_id, NEW.book_id);
+
+  IF _fine_per_day > 0 THEN
+    INSERT INTO public.fines (student_id, borrow_request_id, entry_type, kind, amount, reason)
+    VALUES (
+      NEW.student_id,
+      NEW.id,
+      'charge',
+      'overdue',
+      _days_late * _fine_per_day,
+      format('Returned %s day(s) late', _days_late)
+    )
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_accruing_fine(_student_id UUID)
+RETURNS NUMERIC
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM((CURRENT_DATE - r.due_date) * p.fine_per_day), 0)::NUMERIC(10, 2)
+  FROM public.borrow_requests r
+  CROSS JOIN LATERAL public.resolve_loan_policy(r.student_id, r.book_id) p
+  WHERE r.student_id = _student_id
+    AND r.status = 'approved'
+    AND r.due_date < CURRENT_DATE
+$$;
+
+-- Loans already out are governed by the policy that applies to them today
+UPDATE public.borrow_requests r
+SET policy_id = (public.resolve_loan_policy(r.student_id, r.book_id)).id
+WHERE r.status = 'approved';
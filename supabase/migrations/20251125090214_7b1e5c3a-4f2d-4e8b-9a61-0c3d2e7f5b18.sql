@@ -0,0 +1,298 @@
+-- Library calendar: weekly closures and holiday ranges
+ALTER TABLE public.library_settings
+  ADD COLUMN closed_weekdays SMALLINT[] NOT NULL DEFAULT '{0}'
+    CHECK (closed_weekdays <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[] AND CARDINALITY(closed_weekdays) < 7);
+
+COMMENT ON COLUMN public.library_settings.closed_weekdays IS 'Days of the week the library is closed, 0 = Sunday';
+
+CREATE TABLE public.library_closures (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  reason TEXT NOT NULL CHECK (LENGTH(TRIM(reason)) > 0),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX library_closures_dates_idx ON public.library_closures (start_date, end_date);
+
+ALTER TABLE public.library_closures ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view library closures"
+  ON public.library_closures FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can insert library closures"
+  ON public.library_closures FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update library closures"
+  ON public.library_closures FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete library closures"
+  ON public.library_closures FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.is_library_open(_date DATE)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    NOT EXISTS (
+      SELECT 1 FROM public.library_settings
+      WHERE EXTRACT(DOW FROM _date)::SMALLINT = ANY(closed_weekdays)
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.library_closures
+      WHERE _date BETWEEN start_date AND end_date
+    )
+$$;
+
+-- The first day on or after _date that the library is open
+CREATE OR REPLACE FUNCTION public.next_open_day(_date DATE)
+RETURNS DATE
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT d::DATE
+      FROM generate_series(_date, _date + 366, INTERVAL '1 day') AS d
+      WHERE public.is_library_open(d::DATE)
+      ORDER BY d
+      LIMIT 1
+    ),
+    _date
+  )
+$$;
+
+-- Open days after _from up to and including _to
+CREATE OR REPLACE FUNCTION public.count_open_days(_from DATE, _to DATE)
+RETURNS INTEGER
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COUNT(*)::INTEGER
+  FROM generate_series(_from + 1, _to, INTERVAL '1 day') AS d
+  WHERE public.is_library_open(d::DATE)
+$$;
+
+-- Suggested due dates land on the first open day after the loan period
+CREATE OR REPLACE FUNCTION public.get_loan_terms(_request_id UUID, _issue_date DATE DEFAULT CURRENT_DATE)
+RETURNS TABLE (
+  policy_id UUID,
+  policy_category TEXT,
+  issue_date DATE,
+  due_date DATE,
+  loan_period_days INTEGER,
+  max_renewals INTEGER,
+  fine_per_day NUMERIC,
+  max_items INTEGER
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.category,
+    _issue_date,
+    public.next_open_day(_issue_date + p.loan_period_days),
+    p.loan_period_days,
+    p.max_renewals,
+    p.fine_per_day,
+    p.max_items
+  FROM public.borrow_requests r
+  CROSS JOIN LATERAL public.resolve_loan_policy(r.student_id, r.book_id) p
+  WHERE r.id = _request_id
+    AND p.id IS NOT NULL
+    AND (r.student_id = auth.uid() OR public.has_role(auth.uid(), 'admin'))
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_loan_policy()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _policy public.loan_policies%ROWTYPE;
+  _used INTEGER;
+  _latest_due_date DATE;
+BEGIN
+  _policy := public.resolve_loan_policy(NEW.student_id, NEW.book_id);
+
+  IF _policy.id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    SELECT COUNT(*) INTO _used
+    FROM public.borrow_requests r
+    JOIN public.books b ON b.id = r.book_id
+    WHERE r.student_id = NEW.student_id
+      AND r.status IN ('pending', 'approved')
+      AND (_policy.category IS NULL OR LOWER(b.category) = LOWER(_policy.category));
+
+    IF _used >= _policy.max_items THEN
+      RAISE EXCEPTION USING
+        MESSAGE = 'policy_max_items_reached',
+        DETAIL = json_build_object('used', _used, 'limit', _policy.max_items, 'category', _policy.category)::TEXT;
+    END IF;
+  END IF;
+
+  IF NEW.status = 'approved' AND (TG_OP = 'INSERT' OR OLD.status != 'approved') THEN
+    NEW.policy_id = _policy.id;
+    NEW.issue_date = COALESCE(NEW.issue_date, CURRENT_DATE);
+    _latest_due_date := public.next_open_day(NEW.issue_date + _policy.loan_period_days);
+    NEW.due_date = COALESCE(NEW.due_date, _latest_due_date);
+
+    IF NEW.due_date < NEW.issue_date THEN
+      RAISE EXCEPTION USING MESSAGE = 'invalid_loan_dates';
+    END IF;
+
+    IF NEW.due_date > _latest_due_date THEN
+      RAISE EXCEPTION USING
+        MESSAGE = 'loan_period_exceeded',
+        DETAIL = json_build_object('max_days', _policy.loan_period_days)::TEXT;
+    END IF;
+
+    IF NOT public.is_library_open(NEW.due_date) THEN
+      RAISE EXCEPTION USING
+        MESSAGE = 'due_date_closed',
+        DETAIL = json_build_object('due_date', NEW.due_date)::TEXT;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.renew_loan(_request_id UUID)
+RETURNS DATE
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _loan public.borrow_requests%ROWTYPE;
+  _policy public.loan_policies%ROWTYPE;
+  _waiting_holds INTEGER;
+  _new_due_date DATE;
+BEGIN
+  SELECT * INTO _loan
+  FROM public.borrow_requests
+  WHERE id = _request_id
+    AND (student_id = auth.uid() OR public.has_role(auth.uid(), 'admin'))
+  FOR UPDATE;
+
+  IF _loan.id IS NULL THEN
+    RAISE EXCEPTION USING MESSAGE = 'loan_not_found';
+  END IF;
+
+  IF _loan.status != 'approved' OR _loan.due_date IS NULL THEN
+    RAISE EXCEPTION USING MESSAGE = 'loan_not_active';
+  END IF;
+
+  IF _loan.due_date < CURRENT_DATE THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'renewal_overdue',
+      DETAIL = json_build_object('due_date', _loan.due_date)::TEXT;
+  END IF;
+
+  _policy := public.resolve_loan_policy(_loan.student_id, _loan.book_id);
+
+  IF _loan.renewal_count >= _policy.max_renewals THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'renewal_limit_reached',
+      DETAIL = json_build_object('renewals', _loan.renewal_count, 'max', _policy.max_renewals)::TEXT;
+  END IF;
+
+  SELECT COUNT(*) INTO _waiting_holds
+  FROM public.holds
+  WHERE book_id = _loan.book_id AND status = 'waiting';
+
+  IF _waiting_holds > 0 THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'renewal_book_on_hold',
+      DETAIL = json_build_object('holds', _waiting_holds)::TEXT;
+  END IF;
+
+  _new_due_date := GREATEST(_loan.due_date, public.next_open_day(CURRENT_DATE + _policy.loan_period_days));
+
+  UPDATE public.borrow_requests
+  SET
+    due_date = _new_due_date,
+    renewal_count = renewal_count + 1,
+    last_renewed_at = NOW()
+  WHERE id = _request_id;
+
+  RETURN _new_due_date;
+END;
+$$;
+
+-- Days the library is closed do not count towards overdue fines
+CREATE OR REPLACE FUNCTION public.charge_overdue_fine()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _days_late INTEGER;
+  _fine_per_day NUMERIC(10, 2);
+BEGIN
+  IF NEW.status != 'returned' OR OLD.status = 'returned' OR NEW.due_date IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  _days_late := public.count_open_days(NEW.due_date, COALESCE(NEW.return_date, CURRENT_DATE));
+
+  IF _days_late <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT fine_per_day INTO _fine_per_day
+  FROM public.resolve_loan_policy(NEW.student_id, NEW.book_id);
+
+  IF _fine_per_day > 0 THEN
+    INSERT INTO public.fines (student_id, borrow_request_id, entry_type, kind, amount, reason)
+    VALUES (
+      NEW.student_id,
+      NEW.id,
+      'charge',
+      'overdue',
+      _days_late * _fine_per_day,
+      format('Returned %s open day(s) late', _days_late)
+    )
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_accruing_fine(_student_id UUID)
+RETURNS NUMERIC
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(public.count_open_days(r.due_date, CURRENT_DATE) * p.fine_per_day), 0)::NUMERIC(10, 2)
+  FROM public.borrow_requests r
+  CROSS JOIN LATERAL public.resolve_loan_policy(r.student_id, r.book_id) p
+  WHERE r.student_id = _student_id
+    AND r.status = 'approved'
+    AND r.due_date < CURRENT_DATE
+$$;
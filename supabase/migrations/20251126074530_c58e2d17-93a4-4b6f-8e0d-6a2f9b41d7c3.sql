@@ -0,0 +1,157 @@
+-- Circulation desk: walk-up checkout and check-in by roll number and barcode
+
+-- A borrower looked up by roll number, with what would stop them borrowing
+CREATE OR REPLACE FUNCTION public.get_desk_patron(_roll_no TEXT)
+RETURNS TABLE (
+  student_id UUID,
+  name TEXT,
+  email TEXT,
+  roll_no TEXT,
+  loans INTEGER,
+  borrow_limit INTEGER,
+  outstanding NUMERIC,
+  fines_blocked BOOLEAN
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.name,
+    p.email,
+    p.roll_no,
+    e.used,
+    e.borrow_limit,
+    f.outstanding + f.accruing,
+    f.blocked
+  FROM public.profiles p
+  CROSS JOIN LATERAL public.get_borrow_eligibility(p.id) e
+  CROSS JOIN LATERAL public.get_fine_balance(p.id) f
+  WHERE LOWER(p.roll_no) = LOWER(TRIM(_roll_no))
+    AND public.has_role(auth.uid(), 'admin')
+  LIMIT 1
+$$;
+
+-- Issue the scanned copy straight to the borrower. The loan goes through the
+-- same triggers as an approved request, so limits, fine blocks and loan
+-- policies apply exactly as they do online.
+CREATE OR REPLACE FUNCTION public.desk_checkout(_student_id UUID, _barcode TEXT)
+RETURNS TABLE (
+  request_id UUID,
+  book_title TEXT,
+  accession_number TEXT,
+  due_date DATE
+)
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _copy public.book_copies%ROWTYPE;
+  _request public.borrow_requests%ROWTYPE;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION USING MESSAGE = 'admin_only';
+  END IF;
+
+  SELECT c.* INTO _copy
+  FROM public.book_copies c
+  WHERE c.barcode = TRIM(_barcode) OR c.accession_number = UPPER(TRIM(_barcode))
+  FOR UPDATE;
+
+  IF _copy.id IS NULL THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'copy_not_found',
+      DETAIL = json_build_object('barcode', _barcode)::TEXT;
+  END IF;
+
+  -- A copy on the hold shelf can only go to the student it is held for
+  IF _copy.status != 'available' AND NOT (
+    _copy.status = 'on_hold' AND EXISTS (
+      SELECT 1 FROM public.holds
+      WHERE copy_id = _copy.id AND student_id = _student_id AND status = 'ready'
+    )
+  ) THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'copy_not_available',
+      DETAIL = json_build_object('accession_number', _copy.accession_number, 'status', _copy.status)::TEXT;
+  END IF;
+
+  INSERT INTO public.borrow_requests (student_id, book_id, copy_id, status, issue_date, remarks)
+  VALUES (_student_id, _copy.book_id, _copy.id, 'approved', CURRENT_DATE, 'Issued at the circulation desk')
+  RETURNING * INTO _request;
+
+  RETURN QUERY
+  SELECT _request.id, b.title, _copy.accession_number, _request.due_date
+  FROM public.books b
+  WHERE b.id = _copy.book_id;
+END;
+$$;
+
+-- Return the loan the scanned copy is out on
+CREATE OR REPLACE FUNCTION public.desk_checkin(_barcode TEXT)
+RETURNS TABLE (
+  request_id UUID,
+  book_title TEXT,
+  accession_number TEXT,
+  student_name TEXT,
+  due_date DATE,
+  fine NUMERIC
+)
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _copy public.book_copies%ROWTYPE;
+  _request_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION USING MESSAGE = 'admin_only';
+  END IF;
+
+  SELECT c.* INTO _copy
+  FROM public.book_copies c
+  WHERE c.barcode = TRIM(_barcode) OR c.accession_number = UPPER(TRIM(_barcode));
+
+  IF _copy.id IS NULL THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'copy_not_found',
+      DETAIL = json_build_object('barcode', _barcode)::TEXT;
+  END IF;
+
+  SELECT id INTO _request_id
+  FROM public.borrow_requests
+  WHERE copy_id = _copy.id AND status = 'approved'
+  FOR UPDATE;
+
+  IF _request_id IS NULL THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'copy_not_on_loan',
+      DETAIL = json_build_object('accession_number', _copy.accession_number, 'status', _copy.status)::TEXT;
+  END IF;
+
+  UPDATE public.borrow_requests
+  SET status = 'returned', return_date = CURRENT_DATE
+  WHERE id = _request_id;
+
+  RETURN QUERY
+  SELECT
+    r.id,
+    b.title,
+    _copy.accession_number,
+    p.name,
+    r.due_date,
+    COALESCE((
+      SELECT f.amount
+      FROM public.fines f
+      WHERE f.borrow_request_id = r.id AND f.entry_type = 'charge' AND f.kind = 'overdue'
+    ), 0)::NUMERIC(10, 2)
+  FROM public.borrow_requests r
+  JOIN public.books b ON b.id = r.book_id
+  JOIN public.profiles p ON p.id = r.student_id
+  WHERE r.id = _request_id;
+END;
+$$;
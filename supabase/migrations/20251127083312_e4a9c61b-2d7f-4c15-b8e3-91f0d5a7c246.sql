@@ -0,0 +1,135 @@
+-- Copy assignment raises typed errors the client can explain
+CREATE OR REPLACE FUNCTION public.sync_borrow_request_copy()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _hold_id UUID;
+  _held_copy_id UUID;
+BEGIN
+  -- When request is approved, issue a specific copy
+  IF NEW.status = 'approved' AND (TG_OP = 'INSERT' OR OLD.status != 'approved') THEN
+    SELECT id, copy_id INTO _hold_id, _held_copy_id
+    FROM public.holds
+    WHERE book_id = NEW.book_id AND student_id = NEW.student_id AND status = 'ready'
+    FOR UPDATE;
+
+    IF _hold_id IS NOT NULL AND (NEW.copy_id IS NULL OR NEW.copy_id = _held_copy_id) THEN
+      NEW.copy_id = _held_copy_id;
+
+      UPDATE public.holds SET status = 'fulfilled' WHERE id = _hold_id;
+    ELSIF NEW.copy_id IS NULL THEN
+      SELECT id INTO NEW.copy_id
+      FROM public.book_copies
+      WHERE book_id = NEW.book_id AND status = 'available'
+      ORDER BY accession_number
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED;
+
+      IF NEW.copy_id IS NULL THEN
+        RAISE EXCEPTION USING
+          MESSAGE = 'no_copy_available',
+          DETAIL = json_build_object('book_id', NEW.book_id)::TEXT;
+      END IF;
+    ELSE
+      PERFORM 1
+      FROM public.book_copies
+      WHERE id = NEW.copy_id AND book_id = NEW.book_id AND status = 'available'
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION USING
+          MESSAGE = 'copy_not_available',
+          DETAIL = json_build_object(
+            'accession_number', (SELECT accession_number FROM public.book_copies WHERE id = NEW.copy_id),
+            'status', (SELECT status FROM public.book_copies WHERE id = NEW.copy_id)
+          )::TEXT;
+      END IF;
+    END IF;
+
+    UPDATE public.book_copies
+    SET status = 'on_loan'
+    WHERE id = NEW.copy_id;
+  END IF;
+
+  -- When an approved loan is returned or rejected, the copy goes back on the shelf
+  -- (and from there to the next hold in the queue)
+  IF TG_OP = 'UPDATE' AND OLD.status = 'approved' AND NEW.status IN ('returned', 'rejected')
+     AND NEW.copy_id IS NOT NULL THEN
+    UPDATE public.book_copies
+    SET status = 'available'
+    WHERE id = NEW.copy_id AND status = 'on_loan';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Approve a pending request in one transaction. The request and book rows are
+-- locked so two admins approving at once cannot both succeed, and approval is
+-- refused up front when no copy is on the shelf for this student.
+CREATE OR REPLACE FUNCTION public.approve_borrow_request(
+  _request_id UUID,
+  _issue_date DATE DEFAULT NULL,
+  _due_date DATE DEFAULT NULL,
+  _remarks TEXT DEFAULT NULL
+)
+RETURNS public.borrow_requests
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.borrow_requests%ROWTYPE;
+  _title TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION USING MESSAGE = 'admin_only';
+  END IF;
+
+  SELECT * INTO _request
+  FROM public.borrow_requests
+  WHERE id = _request_id
+  FOR UPDATE;
+
+  IF _request.id IS NULL THEN
+    RAISE EXCEPTION USING MESSAGE = 'request_not_found';
+  END IF;
+
+  IF _request.status != 'pending' THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'request_not_pending',
+      DETAIL = json_build_object('status', _request.status)::TEXT;
+  END IF;
+
+  SELECT title INTO _title
+  FROM public.books
+  WHERE id = _request.book_id
+  FOR UPDATE;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.book_copies
+    WHERE book_id = _request.book_id AND status = 'available'
+  ) AND NOT EXISTS (
+    SELECT 1 FROM public.holds
+    WHERE book_id = _request.book_id AND student_id = _request.student_id AND status = 'ready'
+  ) THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'no_copy_available',
+      DETAIL = json_build_object('book_id', _request.book_id, 'title', _title)::TEXT;
+  END IF;
+
+  UPDATE public.borrow_requests
+  SET
+    status = 'approved',
+    issue_date = _issue_date,
+    due_date = _due_date,
+    remarks = COALESCE(_remarks, remarks)
+  WHERE id = _request_id
+  RETURNING * INTO _request;
+
+  RETURN _request;
+END;
+$$;
@@ -0,0 +1,5 @@
+-- Borrow states added for the enforced lifecycle:
+-- issued (in the borrower's hands), cancelled (withdrawn before approval) and lost
+ALTER TYPE public.borrow_status ADD VALUE IF NOT EXISTS 'issued' AFTER 'approved';
+ALTER TYPE public.borrow_status ADD VALUE IF NOT EXISTS 'cancelled' AFTER 'rejected';
+ALTER TYPE public.borrow_status ADD VALUE IF NOT EXISTS 'lost' AFTER 'returned';
@@ -0,0 +1,535 @@
+-- Borrow request lifecycle:
+--
+--   pending  -> approved | rejected | cancelled
+--   approved -> issued | returned | rejected | cancelled | lost
+--   issued   -> returned | lost
+--   lost     -> returned            (the book turned up after all)
+--
+-- New requests start as pending, or issued when lent straight from the desk.
+-- returned, rejected and cancelled are final.
+CREATE OR REPLACE FUNCTION public.is_valid_borrow_transition(_from borrow_status, _to borrow_status)
+RETURNS BOOLEAN
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN _from IS NULL THEN _to IN ('pending', 'issued')
+    ELSE (_from::TEXT, _to::TEXT) IN (
+      ('pending', 'approved'),
+      ('pending', 'rejected'),
+      ('pending', 'cancelled'),
+      ('approved', 'issued'),
+      ('approved', 'returned'),
+      ('approved', 'rejected'),
+      ('approved', 'cancelled'),
+      ('approved', 'lost'),
+      ('issued', 'returned'),
+      ('issued', 'lost'),
+      ('lost', 'returned')
+    )
+  END
+$$;
+
+CREATE OR REPLACE FUNCTION public.check_borrow_status_transition()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SET search_path = public
+AS $$
+DECLARE
+  _from borrow_status;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.status = OLD.status THEN
+      RETURN NEW;
+    END IF;
+    _from := OLD.status;
+  END IF;
+
+  IF NOT public.is_valid_borrow_transition(_from, NEW.status) THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'invalid_status_transition',
+      DETAIL = json_build_object('from', _from, 'to', NEW.status)::TEXT;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_borrow_status_transition
+  BEFORE INSERT OR UPDATE OF status ON public.borrow_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_borrow_status_transition();
+
+-- Status history for every request
+CREATE TABLE public.borrow_request_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id UUID NOT NULL REFERENCES public.borrow_requests(id) ON DELETE CASCADE,
+  from_status borrow_status,
+  to_status borrow_status NOT NULL,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX borrow_request_events_request_id_idx ON public.borrow_request_events (request_id, created_at);
+
+ALTER TABLE public.borrow_request_events ENABLE ROW LEVEL SECURITY;
+
+-- Events are written by the trigger below and never edited
+CREATE POLICY "Students can view events of their own requests"
+  ON public.borrow_request_events FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.borrow_requests r
+    WHERE r.id = request_id AND r.student_id = auth.uid()
+  ));
+
+CREATE POLICY "Admins can view all request events"
+  ON public.borrow_request_events FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.log_borrow_request_event()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status = OLD.status THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.borrow_request_events (request_id, from_status, to_status, actor_id)
+  VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    auth.uid()
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER log_borrow_request_event
+  AFTER INSERT OR UPDATE OF status ON public.borrow_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_borrow_request_event();
+
+-- History for existing requests, as far as it can be reconstructed
+INSERT INTO public.borrow_request_events (request_id, from_status, to_status, actor_id, created_at)
+SELECT id, NULL, 'pending', student_id, created_at
+FROM public.borrow_requests;
+
+INSERT INTO public.borrow_request_events (request_id, from_status, to_status, created_at)
+SELECT id, 'pending', 'approved', COALESCE(issue_date::TIMESTAMPTZ, created_at)
+FROM public.borrow_requests
+WHERE status IN ('approved', 'returned');
+
+INSERT INTO public.borrow_request_events (request_id, from_status, to_status, created_at)
+SELECT id, 'approved', 'returned', COALESCE(return_date::TIMESTAMPTZ, created_at)
+FROM public.borrow_requests
+WHERE status = 'returned';
+
+INSERT INTO public.borrow_request_events (request_id, from_status, to_status, created_at)
+SELECT id, 'pending', 'rejected', created_at
+FROM public.borrow_requests
+WHERE status = 'rejected';
+
+-- Approved and issued requests are both loans: they hold a copy, count
+-- against limits, can be renewed and accrue fines
+CREATE OR REPLACE FUNCTION public.get_borrow_eligibility(_student_id UUID)
+RETURNS TABLE (used INTEGER, borrow_limit INTEGER, eligible BOOLEAN)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    counts.used,
+    counts.borrow_limit,
+    counts.used < counts.borrow_limit AS eligible
+  FROM (
+    SELECT
+      (
+        SELECT COUNT(*)::INTEGER
+        FROM public.borrow_requests
+        WHERE student_id = p.id AND status IN ('pending', 'approved', 'issued')
+      ) AS used,
+      COALESCE(p.borrow_limit, 3) AS borrow_limit
+    FROM public.profiles p
+    WHERE p.id = _student_id
+      AND (_student_id = auth.uid() OR public.has_role(auth.uid(), 'admin'))
+  ) counts
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_borrow_limit()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _limit INTEGER;
+  _used INTEGER;
+BEGIN
+  -- Lock the profile so concurrent requests from the same student are counted one at a time
+  SELECT COALESCE(borrow_limit, 3) INTO _limit
+  FROM public.profiles
+  WHERE id = NEW.student_id
+  FOR UPDATE;
+
+  SELECT COUNT(*) INTO _used
+  FROM public.borrow_requests
+  WHERE student_id = NEW.student_id AND status IN ('pending', 'approved', 'issued');
+
+  IF _used >= _limit THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'borrow_limit_reached',
+      DETAIL = json_build_object('used', _used, 'limit', _limit)::TEXT,
+      HINT = format('%s of %s used', _used, _limit);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_loan_policy()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _policy public.loan_policies%ROWTYPE;
+  _used INTEGER;
+  _latest_due_date DATE;
+BEGIN
+  _policy := public.resolve_loan_policy(NEW.student_id, NEW.book_id);
+
+  IF _policy.id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    SELECT COUNT(*) INTO _used
+    FROM public.borrow_requests r
+    JOIN public.books b ON b.id = r.book_id
+    WHERE r.student_id = NEW.student_id
+      AND r.status IN ('pending', 'approved', 'issued')
+      AND (_policy.category IS NULL OR LOWER(b.category) = LOWER(_policy.category));
+
+    IF _used >= _policy.max_items THEN
+      RAISE EXCEPTION USING
+        MESSAGE = 'policy_max_items_reached',
+        DETAIL = json_build_object('used', _used, 'limit', _policy.max_items, 'category', _policy.category)::TEXT;
+    END IF;
+  END IF;
+
+  -- Dates are set when the request becomes a loan
+  IF NEW.status IN ('approved', 'issued')
+     AND (TG_OP = 'INSERT' OR OLD.status NOT IN ('approved', 'issued')) THEN
+    NEW.policy_id = _policy.id;
+    NEW.issue_date = COALESCE(NEW.issue_date, CURRENT_DATE);
+    _latest_due_date := public.next_open_day(NEW.issue_date + _policy.loan_period_days);
+    NEW.due_date = COALESCE(NEW.due_date, _latest_due_date);
+
+    IF NEW.due_date < NEW.issue_date THEN
+      RAISE EXCEPTION USING MESSAGE = 'invalid_loan_dates';
+    END IF;
+
+    IF NEW.due_date > _latest_due_date THEN
+      RAISE EXCEPTION USING
+        MESSAGE = 'loan_period_exceeded',
+        DETAIL = json_build_object('max_days', _policy.loan_period_days)::TEXT;
+    END IF;
+
+    IF NOT public.is_library_open(NEW.due_date) THEN
+      RAISE EXCEPTION USING
+        MESSAGE = 'due_date_closed',
+        DETAIL = json_build_object('due_date', NEW.due_date)::TEXT;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_borrow_request_copy()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _hold_id UUID;
+  _held_copy_id UUID;
+BEGIN
+  -- When a request becomes a loan, issue a specific copy
+  IF NEW.status IN ('approved', 'issued')
+     AND (TG_OP = 'INSERT' OR OLD.status NOT IN ('approved', 'issued')) THEN
+    SELECT id, copy_id INTO _hold_id, _held_copy_id
+    FROM public.holds
+    WHERE book_id = NEW.book_id AND student_id = NEW.student_id AND status = 'ready'
+    FOR UPDATE;
+
+    IF _hold_id IS NOT NULL AND (NEW.copy_id IS NULL OR NEW.copy_id = _held_copy_id) THEN
+      NEW.copy_id = _held_copy_id;
+
+      UPDATE public.holds SET status = 'fulfilled' WHERE id = _hold_id;
+    ELSIF NEW.copy_id IS NULL THEN
+      SELECT id INTO NEW.copy_id
+      FROM public.book_copies
+      WHERE book_id = NEW.book_id AND status = 'available'
+      ORDER BY accession_number
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED;
+
+      IF NEW.copy_id IS NULL THEN
+        RAISE EXCEPTION USING
+          MESSAGE = 'no_copy_available',
+          DETAIL = json_build_object('book_id', NEW.book_id)::TEXT;
+      END IF;
+    ELSE
+      PERFORM 1
+      FROM public.book_copies
+      WHERE id = NEW.copy_id AND book_id = NEW.book_id AND status = 'available'
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION USING
+          MESSAGE = 'copy_not_available',
+          DETAIL = json_build_object(
+            'accession_number', (SELECT accession_number FROM public.book_copies WHERE id = NEW.copy_id),
+            'status', (SELECT status FROM public.book_copies WHERE id = NEW.copy_id)
+          )::TEXT;
+      END IF;
+    END IF;
+
+    UPDATE public.book_copies
+    SET status = 'on_loan'
+    WHERE id = NEW.copy_id;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.copy_id IS NOT NULL THEN
+    -- A loan that ends puts the copy back on the shelf
+    -- (and from there to the next hold in the queue)
+    IF OLD.status IN ('approved', 'issued') AND NEW.status IN ('returned', 'rejected', 'cancelled') THEN
+      UPDATE public.book_copies
+      SET status = 'available'
+      WHERE id = NEW.copy_id AND status = 'on_loan';
+    END IF;
+
+    IF NEW.status = 'lost' THEN
+      UPDATE public.book_copies
+      SET status = 'lost'
+      WHERE id = NEW.copy_id AND status = 'on_loan';
+    END IF;
+
+    IF OLD.status = 'lost' AND NEW.status = 'returned' THEN
+      UPDATE public.book_copies
+      SET status = 'available'
+      WHERE id = NEW.copy_id AND status = 'lost';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.renew_loan(_request_id UUID)
+RETURNS DATE
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _loan public.borrow_requests%ROWTYPE;
+  _policy public.loan_policies%ROWTYPE;
+  _waiting_holds INTEGER;
+  _new_due_date DATE;
+BEGIN
+  SELECT * INTO _loan
+  FROM public.borrow_requests
+  WHERE id = _request_id
+    AND (student_id = auth.uid() OR public.has_role(auth.uid(), 'admin'))
+  FOR UPDATE;
+
+  IF _loan.id IS NULL THEN
+    RAISE EXCEPTION USING MESSAGE = 'loan_not_found';
+  END IF;
+
+  IF _loan.status NOT IN ('approved', 'issued') OR _loan.due_date IS NULL THEN
+    RAISE EXCEPTION USING MESSAGE = 'loan_not_active';
+  END IF;
+
+  IF _loan.due_date < CURRENT_DATE THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'renewal_overdue',
+      DETAIL = json_build_object('due_date', _loan.due_date)::TEXT;
+  END IF;
+
+  _policy := public.resolve_loan_policy(_loan.student_id, _loan.book_id);
+
+  IF _loan.renewal_count >= _policy.max_renewals THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'renewal_limit_reached',
+      DETAIL = json_build_object('renewals', _loan.renewal_count, 'max', _policy.max_renewals)::TEXT;
+  END IF;
+
+  SELECT COUNT(*) INTO _waiting_holds
+  FROM public.holds
+  WHERE book_id = _loan.book_id AND status = 'waiting';
+
+  IF _waiting_holds > 0 THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'renewal_book_on_hold',
+      DETAIL = json_build_object('holds', _waiting_holds)::TEXT;
+  END IF;
+
+  _new_due_date := GREATEST(_loan.due_date, public.next_open_day(CURRENT_DATE + _policy.loan_period_days));
+
+  UPDATE public.borrow_requests
+  SET
+    due_date = _new_due_date,
+    renewal_count = renewal_count + 1,
+    last_renewed_at = NOW()
+  WHERE id = _request_id;
+
+  RETURN _new_due_date;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_accruing_fine(_student_id UUID)
+RETURNS NUMERIC
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(public.count_open_days(r.due_date, CURRENT_DATE) * p.fine_per_day), 0)::NUMERIC(10, 2)
+  FROM public.borrow_requests r
+  CROSS JOIN LATERAL public.resolve_loan_policy(r.student_id, r.book_id) p
+  WHERE r.student_id = _student_id
+    AND r.status IN ('approved', 'issued')
+    AND r.due_date < CURRENT_DATE
+$$;
+
+-- Books lent at the desk go straight to the borrower
+CREATE OR REPLACE FUNCTION public.desk_checkout(_student_id UUID, _barcode TEXT)
+RETURNS TABLE (
+  request_id UUID,
+  book_title TEXT,
+  accession_number TEXT,
+  due_date DATE
+)
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _copy public.book_copies%ROWTYPE;
+  _request public.borrow_requests%ROWTYPE;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION USING MESSAGE = 'admin_only';
+  END IF;
+
+  SELECT c.* INTO _copy
+  FROM public.book_copies c
+  WHERE c.barcode = TRIM(_barcode) OR c.accession_number = UPPER(TRIM(_barcode))
+  FOR UPDATE;
+
+  IF _copy.id IS NULL THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'copy_not_found',
+      DETAIL = json_build_object('barcode', _barcode)::TEXT;
+  END IF;
+
+  -- A copy on the hold shelf can only go to the student it is held for
+  IF _copy.status != 'available' AND NOT (
+    _copy.status = 'on_hold' AND EXISTS (
+      SELECT 1 FROM public.holds
+      WHERE copy_id = _copy.id AND student_id = _student_id AND status = 'ready'
+    )
+  ) THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'copy_not_available',
+      DETAIL = json_build_object('accession_number', _copy.accession_number, 'status', _copy.status)::TEXT;
+  END IF;
+
+  INSERT INTO public.borrow_requests (student_id, book_id, copy_id, status, issue_date, remarks)
+  VALUES (_student_id, _copy.book_id, _copy.id, 'issued', CURRENT_DATE, 'Issued at the circulation desk')
+  RETURNING * INTO _request;
+
+  RETURN QUERY
+  SELECT _request.id, b.title, _copy.accession_number, _request.due_date
+  FROM public.books b
+  WHERE b.id = _copy.book_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.desk_checkin(_barcode TEXT)
+RETURNS TABLE (
+  request_id UUID,
+  book_title TEXT,
+  accession_number TEXT,
+  student_name TEXT,
+  due_date DATE,
+  fine NUMERIC
+)
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _copy public.book_copies%ROWTYPE;
+  _request_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION USING MESSAGE = 'admin_only';
+  END IF;
+
+  SELECT c.* INTO _copy
+  FROM public.book_copies c
+  WHERE c.barcode = TRIM(_barcode) OR c.accession_number = UPPER(TRIM(_barcode));
+
+  IF _copy.id IS NULL THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'copy_not_found',
+      DETAIL = json_build_object('barcode', _barcode)::TEXT;
+  END IF;
+
+  SELECT id INTO _request_id
+  FROM public.borrow_requests
+  WHERE copy_id = _copy.id AND status IN ('approved', 'issued', 'lost')
+  ORDER BY created_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF _request_id IS NULL THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'copy_not_on_loan',
+      DETAIL = json_build_object('accession_number', _copy.accession_number, 'status', _copy.status)::TEXT;
+  END IF;
+
+  UPDATE public.borrow_requests
+  SET status = 'returned', return_date = CURRENT_DATE
+  WHERE id = _request_id;
+
+  RETURN QUERY
+  SELECT
+    r.id,
+    b.title,
+    _copy.accession_number,
+    p.name,
+    r.due_date,
+    COALESCE((
+      SELECT f.amount
+      FROM public.fines f
+      WHERE f.borrow_request_id = r.id AND f.entry_type = 'charge' AND f.kind = 'overdue'
+    ), 0)::NUMERIC(10, 2)
+  FROM public.borrow_requests r
+  JOIN public.books b ON b.id = r.book_id
+  JOIN public.profiles p ON p.id = r.student_id
+  WHERE r.id = _request_id;
+END;
+$$;
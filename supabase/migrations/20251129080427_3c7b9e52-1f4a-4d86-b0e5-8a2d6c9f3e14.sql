@@ -0,0 +1,30 @@
+-- Students withdraw their own requests before the library acts on them
+CREATE OR REPLACE FUNCTION public.cancel_borrow_request(_request_id UUID)
+RETURNS VOID
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.borrow_requests%ROWTYPE;
+BEGIN
+  SELECT * INTO _request
+  FROM public.borrow_requests
+  WHERE id = _request_id AND student_id = auth.uid()
+  FOR UPDATE;
+
+  IF _request.id IS NULL THEN
+    RAISE EXCEPTION USING MESSAGE = 'request_not_found';
+  END IF;
+
+  IF _request.status != 'pending' THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'request_not_pending',
+      DETAIL = json_build_object('status', _request.status)::TEXT;
+  END IF;
+
+  UPDATE public.borrow_requests
+  SET status = 'cancelled'
+  WHERE id = _request_id;
+END;
+$$;
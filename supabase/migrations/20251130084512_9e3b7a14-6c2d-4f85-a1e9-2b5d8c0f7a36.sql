@@ -0,0 +1,3 @@
+-- Charges for books that are lost or come back damaged
+ALTER TYPE public.fine_kind ADD VALUE IF NOT EXISTS 'replacement';
+ALTER TYPE public.fine_kind ADD VALUE IF NOT EXISTS 'damage';
@@ -0,0 +1,238 @@
+-- Lost and damaged loans
+ALTER TABLE public.books
+  ADD COLUMN replacement_cost NUMERIC(10, 2) CHECK (replacement_cost >= 0);
+
+ALTER TABLE public.library_settings
+  ADD COLUMN default_replacement_cost NUMERIC(10, 2) NOT NULL DEFAULT 500.00 CHECK (default_replacement_cost >= 0);
+
+-- A loan is charged for replacement or damage only once
+CREATE UNIQUE INDEX fines_replacement_charge_idx
+  ON public.fines (borrow_request_id)
+  WHERE entry_type = 'charge' AND kind = 'replacement';
+
+CREATE UNIQUE INDEX fines_damage_charge_idx
+  ON public.fines (borrow_request_id)
+  WHERE entry_type = 'charge' AND kind = 'damage';
+
+CREATE OR REPLACE FUNCTION public.get_replacement_cost(_book_id UUID)
+RETURNS NUMERIC
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(b.replacement_cost, s.default_replacement_cost)
+  FROM public.books b
+  CROSS JOIN public.library_settings s
+  WHERE b.id = _book_id
+$$;
+
+-- Overdue days are charged when a loan ends, whether the book came back or was lost
+CREATE OR REPLACE FUNCTION public.charge_overdue_fine()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _days_late INTEGER;
+  _fine_per_day NUMERIC(10, 2);
+BEGIN
+  IF NEW.status NOT IN ('returned', 'lost') OR OLD.status IN ('returned', 'lost') OR NEW.due_date IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  _days_late := public.count_open_days(NEW.due_date, COALESCE(NEW.return_date, CURRENT_DATE));
+
+  IF _days_late <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT fine_per_day INTO _fine_per_day
+  FROM public.resolve_loan_policy(NEW.student_id, NEW.book_id);
+
+  IF _fine_per_day > 0 THEN
+    INSERT INTO public.fines (student_id, borrow_request_id, entry_type, kind, amount, reason)
+    VALUES (
+      NEW.student_id,
+      NEW.id,
+      'charge',
+      'overdue',
+      _days_late * _fine_per_day,
+      CASE NEW.status
+        WHEN 'lost' THEN format('Reported lost %s open day(s) after the due date', _days_late)
+        ELSE format('Returned %s open day(s) late', _days_late)
+      END
+    )
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Students report their own loans lost; admins can also set the charge.
+-- The copy is marked lost (so it no longer counts towards the book's total)
+-- and the replacement cost is charged to the borrower.
+CREATE OR REPLACE FUNCTION public.report_loan_lost(_request_id UUID, _charge NUMERIC DEFAULT NULL)
+RETURNS NUMERIC
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _loan public.borrow_requests%ROWTYPE;
+  _is_admin BOOLEAN := public.has_role(auth.uid(), 'admin');
+  _amount NUMERIC(10, 2);
+BEGIN
+  SELECT * INTO _loan
+  FROM public.borrow_requests
+  WHERE id = _request_id
+    AND (student_id = auth.uid() OR _is_admin)
+  FOR UPDATE;
+
+  IF _loan.id IS NULL THEN
+    RAISE EXCEPTION USING MESSAGE = 'loan_not_found';
+  END IF;
+
+  IF _loan.status NOT IN ('approved', 'issued') THEN
+    RAISE EXCEPTION USING MESSAGE = 'loan_not_active';
+  END IF;
+
+  _amount := CASE
+    WHEN _is_admin AND _charge IS NOT NULL THEN _charge
+    ELSE public.get_replacement_cost(_loan.book_id)
+  END;
+
+  UPDATE public.borrow_requests
+  SET status = 'lost'
+  WHERE id = _request_id;
+
+  IF _amount > 0 THEN
+    INSERT INTO public.fines (student_id, borrow_request_id, entry_type, kind, amount, reason, recorded_by)
+    VALUES (
+      _loan.student_id,
+      _loan.id,
+      'charge',
+      'replacement',
+      _amount,
+      'Replacement for lost book',
+      CASE WHEN _is_admin THEN auth.uid() END
+    );
+  END IF;
+
+  RETURN _amount;
+END;
+$$;
+
+-- Close a loan whose book came back damaged: the copy is withdrawn and the
+-- borrower is charged for the damage
+CREATE OR REPLACE FUNCTION public.return_loan_damaged(_request_id UUID, _charge NUMERIC DEFAULT NULL, _note TEXT DEFAULT NULL)
+RETURNS NUMERIC
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _loan public.borrow_requests%ROWTYPE;
+  _amount NUMERIC(10, 2);
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION USING MESSAGE = 'admin_only';
+  END IF;
+
+  SELECT * INTO _loan
+  FROM public.borrow_requests
+  WHERE id = _request_id
+  FOR UPDATE;
+
+  IF _loan.id IS NULL THEN
+    RAISE EXCEPTION USING MESSAGE = 'loan_not_found';
+  END IF;
+
+  IF _loan.status NOT IN ('approved', 'issued') THEN
+    RAISE EXCEPTION USING MESSAGE = 'loan_not_active';
+  END IF;
+
+  _amount := COALESCE(_charge, public.get_replacement_cost(_loan.book_id));
+
+  -- Withdraw the copy first so returning the loan does not put it back on the shelf
+  UPDATE public.book_copies
+  SET status = 'damaged', condition = 'damaged', notes = COALESCE(NULLIF(TRIM(_note), ''), notes)
+  WHERE id = _loan.copy_id;
+
+  UPDATE public.borrow_requests
+  SET status = 'returned', return_date = CURRENT_DATE
+  WHERE id = _request_id;
+
+  IF _amount > 0 THEN
+    INSERT INTO public.fines (student_id, borrow_request_id, entry_type, kind, amount, reason, recorded_by)
+    VALUES (
+      _loan.student_id,
+      _loan.id,
+      'charge',
+      'damage',
+      _amount,
+      COALESCE('Returned damaged: ' || NULLIF(TRIM(_note), ''), 'Returned damaged'),
+      auth.uid()
+    );
+  END IF;
+
+  RETURN _amount;
+END;
+$$;
+
+-- A lost book turned up: the loan is closed as returned, the copy goes back
+-- on the shelf and the replacement charge is reversed
+CREATE OR REPLACE FUNCTION public.mark_loan_found(_request_id UUID)
+RETURNS NUMERIC
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _loan public.borrow_requests%ROWTYPE;
+  _charged NUMERIC(10, 2);
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION USING MESSAGE = 'admin_only';
+  END IF;
+
+  SELECT * INTO _loan
+  FROM public.borrow_requests
+  WHERE id = _request_id
+  FOR UPDATE;
+
+  IF _loan.id IS NULL THEN
+    RAISE EXCEPTION USING MESSAGE = 'loan_not_found';
+  END IF;
+
+  IF _loan.status != 'lost' THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'loan_not_lost',
+      DETAIL = json_build_object('status', _loan.status)::TEXT;
+  END IF;
+
+  UPDATE public.borrow_requests
+  SET status = 'returned', return_date = CURRENT_DATE
+  WHERE id = _request_id;
+
+  SELECT amount INTO _charged
+  FROM public.fines
+  WHERE borrow_request_id = _request_id AND entry_type = 'charge' AND kind = 'replacement';
+
+  IF _charged > 0 THEN
+    INSERT INTO public.fines (student_id, borrow_request_id, entry_type, amount, reason, recorded_by)
+    VALUES (
+      _loan.student_id,
+      _loan.id,
+      'waiver',
+      _charged,
+      'Lost book found: replacement charge reversed',
+      auth.uid()
+    );
+  END IF;
+
+  RETURN COALESCE(_charged, 0);
+END;
+$$;
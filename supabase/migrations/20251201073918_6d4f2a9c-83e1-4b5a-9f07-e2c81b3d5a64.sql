@@ -0,0 +1,78 @@
+-- Bulk actions on the borrow requests queue. Each request is processed in its
+-- own subtransaction so one failure does not roll back the rest of the batch;
+-- the result has one row per request with the library error code on failure.
+CREATE OR REPLACE FUNCTION public.bulk_update_borrow_requests(
+  _request_ids UUID[],
+  _status public.borrow_status,
+  _remarks TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  request_id UUID,
+  success BOOLEAN,
+  error_code TEXT,
+  error_detail TEXT
+)
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _id UUID;
+  _current public.borrow_status;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION USING MESSAGE = 'admin_only';
+  END IF;
+
+  IF _status NOT IN ('approved', 'rejected', 'returned') THEN
+    RAISE EXCEPTION 'Bulk updates to status % are not supported', _status;
+  END IF;
+
+  FOREACH _id IN ARRAY _request_ids LOOP
+    request_id := _id;
+    success := TRUE;
+    error_code := NULL;
+    error_detail := NULL;
+
+    BEGIN
+      IF _status = 'approved' THEN
+        -- Dates are left to the loan policy (issued today, due after the loan period)
+        PERFORM public.approve_borrow_request(_id, NULL, NULL, NULLIF(TRIM(_remarks), ''));
+      ELSE
+        SELECT r.status INTO _current
+        FROM public.borrow_requests r
+        WHERE r.id = _id
+        FOR UPDATE;
+
+        IF _current IS NULL THEN
+          RAISE EXCEPTION USING MESSAGE = 'request_not_found';
+        END IF;
+
+        IF _status = 'rejected' AND _current != 'pending' THEN
+          RAISE EXCEPTION USING
+            MESSAGE = 'request_not_pending',
+            DETAIL = json_build_object('status', _current)::TEXT;
+        END IF;
+
+        IF _status = 'returned' AND _current NOT IN ('approved', 'issued') THEN
+          RAISE EXCEPTION USING MESSAGE = 'loan_not_active';
+        END IF;
+
+        UPDATE public.borrow_requests r
+        SET
+          status = _status,
+          return_date = CASE WHEN _status = 'returned' THEN CURRENT_DATE ELSE r.return_date END,
+          remarks = COALESCE(NULLIF(TRIM(_remarks), ''), r.remarks)
+        WHERE r.id = _id;
+      END IF;
+    EXCEPTION WHEN OTHERS THEN
+      success := FALSE;
+      GET STACKED DIAGNOSTICS
+        error_code = MESSAGE_TEXT,
+        error_detail = PG_EXCEPTION_DETAIL;
+    END;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,2 @@
+-- Requests that timed out: pending too long, or approved but never collected
+ALTER TYPE public.borrow_status ADD VALUE IF NOT EXISTS 'expired' AFTER 'cancelled';
@@ -0,0 +1,221 @@
+-- Stale requests expire on their own:
+--   pending  -> expired   after library_settings.pending_expiry_days
+--   approved -> expired   when not collected within pickup_deadline_days of the issue date
+--
+-- expire_stale_borrow_requests() is run on a schedule by the
+-- expire-stale-requests edge function and notifies the affected students.
+ALTER TABLE public.library_settings
+  ADD COLUMN pending_expiry_days INTEGER NOT NULL DEFAULT 7 CHECK (pending_expiry_days > 0),
+  ADD COLUMN pickup_deadline_days INTEGER NOT NULL DEFAULT 3 CHECK (pickup_deadline_days > 0);
+
+CREATE OR REPLACE FUNCTION public.is_valid_borrow_transition(_from borrow_status, _to borrow_status)
+RETURNS BOOLEAN
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN _from IS NULL THEN _to IN ('pending', 'issued')
+    ELSE (_from::TEXT, _to::TEXT) IN (
+      ('pending', 'approved'),
+      ('pending', 'rejected'),
+      ('pending', 'cancelled'),
+      ('pending', 'expired'),
+      ('approved', 'issued'),
+      ('approved', 'returned'),
+      ('approved', 'rejected'),
+      ('approved', 'cancelled'),
+      ('approved', 'expired'),
+      ('approved', 'lost'),
+      ('issued', 'returned'),
+      ('issued', 'lost'),
+      ('lost', 'returned')
+    )
+  END
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_borrow_request_copy()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _hold_id UUID;
+  _held_copy_id UUID;
+BEGIN
+  -- When a request becomes a loan, issue a specific copy
+  IF NEW.status IN ('approved', 'issued')
+     AND (TG_OP = 'INSERT' OR OLD.status NOT IN ('approved', 'issued')) THEN
+    SELECT id, copy_id INTO _hold_id, _held_copy_id
+    FROM public.holds
+    WHERE book_id = NEW.book_id AND student_id = NEW.student_id AND status = 'ready'
+    FOR UPDATE;
+
+    IF _hold_id IS NOT NULL AND (NEW.copy_id IS NULL OR NEW.copy_id = _held_copy_id) THEN
+      NEW.copy_id = _held_copy_id;
+
+      UPDATE public.holds SET status = 'fulfilled' WHERE id = _hold_id;
+    ELSIF NEW.copy_id IS NULL THEN
+      SELECT id INTO NEW.copy_id
+      FROM public.book_copies
+      WHERE book_id = NEW.book_id AND status = 'available'
+      ORDER BY accession_number
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED;
+
+      IF NEW.copy_id IS NULL THEN
+        RAISE EXCEPTION USING
+          MESSAGE = 'no_copy_available',
+          DETAIL = json_build_object('book_id', NEW.book_id)::TEXT;
+      END IF;
+    ELSE
+      PERFORM 1
+      FROM public.book_copies
+      WHERE id = NEW.copy_id AND book_id = NEW.book_id AND status = 'available'
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION USING
+          MESSAGE = 'copy_not_available',
+          DETAIL = json_build_object(
+            'accession_number', (SELECT accession_number FROM public.book_copies WHERE id = NEW.copy_id),
+            'status', (SELECT status FROM public.book_copies WHERE id = NEW.copy_id)
+          )::TEXT;
+      END IF;
+    END IF;
+
+    UPDATE public.book_copies
+    SET status = 'on_loan'
+    WHERE id = NEW.copy_id;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.copy_id IS NOT NULL THEN
+    -- A loan that ends, or an approval that was never collected, puts the
+    -- copy back on the shelf (and from there to the next hold in the queue)
+    IF OLD.status IN ('approved', 'issued') AND NEW.status IN ('returned', 'rejected', 'cancelled', 'expired') THEN
+      UPDATE public.book_copies
+      SET status = 'available'
+      WHERE id = NEW.copy_id AND status = 'on_loan';
+    END IF;
+
+    IF NEW.status = 'lost' THEN
+      UPDATE public.book_copies
+      SET status = 'lost'
+      WHERE id = NEW.copy_id AND status = 'on_loan';
+    END IF;
+
+    IF OLD.status = 'lost' AND NEW.status = 'returned' THEN
+      UPDATE public.book_copies
+      SET status = 'available'
+      WHERE id = NEW.copy_id AND status = 'lost';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Approvals from before pickup deadlines existed were handed over without
+-- being marked issued; record them as issued so they are not expired
+UPDATE public.borrow_requests
+SET status = 'issued'
+WHERE status = 'approved' AND issue_date < CURRENT_DATE;
+
+-- In-app messages for students
+CREATE TABLE public.notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  borrow_request_id UUID REFERENCES public.borrow_requests(id) ON DELETE CASCADE,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX notifications_user_id_idx ON public.notifications (user_id, created_at DESC);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- Notifications are written by database functions; users only mark them read
+CREATE POLICY "Users can view their own notifications"
+  ON public.notifications FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notifications"
+  ON public.notifications FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.expire_stale_borrow_requests()
+RETURNS TABLE (
+  expired_pending INTEGER,
+  expired_approvals INTEGER
+)
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _settings public.library_settings%ROWTYPE;
+  _request RECORD;
+BEGIN
+  -- Run by the scheduler with the service role key, or by an admin on demand
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION USING MESSAGE = 'admin_only';
+  END IF;
+
+  SELECT * INTO _settings FROM public.library_settings;
+  expired_pending := 0;
+  expired_approvals := 0;
+
+  FOR _request IN
+    SELECT r.id, r.student_id, b.title
+    FROM public.borrow_requests r
+    JOIN public.books b ON b.id = r.book_id
+    WHERE r.status = 'pending'
+      AND r.created_at < NOW() - make_interval(days => _settings.pending_expiry_days)
+    FOR UPDATE OF r SKIP LOCKED
+  LOOP
+    UPDATE public.borrow_requests
+    SET status = 'expired'
+    WHERE id = _request.id;
+
+    INSERT INTO public.notifications (user_id, title, body, borrow_request_id)
+    VALUES (
+      _request.student_id,
+      'Request expired',
+      format('Your request for "%s" was not processed within %s days and has expired. You can request it again.',
+             _request.title, _settings.pending_expiry_days),
+      _request.id
+    );
+
+    expired_pending := expired_pending + 1;
+  END LOOP;
+
+  -- The copy goes back on the shelf through sync_borrow_request_copy
+  FOR _request IN
+    SELECT r.id, r.student_id, b.title
+    FROM public.borrow_requests r
+    JOIN public.books b ON b.id = r.book_id
+    WHERE r.status = 'approved'
+      AND COALESCE(r.issue_date, r.created_at::DATE) + _settings.pickup_deadline_days < CURRENT_DATE
+    FOR UPDATE OF r SKIP LOCKED
+  LOOP
+    UPDATE public.borrow_requests
+    SET status = 'expired'
+    WHERE id = _request.id;
+
+    INSERT INTO public.notifications (user_id, title, body, borrow_request_id)
+    VALUES (
+      _request.student_id,
+      'Approved book not collected',
+      format('"%s" was not collected within %s days and has been returned to the shelf.',
+             _request.title, _settings.pickup_deadline_days),
+      _request.id
+    );
+
+    expired_approvals := expired_approvals + 1;
+  END LOOP;
+
+  RETURN NEXT;
+END;
+$$;
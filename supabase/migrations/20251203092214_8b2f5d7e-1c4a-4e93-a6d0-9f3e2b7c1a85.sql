@@ -0,0 +1,645 @@
+-- Pickup step between approval and issue:
+--
+--   pending -> approved   a copy is set aside on the pickup shelf (copy on_hold)
+--   approved -> issued    the student collects it; the loan period starts today
+--
+-- Approved requests no longer carry issue or due dates and no longer count as
+-- lent; ready_at and issued_at record when each stage was reached.
+ALTER TABLE public.borrow_requests
+  ADD COLUMN ready_at TIMESTAMPTZ,
+  ADD COLUMN issued_at TIMESTAMPTZ;
+
+UPDATE public.borrow_requests r
+SET ready_at = COALESCE((
+  SELECT MAX(e.created_at)
+  FROM public.borrow_request_events e
+  WHERE e.request_id = r.id AND e.to_status = 'approved'
+), r.created_at)
+WHERE r.status IN ('approved', 'issued', 'returned', 'lost');
+
+UPDATE public.borrow_requests
+SET issued_at = COALESCE(issue_date::TIMESTAMPTZ, created_at)
+WHERE status IN ('issued', 'returned', 'lost');
+
+-- Books waiting for collection sit on the pickup shelf and get their dates at issue
+UPDATE public.book_copies c
+SET status = 'on_hold'
+FROM public.borrow_requests r
+WHERE r.copy_id = c.id AND r.status = 'approved' AND c.status = 'on_loan';
+
+UPDATE public.borrow_requests
+SET issue_date = NULL, due_date = NULL, policy_id = NULL
+WHERE status = 'approved';
+
+CREATE INDEX borrow_requests_pickup_idx ON public.borrow_requests (ready_at) WHERE status = 'approved';
+
+-- Borrow request lifecycle:
+--
+--   pending  -> approved | rejected | cancelled | expired
+--   approved -> issued | rejected | cancelled | expired
+--   issued   -> returned | lost
+--   lost     -> returned            (the book turned up after all)
+--
+-- New requests start as pending, or issued when lent straight from the desk.
+CREATE OR REPLACE FUNCTION public.is_valid_borrow_transition(_from borrow_status, _to borrow_status)
+RETURNS BOOLEAN
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN _from IS NULL THEN _to IN ('pending', 'issued')
+    ELSE (_from::TEXT, _to::TEXT) IN (
+      ('pending', 'approved'),
+      ('pending', 'rejected'),
+      ('pending', 'cancelled'),
+      ('pending', 'expired'),
+      ('approved', 'issued'),
+      ('approved', 'rejected'),
+      ('approved', 'cancelled'),
+      ('approved', 'expired'),
+      ('issued', 'returned'),
+      ('issued', 'lost'),
+      ('lost', 'returned')
+    )
+  END
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_loan_policy()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _policy public.loan_policies%ROWTYPE;
+  _used INTEGER;
+  _latest_due_date DATE;
+BEGIN
+  IF NEW.status = 'approved' AND (TG_OP = 'INSERT' OR OLD.status != 'approved') THEN
+    NEW.ready_at = NOW();
+  END IF;
+
+  IF NEW.status = 'issued' AND (TG_OP = 'INSERT' OR OLD.status != 'issued') THEN
+    NEW.issued_at = NOW();
+    NEW.issue_date = CURRENT_DATE;
+  END IF;
+
+  _policy := public.resolve_loan_policy(NEW.student_id, NEW.book_id);
+
+  IF _policy.id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    SELECT COUNT(*) INTO _used
+    FROM public.borrow_requests r
+    JOIN public.books b ON b.id = r.book_id
+    WHERE r.student_id = NEW.student_id
+      AND r.status IN ('pending', 'approved', 'issued')
+      AND (_policy.category IS NULL OR LOWER(b.category) = LOWER(_policy.category));
+
+    IF _used >= _policy.max_items THEN
+      RAISE EXCEPTION USING
+        MESSAGE = 'policy_max_items_reached',
+        DETAIL = json_build_object('used', _used, 'limit', _policy.max_items, 'category', _policy.category)::TEXT;
+    END IF;
+  END IF;
+
+  -- The loan period runs from the day the book is handed over
+  IF NEW.status = 'issued' AND (TG_OP = 'INSERT' OR OLD.status != 'issued') THEN
+    NEW.policy_id = _policy.id;
+    _latest_due_date := public.next_open_day(NEW.issue_date + _policy.loan_period_days);
+    NEW.due_date = COALESCE(NEW.due_date, _latest_due_date);
+
+    IF NEW.due_date < NEW.issue_date THEN
+      RAISE EXCEPTION USING MESSAGE = 'invalid_loan_dates';
+    END IF;
+
+    IF NEW.due_date > _latest_due_date THEN
+      RAISE EXCEPTION USING
+        MESSAGE = 'loan_period_exceeded',
+        DETAIL = json_build_object('max_days', _policy.loan_period_days)::TEXT;
+    END IF;
+
+    IF NOT public.is_library_open(NEW.due_date) THEN
+      RAISE EXCEPTION USING
+        MESSAGE = 'due_date_closed',
+        DETAIL = json_build_object('due_date', NEW.due_date)::TEXT;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Lock a copy that is about to be claimed, failing unless it is on the shelf
+CREATE OR REPLACE FUNCTION public.lock_available_copy(_copy_id UUID, _book_id UUID)
+RETURNS VOID
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM 1
+  FROM public.book_copies
+  WHERE id = _copy_id AND book_id = _book_id AND status = 'available'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'copy_not_available',
+      DETAIL = json_build_object(
+        'accession_number', (SELECT accession_number FROM public.book_copies WHERE id = _copy_id),
+        'status', (SELECT status FROM public.book_copies WHERE id = _copy_id)
+      )::TEXT;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_borrow_request_copy()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _hold_id UUID;
+  _held_copy_id UUID;
+BEGIN
+  -- A specific copy is claimed when a request is approved (it goes on the
+  -- pickup shelf) or when a book is lent straight from the desk
+  IF (NEW.status = 'approved' AND (TG_OP = 'INSERT' OR OLD.status != 'approved'))
+     OR (NEW.status = 'issued' AND TG_OP = 'INSERT') THEN
+    SELECT id, copy_id INTO _hold_id, _held_copy_id
+    FROM public.holds
+    WHERE book_id = NEW.book_id AND student_id = NEW.student_id AND status = 'ready'
+    FOR UPDATE;
+
+    IF _hold_id IS NOT NULL AND (NEW.copy_id IS NULL OR NEW.copy_id = _held_copy_id) THEN
+      NEW.copy_id = _held_copy_id;
+
+      UPDATE public.holds SET status = 'fulfilled' WHERE id = _hold_id;
+    ELSIF NEW.copy_id IS NULL THEN
+      SELECT id INTO NEW.copy_id
+      FROM public.book_copies
+      WHERE book_id = NEW.book_id AND status = 'available'
+      ORDER BY accession_number
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED;
+
+      IF NEW.copy_id IS NULL THEN
+        RAISE EXCEPTION USING
+          MESSAGE = 'no_copy_available',
+          DETAIL = json_build_object('book_id', NEW.book_id)::TEXT;
+      END IF;
+    ELSE
+      PERFORM public.lock_available_copy(NEW.copy_id, NEW.book_id);
+    END IF;
+
+    UPDATE public.book_copies
+    SET status = CASE WHEN NEW.status = 'approved' THEN 'on_hold' ELSE 'on_loan' END::copy_status
+    WHERE id = NEW.copy_id;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.status = 'approved' AND NEW.status = 'issued' THEN
+    -- The student may be handed a different copy than the one set aside
+    IF NEW.copy_id IS DISTINCT FROM OLD.copy_id THEN
+      PERFORM public.lock_available_copy(NEW.copy_id, NEW.book_id);
+    END IF;
+
+    UPDATE public.book_copies
+    SET status = 'on_loan'
+    WHERE id = NEW.copy_id;
+
+    IF NEW.copy_id IS DISTINCT FROM OLD.copy_id THEN
+      UPDATE public.book_copies
+      SET status = 'available'
+      WHERE id = OLD.copy_id AND status = 'on_hold';
+    END IF;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.copy_id IS NOT NULL THEN
+    -- An approval that is withdrawn or never collected takes the copy off the
+    -- pickup shelf, and a loan that ends puts it back on the shelf (and from
+    -- there to the next hold in the queue)
+    IF OLD.status = 'approved' AND NEW.status IN ('rejected', 'cancelled', 'expired') THEN
+      UPDATE public.book_copies
+      SET status = 'available'
+      WHERE id = NEW.copy_id AND status = 'on_hold';
+    END IF;
+
+    IF OLD.status = 'issued' AND NEW.status = 'returned' THEN
+      UPDATE public.book_copies
+      SET status = 'available'
+      WHERE id = NEW.copy_id AND status = 'on_loan';
+    END IF;
+
+    IF NEW.status = 'lost' THEN
+      UPDATE public.book_copies
+      SET status = 'lost'
+      WHERE id = NEW.copy_id AND status = 'on_loan';
+    END IF;
+
+    IF OLD.status = 'lost' AND NEW.status = 'returned' THEN
+      UPDATE public.book_copies
+      SET status = 'available'
+      WHERE id = NEW.copy_id AND status = 'lost';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Approval only sets a copy aside; dates are decided when the book is issued
+DROP FUNCTION public.approve_borrow_request(UUID, DATE, DATE, TEXT);
+
+CREATE OR REPLACE FUNCTION public.approve_borrow_request(_request_id UUID, _remarks TEXT DEFAULT NULL)
+RETURNS public.borrow_requests
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.borrow_requests%ROWTYPE;
+  _title TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION USING MESSAGE = 'admin_only';
+  END IF;
+
+  SELECT * INTO _request
+  FROM public.borrow_requests
+  WHERE id = _request_id
+  FOR UPDATE;
+
+  IF _request.id IS NULL THEN
+    RAISE EXCEPTION USING MESSAGE = 'request_not_found';
+  END IF;
+
+  IF _request.status != 'pending' THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'request_not_pending',
+      DETAIL = json_build_object('status', _request.status)::TEXT;
+  END IF;
+
+  SELECT title INTO _title
+  FROM public.books
+  WHERE id = _request.book_id
+  FOR UPDATE;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.book_copies
+    WHERE book_id = _request.book_id AND status = 'available'
+  ) AND NOT EXISTS (
+    SELECT 1 FROM public.holds
+    WHERE book_id = _request.book_id AND student_id = _request.student_id AND status = 'ready'
+  ) THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'no_copy_available',
+      DETAIL = json_build_object('book_id', _request.book_id, 'title', _title)::TEXT;
+  END IF;
+
+  UPDATE public.borrow_requests
+  SET
+    status = 'approved',
+    remarks = COALESCE(_remarks, remarks)
+  WHERE id = _request_id
+  RETURNING * INTO _request;
+
+  RETURN _request;
+END;
+$$;
+
+-- Hand a book from the pickup shelf to the student. The due date defaults to
+-- the end of the loan period counted from today.
+CREATE OR REPLACE FUNCTION public.issue_borrow_request(_request_id UUID, _due_date DATE DEFAULT NULL)
+RETURNS public.borrow_requests
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.borrow_requests%ROWTYPE;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION USING MESSAGE = 'admin_only';
+  END IF;
+
+  SELECT * INTO _request
+  FROM public.borrow_requests
+  WHERE id = _request_id
+  FOR UPDATE;
+
+  IF _request.id IS NULL THEN
+    RAISE EXCEPTION USING MESSAGE = 'request_not_found';
+  END IF;
+
+  IF _request.status != 'approved' THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'request_not_approved',
+      DETAIL = json_build_object('status', _request.status)::TEXT;
+  END IF;
+
+  UPDATE public.borrow_requests
+  SET status = 'issued', due_date = _due_date
+  WHERE id = _request_id
+  RETURNING * INTO _request;
+
+  RETURN _request;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.bulk_update_borrow_requests(
+  _request_ids UUID[],
+  _status public.borrow_status,
+  _remarks TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  request_id UUID,
+  success BOOLEAN,
+  error_code TEXT,
+  error_detail TEXT
+)
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _id UUID;
+  _current public.borrow_status;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION USING MESSAGE = 'admin_only';
+  END IF;
+
+  IF _status NOT IN ('approved', 'rejected', 'returned') THEN
+    RAISE EXCEPTION 'Bulk updates to status % are not supported', _status;
+  END IF;
+
+  FOREACH _id IN ARRAY _request_ids LOOP
+    request_id := _id;
+    success := TRUE;
+    error_code := NULL;
+    error_detail := NULL;
+
+    BEGIN
+      IF _status = 'approved' THEN
+        PERFORM public.approve_borrow_request(_id, NULLIF(TRIM(_remarks), ''));
+      ELSE
+        SELECT r.status INTO _current
+        FROM public.borrow_requests r
+        WHERE r.id = _id
+        FOR UPDATE;
+
+        IF _current IS NULL THEN
+          RAISE EXCEPTION USING MESSAGE = 'request_not_found';
+        END IF;
+
+        IF _status = 'rejected' AND _current != 'pending' THEN
+          RAISE EXCEPTION USING
+            MESSAGE = 'request_not_pending',
+            DETAIL = json_build_object('status', _current)::TEXT;
+        END IF;
+
+        IF _status = 'returned' AND _current != 'issued' THEN
+          RAISE EXCEPTION USING MESSAGE = 'loan_not_active';
+        END IF;
+
+        UPDATE public.borrow_requests r
+        SET
+          status = _status,
+          return_date = CASE WHEN _status = 'returned' THEN CURRENT_DATE ELSE r.return_date END,
+          remarks = COALESCE(NULLIF(TRIM(_remarks), ''), r.remarks)
+        WHERE r.id = _id;
+      END IF;
+    EXCEPTION WHEN OTHERS THEN
+      success := FALSE;
+      GET STACKED DIAGNOSTICS
+        error_code = MESSAGE_TEXT,
+        error_detail = PG_EXCEPTION_DETAIL;
+    END;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+-- Books lent at the desk go straight to the borrower; a student collecting an
+-- approved request takes it off the pickup shelf
+CREATE OR REPLACE FUNCTION public.desk_checkout(_student_id UUID, _barcode TEXT)
+RETURNS TABLE (
+  request_id UUID,
+  book_title TEXT,
+  accession_number TEXT,
+  due_date DATE
+)
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _copy public.book_copies%ROWTYPE;
+  _request public.borrow_requests%ROWTYPE;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION USING MESSAGE = 'admin_only';
+  END IF;
+
+  SELECT c.* INTO _copy
+  FROM public.book_copies c
+  WHERE c.barcode = TRIM(_barcode) OR c.accession_number = UPPER(TRIM(_barcode))
+  FOR UPDATE;
+
+  IF _copy.id IS NULL THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'copy_not_found',
+      DETAIL = json_build_object('barcode', _barcode)::TEXT;
+  END IF;
+
+  SELECT r.* INTO _request
+  FROM public.borrow_requests r
+  WHERE r.student_id = _student_id AND r.book_id = _copy.book_id AND r.status = 'approved'
+  ORDER BY (r.copy_id = _copy.id) DESC, r.ready_at
+  LIMIT 1
+  FOR UPDATE;
+
+  IF _request.id IS NOT NULL THEN
+    -- Any copy on the shelf will do in place of the one set aside
+    IF _copy.id IS DISTINCT FROM _request.copy_id AND _copy.status != 'available' THEN
+      RAISE EXCEPTION USING
+        MESSAGE = 'copy_not_available',
+        DETAIL = json_build_object('accession_number', _copy.accession_number, 'status', _copy.status)::TEXT;
+    END IF;
+
+    UPDATE public.borrow_requests r
+    SET status = 'issued', copy_id = _copy.id
+    WHERE r.id = _request.id
+    RETURNING * INTO _request;
+  ELSE
+    -- A copy on the hold shelf can only go to the student it is held for
+    IF _copy.status != 'available' AND NOT (
+      _copy.status = 'on_hold' AND EXISTS (
+        SELECT 1 FROM public.holds
+        WHERE copy_id = _copy.id AND student_id = _student_id AND status = 'ready'
+      )
+    ) THEN
+      RAISE EXCEPTION USING
+        MESSAGE = 'copy_not_available',
+        DETAIL = json_build_object('accession_number', _copy.accession_number, 'status', _copy.status)::TEXT;
+    END IF;
+
+    INSERT INTO public.borrow_requests (student_id, book_id, copy_id, status, remarks)
+    VALUES (_student_id, _copy.book_id, _copy.id, 'issued', 'Issued at the circulation desk')
+    RETURNING * INTO _request;
+  END IF;
+
+  RETURN QUERY
+  SELECT _request.id, b.title, _copy.accession_number, _request.due_date
+  FROM public.books b
+  WHERE b.id = _copy.book_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.desk_checkin(_barcode TEXT)
+RETURNS TABLE (
+  request_id UUID,
+  book_title TEXT,
+  accession_number TEXT,
+  student_name TEXT,
+  due_date DATE,
+  fine NUMERIC
+)
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _copy public.book_copies%ROWTYPE;
+  _request_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION USING MESSAGE = 'admin_only';
+  END IF;
+
+  SELECT c.* INTO _copy
+  FROM public.book_copies c
+  WHERE c.barcode = TRIM(_barcode) OR c.accession_number = UPPER(TRIM(_barcode));
+
+  IF _copy.id IS NULL THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'copy_not_found',
+      DETAIL = json_build_object('barcode', _barcode)::TEXT;
+  END IF;
+
+  -- Copies on the pickup shelf were never lent, so they are not checked in
+  SELECT id INTO _request_id
+  FROM public.borrow_requests
+  WHERE copy_id = _copy.id AND status IN ('issued', 'lost')
+  ORDER BY created_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF _request_id IS NULL THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'copy_not_on_loan',
+      DETAIL = json_build_object('accession_number', _copy.accession_number, 'status', _copy.status)::TEXT;
+  END IF;
+
+  UPDATE public.borrow_requests
+  SET status = 'returned', return_date = CURRENT_DATE
+  WHERE id = _request_id;
+
+  RETURN QUERY
+  SELECT
+    r.id,
+    b.title,
+    _copy.accession_number,
+    p.name,
+    r.due_date,
+    COALESCE((
+      SELECT f.amount
+      FROM public.fines f
+      WHERE f.borrow_request_id = r.id AND f.entry_type = 'charge' AND f.kind = 'overdue'
+    ), 0)::NUMERIC(10, 2)
+  FROM public.borrow_requests r
+  JOIN public.books b ON b.id = r.book_id
+  JOIN public.profiles p ON p.id = r.student_id
+  WHERE r.id = _request_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.expire_stale_borrow_requests()
+RETURNS TABLE (
+  expired_pending INTEGER,
+  expired_approvals INTEGER
+)
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _settings public.library_settings%ROWTYPE;
+  _request RECORD;
+BEGIN
+  -- Run by the scheduler with the service role key, or by an admin on demand
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION USING MESSAGE = 'admin_only';
+  END IF;
+
+  SELECT * INTO _settings FROM public.library_settings;
+  expired_pending := 0;
+  expired_approvals := 0;
+
+  FOR _request IN
+    SELECT r.id, r.student_id, b.title
+    FROM public.borrow_requests r
+    JOIN public.books b ON b.id = r.book_id
+    WHERE r.status = 'pending'
+      AND r.created_at < NOW() - make_interval(days => _settings.pending_expiry_days)
+    FOR UPDATE OF r SKIP LOCKED
+  LOOP
+    UPDATE public.borrow_requests
+    SET status = 'expired'
+    WHERE id = _request.id;
+
+    INSERT INTO public.notifications (user_id, title, body, borrow_request_id)
+    VALUES (
+      _request.student_id,
+      'Request expired',
+      format('Your request for "%s" was not processed within %s days and has expired. You can request it again.',
+             _request.title, _settings.pending_expiry_days),
+      _request.id
+    );
+
+    expired_pending := expired_pending + 1;
+  END LOOP;
+
+  -- The copy leaves the pickup shelf through sync_borrow_request_copy
+  FOR _request IN
+    SELECT r.id, r.student_id, b.title
+    FROM public.borrow_requests r
+    JOIN public.books b ON b.id = r.book_id
+    WHERE r.status = 'approved'
+      AND r.ready_at < NOW() - make_interval(days => _settings.pickup_deadline_days)
+    FOR UPDATE OF r SKIP LOCKED
+  LOOP
+    UPDATE public.borrow_requests
+    SET status = 'expired'
+    WHERE id = _request.id;
+
+    INSERT INTO public.notifications (user_id, title, body, borrow_request_id)
+    VALUES (
+      _request.student_id,
+      'Approved book not collected',
+      format('"%s" was not collected within %s days and has been returned to the shelf.',
+             _request.title, _settings.pickup_deadline_days),
+      _request.id
+    );
+
+    expired_approvals := expired_approvals + 1;
+  END LOOP;
+
+  RETURN NEXT;
+END;
+$$;
@@ -0,0 +1,249 @@
+-- Book categories managed by admins instead of a hardcoded list.
+-- A category can sit under one top-level parent as a sub-category.
+CREATE TABLE public.categories (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (LENGTH(TRIM(name)) > 0),
+  parent_id UUID REFERENCES public.categories(id) ON DELETE RESTRICT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (parent_id IS DISTINCT FROM id)
+);
+
+CREATE UNIQUE INDEX categories_name_idx ON public.categories (LOWER(name));
+CREATE INDEX categories_parent_idx ON public.categories (parent_id);
+
+ALTER TABLE public.categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view categories"
+  ON public.categories FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can insert categories"
+  ON public.categories FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update categories"
+  ON public.categories FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete categories"
+  ON public.categories FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_categories_updated_at
+  BEFORE UPDATE ON public.categories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Sub-categories are one level deep, so a parent must itself be top-level
+CREATE OR REPLACE FUNCTION public.check_category_parent()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.categories WHERE id = NEW.parent_id AND parent_id IS NOT NULL)
+     OR EXISTS (SELECT 1 FROM public.categories WHERE parent_id = NEW.id) THEN
+    RAISE EXCEPTION USING MESSAGE = 'category_too_deep';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_category_parent
+  BEFORE INSERT OR UPDATE OF parent_id ON public.categories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_category_parent();
+
+-- Seed with the old fixed list plus every category already in use
+INSERT INTO public.categories (name)
+SELECT DISTINCT ON (LOWER(name)) name
+FROM (
+  SELECT TRIM(name) AS name
+  FROM UNNEST(ARRAY['Novel', 'Autobiography', 'Study', 'History', 'Reference', 'Fiction', 'Non-Fiction']) AS name
+  UNION ALL
+  SELECT TRIM(category) FROM public.books
+  UNION ALL
+  SELECT TRIM(category) FROM public.loan_policies WHERE category IS NOT NULL
+) AS existing
+WHERE LENGTH(name) > 0
+ORDER BY LOWER(name), name;
+
+ALTER TABLE public.books
+  ADD COLUMN category_id UUID REFERENCES public.categories(id) ON DELETE RESTRICT;
+
+UPDATE public.books b
+SET category_id = c.id
+FROM public.categories c
+WHERE LOWER(c.name) = LOWER(TRIM(b.category));
+
+-- Books saved with a blank category land in a catch-all
+INSERT INTO public.categories (name)
+SELECT 'Uncategorized'
+WHERE EXISTS (SELECT 1 FROM public.books WHERE category_id IS NULL)
+ON CONFLICT DO NOTHING;
+
+UPDATE public.books
+SET category_id = (SELECT id FROM public.categories WHERE LOWER(name) = 'uncategorized')
+WHERE category_id IS NULL;
+
+ALTER TABLE public.books
+  ALTER COLUMN category_id SET NOT NULL,
+  DROP COLUMN category;
+
+CREATE INDEX books_category_idx ON public.books (category_id);
+
+-- Loan policies follow the same categories; removing a category removes its policies
+ALTER TABLE public.loan_policies
+  ADD COLUMN category_id UUID REFERENCES public.categories(id) ON DELETE CASCADE;
+
+UPDATE public.loan_policies lp
+SET category_id = c.id
+FROM public.categories c
+WHERE LOWER(c.name) = LOWER(TRIM(lp.category));
+
+DROP POLICY "Admins can delete loan policies" ON public.loan_policies;
+DROP INDEX public.loan_policies_category_role_idx;
+
+ALTER TABLE public.loan_policies DROP COLUMN category;
+
+CREATE UNIQUE INDEX loan_policies_category_role_idx
+  ON public.loan_policies (COALESCE(category_id, '00000000-0000-0000-0000-000000000000'::UUID), role);
+
+CREATE POLICY "Admins can delete loan policies"
+  ON public.loan_policies FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin') AND category_id IS NOT NULL);
+
+-- The policy for a borrower and book: the book's own category first, then
+-- its parent category, then the role default
+CREATE OR REPLACE FUNCTION public.resolve_loan_policy(_student_id UUID, _book_id UUID)
+RETURNS public.loan_policies
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT lp.*
+  FROM public.loan_policies lp
+  JOIN public.books b ON b.id = _book_id
+  JOIN public.categories c ON c.id = b.category_id
+  WHERE lp.role = CASE
+      WHEN public.has_role(_student_id, 'admin') THEN 'admin'::app_role
+      ELSE 'student'::app_role
+    END
+    AND (lp.category_id IS NULL OR lp.category_id IN (c.id, c.parent_id))
+  ORDER BY lp.category_id IS NULL, lp.category_id = c.parent_id
+  LIMIT 1
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_loan_terms(_request_id UUID, _issue_date DATE DEFAULT CURRENT_DATE)
+RETURNS TABLE (
+  policy_id UUID,
+  policy_category TEXT,
+  issue_date DATE,
+  due_date DATE,
+  loan_period_days INTEGER,
+  max_renewals INTEGER,
+  fine_per_day NUMERIC,
+  max_items INTEGER
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    c.name,
+    _issue_date,
+    public.next_open_day(_issue_date + p.loan_period_days),
+    p.loan_period_days,
+    p.max_renewals,
+    p.fine_per_day,
+    p.max_items
+  FROM public.borrow_requests r
+  CROSS JOIN LATERAL public.resolve_loan_policy(r.student_id, r.book_id) p
+  LEFT JOIN public.categories c ON c.id = p.category_id
+  WHERE r.id = _request_id
+    AND p.id IS NOT NULL
+    AND (r.student_id = auth.uid() OR public.has_role(auth.uid(), 'admin'))
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_loan_policy()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _policy public.loan_policies%ROWTYPE;
+  _used INTEGER;
+  _latest_due_date DATE;
+BEGIN
+  IF NEW.status = 'approved' AND (TG_OP = 'INSERT' OR OLD.status != 'approved') THEN
+    NEW.ready_at = NOW();
+  END IF;
+
+  IF NEW.status = 'issued' AND (TG_OP = 'INSERT' OR OLD.status != 'issued') THEN
+    NEW.issued_at = NOW();
+    NEW.issue_date = CURRENT_DATE;
+  END IF;
+
+  _policy := public.resolve_loan_policy(NEW.student_id, NEW.book_id);
+
+  IF _policy.id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- A parent category's limit covers the books in its sub-categories
+  IF TG_OP = 'INSERT' THEN
+    SELECT COUNT(*) INTO _used
+    FROM public.borrow_requests r
+    JOIN public.books b ON b.id = r.book_id
+    JOIN public.categories c ON c.id = b.category_id
+    WHERE r.student_id = NEW.student_id
+      AND r.status IN ('pending', 'approved', 'issued')
+      AND (_policy.category_id IS NULL OR _policy.category_id IN (c.id, c.parent_id));
+
+    IF _used >= _policy.max_items THEN
+      RAISE EXCEPTION USING
+        MESSAGE = 'policy_max_items_reached',
+        DETAIL = json_build_object(
+          'used', _used,
+          'limit', _policy.max_items,
+          'category', (SELECT name FROM public.categories WHERE id = _policy.category_id)
+        )::TEXT;
+    END IF;
+  END IF;
+
+  -- The loan period runs from the day the book is handed over
+  IF NEW.status = 'issued' AND (TG_OP = 'INSERT' OR OLD.status != 'issued') THEN
+    NEW.policy_id = _policy.id;
+    _latest_due_date := public.next_open_day(NEW.issue_date + _policy.loan_period_days);
+    NEW.due_date = COALESCE(NEW.due_date, _latest_due_date);
+
+    IF NEW.due_date < NEW.issue_date THEN
+      RAISE EXCEPTION USING MESSAGE = 'invalid_loan_dates';
+    END IF;
+
+    IF NEW.due_date > _latest_due_date THEN
+      RAISE EXCEPTION USING
+        MESSAGE = 'loan_period_exceeded',
+        DETAIL = json_build_object('max_days', _policy.loan_period_days)::TEXT;
+    END IF;
+
+    IF NOT public.is_library_open(NEW.due_date) THEN
+      RAISE EXCEPTION USING
+        MESSAGE = 'due_date_closed',
+        DETAIL = json_build_object('due_date', NEW.due_date)::TEXT;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
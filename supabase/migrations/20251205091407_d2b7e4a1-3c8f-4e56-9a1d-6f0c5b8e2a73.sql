@@ -0,0 +1,135 @@
+-- Full-text search over the catalog. The 'simple' configuration keeps author
+-- names and ISBNs intact and lets every word be matched as a prefix.
+ALTER TABLE public.books
+  ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', COALESCE(title, '')), 'A') ||
+    setweight(to_tsvector('simple', COALESCE(isbn, '')), 'A') ||
+    setweight(to_tsvector('simple', COALESCE(author, '')), 'B') ||
+    setweight(to_tsvector('simple', COALESCE(publisher, '')), 'C') ||
+    setweight(to_tsvector('simple', COALESCE(description, '')), 'D')
+  ) STORED;
+
+CREATE INDEX books_search_idx ON public.books USING GIN (search_vector);
+
+-- Every word of the search box as a prefix, all of them required.
+-- Words are quoted so punctuation typed by users is never read as an operator.
+CREATE OR REPLACE FUNCTION public.to_prefix_tsquery(_query TEXT)
+RETURNS TSQUERY
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT to_tsquery('simple', string_agg(quote_literal(word) || ':*', ' & '))
+  FROM regexp_split_to_table(LOWER(COALESCE(_query, '')), '[^[:alnum:]]+') AS word
+  WHERE word <> ''
+$$;
+
+-- One page of catalog results with the total number of matches. Titles and
+-- authors come back with matches wrapped in <mark> tags, descriptions as
+-- highlighted fragments.
+CREATE OR REPLACE FUNCTION public.search_books(
+  _query TEXT DEFAULT NULL,
+  _category_id UUID DEFAULT NULL,
+  _sort TEXT DEFAULT 'relevance',
+  _limit INTEGER DEFAULT 24,
+  _offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  author TEXT,
+  category_id UUID,
+  category_name TEXT,
+  description TEXT,
+  isbn TEXT,
+  photo_url TEXT,
+  publisher TEXT,
+  year_published INTEGER,
+  replacement_cost NUMERIC,
+  total_count INTEGER,
+  available_count INTEGER,
+  created_at TIMESTAMPTZ,
+  rank REAL,
+  title_highlight TEXT,
+  author_highlight TEXT,
+  description_highlight TEXT,
+  total_results BIGINT
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT public.to_prefix_tsquery(_query) AS tsq
+  ),
+  matches AS (
+    SELECT
+      b.*,
+      c.name AS category_name,
+      CASE WHEN q.tsq IS NULL THEN 0 ELSE ts_rank_cd(b.search_vector, q.tsq) END AS rank
+    FROM public.books b
+    JOIN public.categories c ON c.id = b.category_id
+    CROSS JOIN q
+    WHERE (q.tsq IS NULL OR b.search_vector @@ q.tsq)
+      AND (_category_id IS NULL OR _category_id IN (c.id, c.parent_id))
+  ),
+  ordered AS (
+    SELECT
+      m.*,
+      ROW_NUMBER() OVER (
+        ORDER BY
+          CASE WHEN _sort = 'relevance' THEN m.rank END DESC,
+          CASE WHEN _sort = 'newest' THEN m.created_at END DESC,
+          m.title,
+          m.id
+      ) AS position,
+      COUNT(*) OVER () AS total_results
+    FROM matches m
+  )
+  -- Highlighting is the expensive part, so only the requested page gets it
+  SELECT
+    o.id,
+    o.title,
+    o.author,
+    o.category_id,
+    o.category_name,
+    o.description,
+    o.isbn,
+    o.photo_url,
+    o.publisher,
+    o.year_published,
+    o.replacement_cost,
+    o.total_count,
+    o.available_count,
+    o.created_at,
+    o.rank::REAL,
+    CASE WHEN q.tsq IS NULL THEN o.title
+      ELSE ts_headline('simple', o.title, q.tsq, 'HighlightAll=true, StartSel=<mark>, StopSel=</mark>') END,
+    CASE WHEN q.tsq IS NULL THEN o.author
+      ELSE ts_headline('simple', o.author, q.tsq, 'HighlightAll=true, StartSel=<mark>, StopSel=</mark>') END,
+    CASE WHEN q.tsq IS NULL OR o.description IS NULL THEN o.description
+      ELSE ts_headline('simple', o.description, q.tsq,
+        'MaxFragments=2, MaxWords=30, MinWords=10, FragmentDelimiter=" … ", StartSel=<mark>, StopSel=</mark>') END,
+    o.total_results
+  FROM ordered o
+  CROSS JOIN q
+  WHERE o.position > GREATEST(_offset, 0)
+    AND o.position <= GREATEST(_offset, 0) + LEAST(GREATEST(_limit, 1), 100)
+  ORDER BY o.position
+$$;
+
+-- Headline numbers for the admin dashboard without loading the catalog
+CREATE OR REPLACE FUNCTION public.get_catalog_stats()
+RETURNS TABLE (
+  total_books BIGINT,
+  available_copies BIGINT
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COUNT(*), COALESCE(SUM(available_count), 0)
+  FROM public.books
+$$;
@@ -0,0 +1,220 @@
+-- Typo-tolerant catalog search: trigram similarity on titles and author
+-- names, plus admin-maintained aliases for authors whose names are written
+-- in several Latin spellings (Basheer/Bashir, Muhammad/Mohammed).
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+-- A spelling-insensitive key for a name: lower case, common transliteration
+-- pairs folded together, vowels after the first letter of each word dropped
+-- and doubled letters collapsed. "Muhammad" and "Mohammed" both give "mhmd".
+CREATE OR REPLACE FUNCTION public.name_key(_name TEXT)
+RETURNS TEXT
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT NULLIF(TRIM(
+    regexp_replace(
+      regexp_replace(
+        regexp_replace(
+          replace(replace(replace(replace(replace(replace(replace(
+            regexp_replace(LOWER(COALESCE(_name, '')), '[^[:alnum:]]+', ' ', 'g'),
+            'ph', 'f'), 'kh', 'k'), 'gh', 'g'), 'q', 'k'), 'w', 'v'), 'z', 's'), 'th', 't'),
+          '(\w)[aeiouy]+', '\1', 'g'),
+        '(\w)\1+', '\1', 'g'),
+      '\s+', ' ', 'g')
+  ), '')
+$$;
+
+ALTER TABLE public.books
+  ADD COLUMN author_key TEXT GENERATED ALWAYS AS (public.name_key(author)) STORED;
+
+CREATE INDEX books_title_trgm_idx ON public.books USING GIN (LOWER(title) extensions.gin_trgm_ops);
+CREATE INDEX books_author_key_trgm_idx ON public.books USING GIN (author_key extensions.gin_trgm_ops);
+
+-- Another spelling of an author's name that should find the author's books
+CREATE TABLE public.author_aliases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  author TEXT NOT NULL CHECK (LENGTH(TRIM(author)) > 0),
+  alias TEXT NOT NULL CHECK (LENGTH(TRIM(alias)) > 0),
+  alias_key TEXT GENERATED ALWAYS AS (public.name_key(alias)) STORED,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX author_aliases_author_alias_idx
+  ON public.author_aliases (LOWER(author), LOWER(alias));
+
+ALTER TABLE public.author_aliases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view author aliases"
+  ON public.author_aliases FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can insert author aliases"
+  ON public.author_aliases FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update author aliases"
+  ON public.author_aliases FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete author aliases"
+  ON public.author_aliases FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Full-text matches rank first; books found only by a close spelling of the
+-- title or author, or through an author alias, follow in similarity order.
+CREATE OR REPLACE FUNCTION public.search_books(
+  _query TEXT DEFAULT NULL,
+  _category_id UUID DEFAULT NULL,
+  _sort TEXT DEFAULT 'relevance',
+  _limit INTEGER DEFAULT 24,
+  _offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  author TEXT,
+  category_id UUID,
+  category_name TEXT,
+  description TEXT,
+  isbn TEXT,
+  photo_url TEXT,
+  publisher TEXT,
+  year_published INTEGER,
+  replacement_cost NUMERIC,
+  total_count INTEGER,
+  available_count INTEGER,
+  created_at TIMESTAMPTZ,
+  rank REAL,
+  title_highlight TEXT,
+  author_highlight TEXT,
+  description_highlight TEXT,
+  total_results BIGINT
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+SET pg_trgm.word_similarity_threshold = 0.5
+AS $$
+  WITH q AS (
+    SELECT
+      public.to_prefix_tsquery(_query) AS tsq,
+      NULLIF(LOWER(TRIM(_query)), '') AS phrase,
+      public.name_key(_query) AS key
+  ),
+  aliased_authors AS (
+    SELECT DISTINCT public.name_key(aa.author) AS author_key
+    FROM public.author_aliases aa
+    CROSS JOIN q
+    WHERE aa.alias_key <% q.key
+  ),
+  matches AS (
+    SELECT
+      b.*,
+      c.name AS category_name,
+      CASE WHEN q.tsq IS NULL THEN 0 ELSE
+        CASE WHEN b.search_vector @@ q.tsq THEN 1 + ts_rank_cd(b.search_vector, q.tsq) ELSE 0 END
+        + GREATEST(
+          word_similarity(q.phrase, LOWER(b.title)),
+          word_similarity(q.key, b.author_key),
+          CASE WHEN b.author_key IN (SELECT author_key FROM aliased_authors) THEN 1 ELSE 0 END
+        )
+      END AS rank
+    FROM public.books b
+    JOIN public.categories c ON c.id = b.category_id
+    CROSS JOIN q
+    WHERE (
+        q.tsq IS NULL
+        OR b.search_vector @@ q.tsq
+        OR q.phrase <% LOWER(b.title)
+        OR q.key <% b.author_key
+        OR b.author_key IN (SELECT author_key FROM aliased_authors)
+      )
+      AND (_category_id IS NULL OR _category_id IN (c.id, c.parent_id))
+  ),
+  ordered AS (
+    SELECT
+      m.*,
+      ROW_NUMBER() OVER (
+        ORDER BY
+          CASE WHEN _sort = 'relevance' THEN m.rank END DESC,
+          CASE WHEN _sort = 'newest' THEN m.created_at END DESC,
+          m.title,
+          m.id
+      ) AS position,
+      COUNT(*) OVER () AS total_results
+    FROM matches m
+  )
+  -- Highlighting is the expensive part, so only the requested page gets it
+  SELECT
+    o.id,
+    o.title,
+    o.author,
+    o.category_id,
+    o.category_name,
+    o.description,
+    o.isbn,
+    o.photo_url,
+    o.publisher,
+    o.year_published,
+    o.replacement_cost,
+    o.total_count,
+    o.available_count,
+    o.created_at,
+    o.rank::REAL,
+    CASE WHEN q.tsq IS NULL THEN o.title
+      ELSE ts_headline('simple', o.title, q.tsq, 'HighlightAll=true, StartSel=<mark>, StopSel=</mark>') END,
+    CASE WHEN q.tsq IS NULL THEN o.author
+      ELSE ts_headline('simple', o.author, q.tsq, 'HighlightAll=true, StartSel=<mark>, StopSel=</mark>') END,
+    CASE WHEN q.tsq IS NULL OR o.description IS NULL THEN o.description
+      ELSE ts_headline('simple', o.description, q.tsq,
+        'MaxFragments=2, MaxWords=30, MinWords=10, FragmentDelimiter=" … ", StartSel=<mark>, StopSel=</mark>') END,
+    o.total_results
+  FROM ordered o
+  CROSS JOIN q
+  WHERE o.position > GREATEST(_offset, 0)
+    AND o.position <= GREATEST(_offset, 0) + LEAST(GREATEST(_limit, 1), 100)
+  ORDER BY o.position
+$$;
+
+-- "Did you mean" candidates: titles and author names (with the author an
+-- alias points to) that look like the search text
+CREATE OR REPLACE FUNCTION public.suggest_search_terms(_query TEXT, _limit INTEGER DEFAULT 3)
+RETURNS TABLE (
+  suggestion TEXT,
+  kind TEXT,
+  score REAL
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+SET pg_trgm.similarity_threshold = 0.3
+AS $$
+  WITH q AS (
+    SELECT LOWER(TRIM(_query)) AS phrase, public.name_key(_query) AS key
+  ),
+  candidates AS (
+    SELECT DISTINCT ON (LOWER(b.title)) b.title AS suggestion, 'title' AS kind, similarity(q.phrase, LOWER(b.title)) AS score
+    FROM public.books b, q
+    WHERE q.phrase % LOWER(b.title)
+    UNION ALL
+    SELECT DISTINCT ON (b.author_key) b.author, 'author', similarity(q.key, b.author_key)
+    FROM public.books b, q
+    WHERE q.key % b.author_key
+    UNION ALL
+    SELECT aa.author, 'author', similarity(q.key, aa.alias_key)
+    FROM public.author_aliases aa, q
+    WHERE q.key % aa.alias_key
+  )
+  SELECT suggestion, kind, score::REAL
+  FROM (
+    SELECT DISTINCT ON (LOWER(suggestion)) suggestion, kind, score
+    FROM candidates
+    WHERE LOWER(suggestion) <> (SELECT phrase FROM q)
+    ORDER BY LOWER(suggestion), score DESC
+  ) AS best
+  ORDER BY score DESC, suggestion
+  LIMIT LEAST(GREATEST(_limit, 1), 10)
+$$;
@@ -0,0 +1,215 @@
+-- Faceted catalog filtering: publisher, language, publication year and
+-- availability, with counts computed for the current search.
+ALTER TABLE public.books ADD COLUMN language TEXT;
+
+CREATE INDEX books_publisher_idx ON public.books (TRIM(publisher));
+CREATE INDEX books_language_idx ON public.books (language);
+CREATE INDEX books_year_published_idx ON public.books (year_published);
+
+-- The books matching a search and its filters, with their relevance.
+-- Shared by search_books and get_search_facets so both see the same matches.
+-- Empty filter arrays mean "any".
+CREATE OR REPLACE FUNCTION public.match_books(
+  _query TEXT DEFAULT NULL,
+  _category_id UUID DEFAULT NULL,
+  _publishers TEXT[] DEFAULT NULL,
+  _languages TEXT[] DEFAULT NULL,
+  _year_from INTEGER DEFAULT NULL,
+  _year_to INTEGER DEFAULT NULL,
+  _available_only BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (
+  book_id UUID,
+  rank REAL
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+SET pg_trgm.word_similarity_threshold = 0.5
+AS $$
+  WITH q AS (
+    SELECT
+      public.to_prefix_tsquery(_query) AS tsq,
+      NULLIF(LOWER(TRIM(_query)), '') AS phrase,
+      public.name_key(_query) AS key
+  ),
+  aliased_authors AS (
+    SELECT DISTINCT public.name_key(aa.author) AS author_key
+    FROM public.author_aliases aa
+    CROSS JOIN q
+    WHERE aa.alias_key <% q.key
+  )
+  SELECT
+    b.id,
+    (CASE WHEN q.tsq IS NULL THEN 0 ELSE
+      CASE WHEN b.search_vector @@ q.tsq THEN 1 + ts_rank_cd(b.search_vector, q.tsq) ELSE 0 END
+      + GREATEST(
+        word_similarity(q.phrase, LOWER(b.title)),
+        word_similarity(q.key, b.author_key),
+        CASE WHEN b.author_key IN (SELECT author_key FROM aliased_authors) THEN 1 ELSE 0 END
+      )
+    END)::REAL
+  FROM public.books b
+  JOIN public.categories c ON c.id = b.category_id
+  CROSS JOIN q
+  WHERE (
+      q.tsq IS NULL
+      OR b.search_vector @@ q.tsq
+      OR q.phrase <% LOWER(b.title)
+      OR q.key <% b.author_key
+      OR b.author_key IN (SELECT author_key FROM aliased_authors)
+    )
+    AND (_category_id IS NULL OR _category_id IN (c.id, c.parent_id))
+    AND (COALESCE(cardinality(_publishers), 0) = 0 OR TRIM(b.publisher) = ANY(_publishers))
+    AND (COALESCE(cardinality(_languages), 0) = 0 OR b.language = ANY(_languages))
+    AND (_year_from IS NULL OR b.year_published >= _year_from)
+    AND (_year_to IS NULL OR b.year_published <= _year_to)
+    AND (NOT COALESCE(_available_only, FALSE) OR b.available_count > 0)
+$$;
+
+DROP FUNCTION public.search_books(TEXT, UUID, TEXT, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_books(
+  _query TEXT DEFAULT NULL,
+  _category_id UUID DEFAULT NULL,
+  _sort TEXT DEFAULT 'relevance',
+  _limit INTEGER DEFAULT 24,
+  _offset INTEGER DEFAULT 0,
+  _publishers TEXT[] DEFAULT NULL,
+  _languages TEXT[] DEFAULT NULL,
+  _year_from INTEGER DEFAULT NULL,
+  _year_to INTEGER DEFAULT NULL,
+  _available_only BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  author TEXT,
+  category_id UUID,
+  category_name TEXT,
+  description TEXT,
+  isbn TEXT,
+  photo_url TEXT,
+  publisher TEXT,
+  year_published INTEGER,
+  language TEXT,
+  replacement_cost NUMERIC,
+  total_count INTEGER,
+  available_count INTEGER,
+  created_at TIMESTAMPTZ,
+  rank REAL,
+  title_highlight TEXT,
+  author_highlight TEXT,
+  description_highlight TEXT,
+  total_results BIGINT
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH ordered AS (
+    SELECT
+      b.*,
+      c.name AS category_name,
+      m.rank,
+      ROW_NUMBER() OVER (
+        ORDER BY
+          CASE WHEN _sort = 'relevance' THEN m.rank END DESC,
+          CASE WHEN _sort = 'newest' THEN b.created_at END DESC,
+          b.title,
+          b.id
+      ) AS position,
+      COUNT(*) OVER () AS total_results
+    FROM public.match_books(_query, _category_id, _publishers, _languages, _year_from, _year_to, _available_only) m
+    JOIN public.books b ON b.id = m.book_id
+    JOIN public.categories c ON c.id = b.category_id
+  ),
+  q AS (
+    SELECT public.to_prefix_tsquery(_query) AS tsq
+  )
+  -- Highlighting is the expensive part, so only the requested page gets it
+  SELECT
+    o.id,
+    o.title,
+    o.author,
+    o.category_id,
+    o.category_name,
+    o.description,
+    o.isbn,
+    o.photo_url,
+    o.publisher,
+    o.year_published,
+    o.language,
+    o.replacement_cost,
+    o.total_count,
+    o.available_count,
+    o.created_at,
+    o.rank,
+    CASE WHEN q.tsq IS NULL THEN o.title
+      ELSE ts_headline('simple', o.title, q.tsq, 'HighlightAll=true, StartSel=<mark>, StopSel=</mark>') END,
+    CASE WHEN q.tsq IS NULL THEN o.author
+      ELSE ts_headline('simple', o.author, q.tsq, 'HighlightAll=true, StartSel=<mark>, StopSel=</mark>') END,
+    CASE WHEN q.tsq IS NULL OR o.description IS NULL THEN o.description
+      ELSE ts_headline('simple', o.description, q.tsq,
+        'MaxFragments=2, MaxWords=30, MinWords=10, FragmentDelimiter=" … ", StartSel=<mark>, StopSel=</mark>') END,
+    o.total_results
+  FROM ordered o
+  CROSS JOIN q
+  WHERE o.position > GREATEST(_offset, 0)
+    AND o.position <= GREATEST(_offset, 0) + LEAST(GREATEST(_limit, 1), 100)
+  ORDER BY o.position
+$$;
+
+-- Book counts per facet value for a search. Each facet is counted with every
+-- other filter applied but not its own, so picking one publisher still shows
+-- how many books the other publishers would add.
+CREATE OR REPLACE FUNCTION public.get_search_facets(
+  _query TEXT DEFAULT NULL,
+  _category_id UUID DEFAULT NULL,
+  _publishers TEXT[] DEFAULT NULL,
+  _languages TEXT[] DEFAULT NULL,
+  _year_from INTEGER DEFAULT NULL,
+  _year_to INTEGER DEFAULT NULL,
+  _available_only BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (
+  facet TEXT,
+  value TEXT,
+  book_count BIGINT
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT 'publisher', TRIM(b.publisher), COUNT(*)
+  FROM public.match_books(_query, _category_id, NULL, _languages, _year_from, _year_to, _available_only) m
+  JOIN public.books b ON b.id = m.book_id
+  WHERE NULLIF(TRIM(b.publisher), '') IS NOT NULL
+  GROUP BY TRIM(b.publisher)
+
+  UNION ALL
+
+  SELECT 'language', b.language, COUNT(*)
+  FROM public.match_books(_query, _category_id, _publishers, NULL, _year_from, _year_to, _available_only) m
+  JOIN public.books b ON b.id = m.book_id
+  WHERE b.language IS NOT NULL
+  GROUP BY b.language
+
+  UNION ALL
+
+  SELECT 'year', b.year_published::TEXT, COUNT(*)
+  FROM public.match_books(_query, _category_id, _publishers, _languages, NULL, NULL, _available_only) m
+  JOIN public.books b ON b.id = m.book_id
+  WHERE b.year_published IS NOT NULL
+  GROUP BY b.year_published
+
+  UNION ALL
+
+  SELECT 'availability', 'available', COUNT(*)
+  FROM public.match_books(_query, _category_id, _publishers, _languages, _year_from, _year_to, FALSE) m
+  JOIN public.books b ON b.id = m.book_id
+  WHERE b.available_count > 0
+$$;
@@ -0,0 +1,310 @@
+-- Advanced search syntax. The client parses fielded terms, ranges, negation
+-- and quoted phrases (author:iqbal year:>1990 -available:0 "old man") into a
+-- JSON list of terms; plain words keep going through _query for ranking.
+--
+-- Each term is {field, op, value, value_to, negate, phrase} where field is
+-- any, title, author, publisher, isbn, category, language, year or available
+-- and op is one of =, >, >=, <, <= or .. (an inclusive range up to value_to).
+
+-- Whether a book satisfies one search term, ignoring its negate flag
+CREATE OR REPLACE FUNCTION public.book_matches_term(
+  _book public.books,
+  _category_name TEXT,
+  _parent_category_name TEXT,
+  _term JSONB
+)
+RETURNS BOOLEAN
+LANGUAGE PLPGSQL
+STABLE
+SET search_path = public, extensions
+AS $$
+DECLARE
+  _field TEXT := _term->>'field';
+  _op TEXT := COALESCE(_term->>'op', '=');
+  _value TEXT := LOWER(TRIM(COALESCE(_term->>'value', '')));
+  _value_key TEXT;
+  _actual INTEGER;
+BEGIN
+  IF _value = '' THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'invalid_search_term',
+      DETAIL = json_build_object('field', _field, 'value', _term->>'value')::TEXT;
+  END IF;
+
+  IF _field IN ('year', 'available') THEN
+    IF _value !~ '^\d{1,9}$'
+       OR _op NOT IN ('=', '>', '>=', '<', '<=', '..')
+       OR (_op = '..' AND COALESCE(_term->>'value_to', '') !~ '^\d{1,9}$') THEN
+      RAISE EXCEPTION USING
+        MESSAGE = 'invalid_search_term',
+        DETAIL = json_build_object('field', _field, 'value', _term->>'value')::TEXT;
+    END IF;
+
+    _actual := CASE WHEN _field = 'year' THEN _book.year_published ELSE _book.available_count END;
+
+    RETURN COALESCE(CASE _op
+      WHEN '=' THEN _actual = _value::INTEGER
+      WHEN '>' THEN _actual > _value::INTEGER
+      WHEN '>=' THEN _actual >= _value::INTEGER
+      WHEN '<' THEN _actual < _value::INTEGER
+      WHEN '<=' THEN _actual <= _value::INTEGER
+      WHEN '..' THEN _actual BETWEEN _value::INTEGER AND (_term->>'value_to')::INTEGER
+    END, FALSE);
+  END IF;
+
+  CASE _field
+    WHEN 'any' THEN
+      RETURN _book.search_vector @@ CASE
+        WHEN COALESCE((_term->>'phrase')::BOOLEAN, FALSE) THEN phraseto_tsquery('simple', _value)
+        ELSE public.to_prefix_tsquery(_value)
+      END;
+    WHEN 'title' THEN
+      RETURN strpos(LOWER(_book.title), _value) > 0;
+    WHEN 'author' THEN
+      _value_key := public.name_key(_value);
+      RETURN strpos(LOWER(_book.author), _value) > 0
+        OR word_similarity(_value_key, _book.author_key) >= 0.5
+        OR EXISTS (
+          SELECT 1
+          FROM public.author_aliases aa
+          WHERE word_similarity(aa.alias_key, _value_key) >= 0.5
+            AND public.name_key(aa.author) = _book.author_key
+        );
+    WHEN 'publisher' THEN
+      RETURN strpos(LOWER(COALESCE(_book.publisher, '')), _value) > 0;
+    WHEN 'isbn' THEN
+      RETURN strpos(REPLACE(LOWER(COALESCE(_book.isbn, '')), '-', ''), REPLACE(_value, '-', '')) > 0;
+    WHEN 'category' THEN
+      RETURN strpos(LOWER(_category_name), _value) > 0
+        OR strpos(LOWER(COALESCE(_parent_category_name, '')), _value) > 0;
+    WHEN 'language' THEN
+      RETURN LOWER(COALESCE(_book.language, '')) LIKE _value || '%';
+    ELSE
+      RAISE EXCEPTION USING
+        MESSAGE = 'invalid_search_term',
+        DETAIL = json_build_object('field', _field, 'value', _term->>'value')::TEXT;
+  END CASE;
+END;
+$$;
+
+DROP FUNCTION public.get_search_facets(TEXT, UUID, TEXT[], TEXT[], INTEGER, INTEGER, BOOLEAN);
+DROP FUNCTION public.search_books(TEXT, UUID, TEXT, INTEGER, INTEGER, TEXT[], TEXT[], INTEGER, INTEGER, BOOLEAN);
+DROP FUNCTION public.match_books(TEXT, UUID, TEXT[], TEXT[], INTEGER, INTEGER, BOOLEAN);
+
+-- The books matching a search and its filters, with their relevance.
+-- Shared by search_books and get_search_facets so both see the same matches.
+-- Empty filter arrays mean "any".
+CREATE OR REPLACE FUNCTION public.match_books(
+  _query TEXT DEFAULT NULL,
+  _category_id UUID DEFAULT NULL,
+  _publishers TEXT[] DEFAULT NULL,
+  _languages TEXT[] DEFAULT NULL,
+  _year_from INTEGER DEFAULT NULL,
+  _year_to INTEGER DEFAULT NULL,
+  _available_only BOOLEAN DEFAULT FALSE,
+  _terms JSONB DEFAULT NULL
+)
+RETURNS TABLE (
+  book_id UUID,
+  rank REAL
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+SET pg_trgm.word_similarity_threshold = 0.5
+AS $$
+  WITH q AS (
+    SELECT
+      public.to_prefix_tsquery(_query) AS tsq,
+      NULLIF(LOWER(TRIM(_query)), '') AS phrase,
+      public.name_key(_query) AS key
+  ),
+  aliased_authors AS (
+    SELECT DISTINCT public.name_key(aa.author) AS author_key
+    FROM public.author_aliases aa
+    CROSS JOIN q
+    WHERE aa.alias_key <% q.key
+  )
+  SELECT
+    b.id,
+    (CASE WHEN q.tsq IS NULL THEN 0 ELSE
+      CASE WHEN b.search_vector @@ q.tsq THEN 1 + ts_rank_cd(b.search_vector, q.tsq) ELSE 0 END
+      + GREATEST(
+        word_similarity(q.phrase, LOWER(b.title)),
+        word_similarity(q.key, b.author_key),
+        CASE WHEN b.author_key IN (SELECT author_key FROM aliased_authors) THEN 1 ELSE 0 END
+      )
+    END)::REAL
+  FROM public.books b
+  JOIN public.categories c ON c.id = b.category_id
+  LEFT JOIN public.categories pc ON pc.id = c.parent_id
+  CROSS JOIN q
+  WHERE (
+      q.tsq IS NULL
+      OR b.search_vector @@ q.tsq
+      OR q.phrase <% LOWER(b.title)
+      OR q.key <% b.author_key
+      OR b.author_key IN (SELECT author_key FROM aliased_authors)
+    )
+    AND (_category_id IS NULL OR _category_id IN (c.id, c.parent_id))
+    AND (COALESCE(cardinality(_publishers), 0) = 0 OR TRIM(b.publisher) = ANY(_publishers))
+    AND (COALESCE(cardinality(_languages), 0) = 0 OR b.language = ANY(_languages))
+    AND (_year_from IS NULL OR b.year_published >= _year_from)
+    AND (_year_to IS NULL OR b.year_published <= _year_to)
+    AND (NOT COALESCE(_available_only, FALSE) OR b.available_count > 0)
+    -- Every term must match, or must not match when negated
+    AND NOT EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(COALESCE(_terms, '[]'::JSONB)) AS t(term)
+      WHERE public.book_matches_term(b, c.name, pc.name, t.term) = COALESCE((t.term->>'negate')::BOOLEAN, FALSE)
+    )
+$$;
+
+CREATE OR REPLACE FUNCTION public.search_books(
+  _query TEXT DEFAULT NULL,
+  _category_id UUID DEFAULT NULL,
+  _sort TEXT DEFAULT 'relevance',
+  _limit INTEGER DEFAULT 24,
+  _offset INTEGER DEFAULT 0,
+  _publishers TEXT[] DEFAULT NULL,
+  _languages TEXT[] DEFAULT NULL,
+  _year_from INTEGER DEFAULT NULL,
+  _year_to INTEGER DEFAULT NULL,
+  _available_only BOOLEAN DEFAULT FALSE,
+  _terms JSONB DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  author TEXT,
+  category_id UUID,
+  category_name TEXT,
+  description TEXT,
+  isbn TEXT,
+  photo_url TEXT,
+  publisher TEXT,
+  year_published INTEGER,
+  language TEXT,
+  replacement_cost NUMERIC,
+  total_count INTEGER,
+  available_count INTEGER,
+  created_at TIMESTAMPTZ,
+  rank REAL,
+  title_highlight TEXT,
+  author_highlight TEXT,
+  description_highlight TEXT,
+  total_results BIGINT
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH ordered AS (
+    SELECT
+      b.*,
+      c.name AS category_name,
+      m.rank,
+      ROW_NUMBER() OVER (
+        ORDER BY
+          CASE WHEN _sort = 'relevance' THEN m.rank END DESC,
+          CASE WHEN _sort = 'newest' THEN b.created_at END DESC,
+          b.title,
+          b.id
+      ) AS position,
+      COUNT(*) OVER () AS total_results
+    FROM public.match_books(
+      _query, _category_id, _publishers, _languages, _year_from, _year_to, _available_only, _terms
+    ) m
+    JOIN public.books b ON b.id = m.book_id
+    JOIN public.categories c ON c.id = b.category_id
+  ),
+  q AS (
+    SELECT public.to_prefix_tsquery(_query) AS tsq
+  )
+  -- Highlighting is the expensive part, so only the requested page gets it
+  SELECT
+    o.id,
+    o.title,
+    o.author,
+    o.category_id,
+    o.category_name,
+    o.description,
+    o.isbn,
+    o.photo_url,
+    o.publisher,
+    o.year_published,
+    o.language,
+    o.replacement_cost,
+    o.total_count,
+    o.available_count,
+    o.created_at,
+    o.rank,
+    CASE WHEN q.tsq IS NULL THEN o.title
+      ELSE ts_headline('simple', o.title, q.tsq, 'HighlightAll=true, StartSel=<mark>, StopSel=</mark>') END,
+    CASE WHEN q.tsq IS NULL THEN o.author
+      ELSE ts_headline('simple', o.author, q.tsq, 'HighlightAll=true, StartSel=<mark>, StopSel=</mark>') END,
+    CASE WHEN q.tsq IS NULL OR o.description IS NULL THEN o.description
+      ELSE ts_headline('simple', o.description, q.tsq,
+        'MaxFragments=2, MaxWords=30, MinWords=10, FragmentDelimiter=" … ", StartSel=<mark>, StopSel=</mark>') END,
+    o.total_results
+  FROM ordered o
+  CROSS JOIN q
+  WHERE o.position > GREATEST(_offset, 0)
+    AND o.position <= GREATEST(_offset, 0) + LEAST(GREATEST(_limit, 1), 100)
+  ORDER BY o.position
+$$;
+
+-- Book counts per facet value for a search. Each facet is counted with every
+-- other filter applied but not its own, so picking one publisher still shows
+-- how many books the other publishers would add.
+CREATE OR REPLACE FUNCTION public.get_search_facets(
+  _query TEXT DEFAULT NULL,
+  _category_id UUID DEFAULT NULL,
+  _publishers TEXT[] DEFAULT NULL,
+  _languages TEXT[] DEFAULT NULL,
+  _year_from INTEGER DEFAULT NULL,
+  _year_to INTEGER DEFAULT NULL,
+  _available_only BOOLEAN DEFAULT FALSE,
+  _terms JSONB DEFAULT NULL
+)
+RETURNS TABLE (
+  facet TEXT,
+  value TEXT,
+  book_count BIGINT
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT 'publisher', TRIM(b.publisher), COUNT(*)
+  FROM public.match_books(_query, _category_id, NULL, _languages, _year_from, _year_to, _available_only, _terms) m
+  JOIN public.books b ON b.id = m.book_id
+  WHERE NULLIF(TRIM(b.publisher), '') IS NOT NULL
+  GROUP BY TRIM(b.publisher)
+
+  UNION ALL
+
+  SELECT 'language', b.language, COUNT(*)
+  FROM public.match_books(_query, _category_id, _publishers, NULL, _year_from, _year_to, _available_only, _terms) m
+  JOIN public.books b ON b.id = m.book_id
+  WHERE b.language IS NOT NULL
+  GROUP BY b.language
+
+  UNION ALL
+
+  SELECT 'year', b.year_published::TEXT, COUNT(*)
+  FROM public.match_books(_query, _category_id, _publishers, _languages, NULL, NULL, _available_only, _terms) m
+  JOIN public.books b ON b.id = m.book_id
+  WHERE b.year_published IS NOT NULL
+  GROUP BY b.year_published
+
+  UNION ALL
+
+  SELECT 'availability', 'available', COUNT(*)
+  FROM public.match_books(_query, _category_id, _publishers, _languages, _year_from, _year_to, FALSE, _terms) m
+  JOIN public.books b ON b.id = m.book_id
+  WHERE b.available_count > 0
+$$;
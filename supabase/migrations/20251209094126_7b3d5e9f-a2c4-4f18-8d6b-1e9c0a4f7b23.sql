@@ -0,0 +1,103 @@
+-- "Most borrowed" catalog sort: books ordered by how many times they have
+-- been lent out, counting every request that reached the desk.
+CREATE INDEX borrow_requests_book_issued_idx
+  ON public.borrow_requests (book_id)
+  WHERE issued_at IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.search_books(
+  _query TEXT DEFAULT NULL,
+  _category_id UUID DEFAULT NULL,
+  _sort TEXT DEFAULT 'relevance',
+  _limit INTEGER DEFAULT 24,
+  _offset INTEGER DEFAULT 0,
+  _publishers TEXT[] DEFAULT NULL,
+  _languages TEXT[] DEFAULT NULL,
+  _year_from INTEGER DEFAULT NULL,
+  _year_to INTEGER DEFAULT NULL,
+  _available_only BOOLEAN DEFAULT FALSE,
+  _terms JSONB DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  author TEXT,
+  category_id UUID,
+  category_name TEXT,
+  description TEXT,
+  isbn TEXT,
+  photo_url TEXT,
+  publisher TEXT,
+  year_published INTEGER,
+  language TEXT,
+  replacement_cost NUMERIC,
+  total_count INTEGER,
+  available_count INTEGER,
+  created_at TIMESTAMPTZ,
+  rank REAL,
+  title_highlight TEXT,
+  author_highlight TEXT,
+  description_highlight TEXT,
+  total_results BIGINT
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH ordered AS (
+    SELECT
+      b.*,
+      c.name AS category_name,
+      m.rank,
+      ROW_NUMBER() OVER (
+        ORDER BY
+          CASE WHEN _sort = 'relevance' THEN m.rank END DESC,
+          CASE WHEN _sort = 'newest' THEN b.created_at END DESC,
+          CASE WHEN _sort = 'most_borrowed' THEN (
+            SELECT COUNT(*) FROM public.borrow_requests br WHERE br.book_id = b.id AND br.issued_at IS NOT NULL
+          ) END DESC,
+          b.title,
+          b.id
+      ) AS position,
+      COUNT(*) OVER () AS total_results
+    FROM public.match_books(
+      _query, _category_id, _publishers, _languages, _year_from, _year_to, _available_only, _terms
+    ) m
+    JOIN public.books b ON b.id = m.book_id
+    JOIN public.categories c ON c.id = b.category_id
+  ),
+  q AS (
+    SELECT public.to_prefix_tsquery(_query) AS tsq
+  )
+  -- Highlighting is the expensive part, so only the requested page gets it
+  SELECT
+    o.id,
+    o.title,
+    o.author,
+    o.category_id,
+    o.category_name,
+    o.description,
+    o.isbn,
+    o.photo_url,
+    o.publisher,
+    o.year_published,
+    o.language,
+    o.replacement_cost,
+    o.total_count,
+    o.available_count,
+    o.created_at,
+    o.rank,
+    CASE WHEN q.tsq IS NULL THEN o.title
+      ELSE ts_headline('simple', o.title, q.tsq, 'HighlightAll=true, StartSel=<mark>, StopSel=</mark>') END,
+    CASE WHEN q.tsq IS NULL THEN o.author
+      ELSE ts_headline('simple', o.author, q.tsq, 'HighlightAll=true, StartSel=<mark>, StopSel=</mark>') END,
+    CASE WHEN q.tsq IS NULL OR o.description IS NULL THEN o.description
+      ELSE ts_headline('simple', o.description, q.tsq,
+        'MaxFragments=2, MaxWords=30, MinWords=10, FragmentDelimiter=" … ", StartSel=<mark>, StopSel=</mark>') END,
+    o.total_results
+  FROM ordered o
+  CROSS JOIN q
+  WHERE o.position > GREATEST(_offset, 0)
+    AND o.position <= GREATEST(_offset, 0) + LEAST(GREATEST(_limit, 1), 100)
+  ORDER BY o.position
+$$;
@@ -0,0 +1,60 @@
+-- Book detail page: circulation figures and related titles. Holds and loans
+-- are private to each student, so only the counts are exposed here.
+CREATE OR REPLACE FUNCTION public.get_book_activity(_book_id UUID)
+RETURNS TABLE (
+  holds_waiting INTEGER,
+  holds_ready INTEGER,
+  on_loan INTEGER,
+  times_borrowed INTEGER,
+  distinct_borrowers INTEGER,
+  last_borrowed_at TIMESTAMPTZ,
+  next_due_date DATE
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    (SELECT COUNT(*)::INTEGER FROM public.holds WHERE book_id = _book_id AND status = 'waiting'),
+    (SELECT COUNT(*)::INTEGER FROM public.holds WHERE book_id = _book_id AND status = 'ready'),
+    COUNT(*) FILTER (WHERE br.status = 'issued')::INTEGER,
+    COUNT(*)::INTEGER,
+    COUNT(DISTINCT br.student_id)::INTEGER,
+    MAX(br.issued_at),
+    MIN(br.due_date) FILTER (WHERE br.status = 'issued')
+  FROM public.borrow_requests br
+  WHERE br.book_id = _book_id
+    AND br.issued_at IS NOT NULL
+$$;
+
+-- Other books by the same author (matched on name_key, so spelling variants
+-- count) followed by books from the same category
+CREATE OR REPLACE FUNCTION public.get_related_books(_book_id UUID, _limit INTEGER DEFAULT 6)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  author TEXT,
+  photo_url TEXT,
+  year_published INTEGER,
+  available_count INTEGER,
+  total_count INTEGER,
+  relation TEXT
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH source AS (
+    SELECT author_key, category_id FROM public.books WHERE id = _book_id
+  )
+  SELECT b.id, b.title, b.author, b.photo_url, b.year_published, b.available_count, b.total_count,
+    CASE WHEN b.author_key = s.author_key THEN 'author' ELSE 'category' END
+  FROM public.books b
+  CROSS JOIN source s
+  WHERE b.id <> _book_id
+    AND (b.author_key = s.author_key OR b.category_id = s.category_id)
+  ORDER BY (b.author_key = s.author_key) DESC, (b.available_count > 0) DESC, b.title
+  LIMIT LEAST(GREATEST(_limit, 1), 24)
+$$;
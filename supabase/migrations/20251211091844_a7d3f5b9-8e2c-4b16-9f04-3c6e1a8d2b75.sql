@@ -0,0 +1,99 @@
+-- Bulk book import. ISBNs are compared without hyphens, spaces or case so
+-- "978-81-264-1234-5" and "9788126412345" are recognised as the same book.
+CREATE OR REPLACE FUNCTION public.normalize_isbn(_isbn TEXT)
+RETURNS TEXT
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT NULLIF(UPPER(regexp_replace(COALESCE(_isbn, ''), '[^0-9Xx]', '', 'g')), '')
+$$;
+
+CREATE INDEX books_normalized_isbn_idx ON public.books (public.normalize_isbn(isbn));
+
+-- Catalog books already carrying any of the given ISBNs
+CREATE OR REPLACE FUNCTION public.find_books_by_isbn(_isbns TEXT[])
+RETURNS TABLE (
+  isbn TEXT,
+  book_id UUID,
+  title TEXT
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.normalize_isbn(b.isbn), b.id, b.title
+  FROM public.books b
+  WHERE public.normalize_isbn(b.isbn) IN (SELECT public.normalize_isbn(unnest(_isbns)))
+$$;
+
+-- Adds a batch of validated rows, each with its copies. Rows are independent:
+-- one that fails (or whose ISBN is already catalogued) is reported and the
+-- rest of the batch still goes in.
+CREATE OR REPLACE FUNCTION public.import_books(_books JSONB)
+RETURNS TABLE (
+  row_number INTEGER,
+  book_id UUID,
+  error TEXT
+)
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  _row JSONB;
+  _new_book_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION USING MESSAGE = 'admin_only';
+  END IF;
+
+  FOR _row IN SELECT * FROM jsonb_array_elements(_books) LOOP
+    row_number := (_row->>'row_number')::INTEGER;
+    book_id := NULL;
+    error := NULL;
+
+    BEGIN
+      IF public.normalize_isbn(_row->>'isbn') IS NOT NULL AND EXISTS (
+        SELECT 1 FROM public.books b
+        WHERE public.normalize_isbn(b.isbn) = public.normalize_isbn(_row->>'isbn')
+      ) THEN
+        error := 'ISBN ' || (_row->>'isbn') || ' is already in the catalog';
+        RETURN NEXT;
+        CONTINUE;
+      END IF;
+
+      INSERT INTO public.books (
+        title, author, category_id, description, isbn, publisher,
+        year_published, language, replacement_cost, photo_url
+      )
+      VALUES (
+        _row->>'title',
+        _row->>'author',
+        (_row->>'category_id')::UUID,
+        NULLIF(_row->>'description', ''),
+        NULLIF(_row->>'isbn', ''),
+        NULLIF(_row->>'publisher', ''),
+        (_row->>'year_published')::INTEGER,
+        NULLIF(_row->>'language', ''),
+        (_row->>'replacement_cost')::NUMERIC,
+        NULLIF(_row->>'photo_url', '')
+      )
+      RETURNING id INTO _new_book_id;
+
+      -- Counts are derived from the copies, so register each physical copy
+      INSERT INTO public.book_copies (book_id)
+      SELECT _new_book_id
+      FROM generate_series(1, GREATEST(COALESCE((_row->>'copies')::INTEGER, 1), 1));
+
+      book_id := _new_book_id;
+    EXCEPTION WHEN OTHERS THEN
+      error := SQLERRM;
+    END;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
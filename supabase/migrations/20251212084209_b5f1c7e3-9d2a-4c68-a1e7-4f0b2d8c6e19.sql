@@ -0,0 +1,74 @@
+-- Catalog export for the export-catalog edge function: every book matching a
+-- search (the whole catalog when no filters are given) with its copies.
+CREATE OR REPLACE FUNCTION public.export_catalog(
+  _query TEXT DEFAULT NULL,
+  _category_id UUID DEFAULT NULL,
+  _publishers TEXT[] DEFAULT NULL,
+  _languages TEXT[] DEFAULT NULL,
+  _year_from INTEGER DEFAULT NULL,
+  _year_to INTEGER DEFAULT NULL,
+  _available_only BOOLEAN DEFAULT FALSE,
+  _terms JSONB DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  author TEXT,
+  category TEXT,
+  isbn TEXT,
+  publisher TEXT,
+  year_published INTEGER,
+  language TEXT,
+  description TEXT,
+  replacement_cost NUMERIC,
+  total_count INTEGER,
+  available_count INTEGER,
+  created_at TIMESTAMPTZ,
+  copies JSONB
+)
+LANGUAGE PLPGSQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION USING MESSAGE = 'admin_only';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    b.id,
+    b.title,
+    b.author,
+    CASE WHEN pc.name IS NULL THEN c.name ELSE pc.name || ' › ' || c.name END,
+    b.isbn,
+    b.publisher,
+    b.year_published,
+    b.language,
+    b.description,
+    b.replacement_cost,
+    b.total_count,
+    b.available_count,
+    b.created_at,
+    COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'accession_number', bc.accession_number,
+        'barcode', bc.barcode,
+        'condition', bc.condition,
+        'status', bc.status,
+        'acquired_on', bc.acquired_on,
+        'notes', bc.notes
+      ) ORDER BY bc.accession_number)
+      FROM public.book_copies bc
+      WHERE bc.book_id = b.id
+    ), '[]'::JSONB)
+  FROM public.match_books(
+    _query, _category_id, _publishers, _languages, _year_from, _year_to, _available_only, _terms
+  ) m
+  JOIN public.books b ON b.id = m.book_id
+  JOIN public.categories c ON c.id = b.category_id
+  LEFT JOIN public.categories pc ON pc.id = c.parent_id
+  ORDER BY b.title, b.id;
+END;
+$$;
@@ -0,0 +1,53 @@
+-- Adds a book and registers its copies in one transaction, so a failure
+-- part-way can't leave a catalogued book with no copies.
+CREATE OR REPLACE FUNCTION public.add_book(
+  _title TEXT,
+  _author TEXT,
+  _category_id UUID,
+  _description TEXT DEFAULT NULL,
+  _isbn TEXT DEFAULT NULL,
+  _publisher TEXT DEFAULT NULL,
+  _year_published INTEGER DEFAULT NULL,
+  _language TEXT DEFAULT NULL,
+  _photo_url TEXT DEFAULT NULL,
+  _replacement_cost NUMERIC DEFAULT NULL,
+  _copies INTEGER DEFAULT 1
+)
+RETURNS UUID
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _book_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION USING MESSAGE = 'admin_only';
+  END IF;
+
+  INSERT INTO public.books (
+    title, author, category_id, description, isbn, publisher,
+    year_published, language, photo_url, replacement_cost
+  )
+  VALUES (
+    _title,
+    _author,
+    _category_id,
+    NULLIF(_description, ''),
+    NULLIF(_isbn, ''),
+    NULLIF(_publisher, ''),
+    _year_published,
+    NULLIF(_language, ''),
+    NULLIF(_photo_url, ''),
+    _replacement_cost
+  )
+  RETURNING id INTO _book_id;
+
+  -- Counts are derived from the copies, so register each physical copy
+  INSERT INTO public.book_copies (book_id)
+  SELECT _book_id
+  FROM generate_series(1, GREATEST(COALESCE(_copies, 1), 1));
+
+  RETURN _book_id;
+END;
+$$;
@@ -0,0 +1,64 @@
+-- Renewals extend from the current due date, so renewing early still gains a
+-- full loan period instead of restarting the period from today
+CREATE OR REPLACE FUNCTION public.renew_loan(_request_id UUID)
+RETURNS DATE
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _loan public.borrow_requests%ROWTYPE;
+  _policy public.loan_policies%ROWTYPE;
+  _waiting_holds INTEGER;
+  _new_due_date DATE;
+BEGIN
+  SELECT * INTO _loan
+  FROM public.borrow_requests
+  WHERE id = _request_id
+    AND (student_id = auth.uid() OR public.has_role(auth.uid(), 'admin'))
+  FOR UPDATE;
+
+  IF _loan.id IS NULL THEN
+    RAISE EXCEPTION USING MESSAGE = 'loan_not_found';
+  END IF;
+
+  IF _loan.status NOT IN ('approved', 'issued') OR _loan.due_date IS NULL THEN
+    RAISE EXCEPTION USING MESSAGE = 'loan_not_active';
+  END IF;
+
+  IF _loan.due_date < CURRENT_DATE THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'renewal_overdue',
+      DETAIL = json_build_object('due_date', _loan.due_date)::TEXT;
+  END IF;
+
+  _policy := public.resolve_loan_policy(_loan.student_id, _loan.book_id);
+
+  IF _loan.renewal_count >= _policy.max_renewals THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'renewal_limit_reached',
+      DETAIL = json_build_object('renewals', _loan.renewal_count, 'max', _policy.max_renewals)::TEXT;
+  END IF;
+
+  SELECT COUNT(*) INTO _waiting_holds
+  FROM public.holds
+  WHERE book_id = _loan.book_id AND status = 'waiting';
+
+  IF _waiting_holds > 0 THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'renewal_book_on_hold',
+      DETAIL = json_build_object('holds', _waiting_holds)::TEXT;
+  END IF;
+
+  _new_due_date := public.next_open_day(_loan.due_date + _policy.loan_period_days);
+
+  UPDATE public.borrow_requests
+  SET
+    due_date = _new_due_date,
+    renewal_count = renewal_count + 1,
+    last_renewed_at = NOW()
+  WHERE id = _request_id;
+
+  RETURN _new_due_date;
+END;
+$$;
@@ -0,0 +1,146 @@
+-- Renewals and fines use the policy a loan was issued under (recorded in
+-- borrow_requests.policy_id), so loans keep their terms when policies are
+-- edited later; only loans from before policies were recorded resolve one.
+CREATE OR REPLACE FUNCTION public.get_loan_policy(_policy_id UUID, _student_id UUID, _book_id UUID)
+RETURNS public.loan_policies
+LANGUAGE PLPGSQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _policy public.loan_policies%ROWTYPE;
+BEGIN
+  SELECT * INTO _policy
+  FROM public.loan_policies
+  WHERE id = _policy_id;
+
+  IF _policy.id IS NULL THEN
+    _policy := public.resolve_loan_policy(_student_id, _book_id);
+  END IF;
+
+  RETURN _policy;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.renew_loan(_request_id UUID)
+RETURNS DATE
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _loan public.borrow_requests%ROWTYPE;
+  _policy public.loan_policies%ROWTYPE;
+  _waiting_holds INTEGER;
+  _new_due_date DATE;
+BEGIN
+  SELECT * INTO _loan
+  FROM public.borrow_requests
+  WHERE id = _request_id
+    AND (student_id = auth.uid() OR public.has_role(auth.uid(), 'admin'))
+  FOR UPDATE;
+
+  IF _loan.id IS NULL THEN
+    RAISE EXCEPTION USING MESSAGE = 'loan_not_found';
+  END IF;
+
+  IF _loan.status NOT IN ('approved', 'issued') OR _loan.due_date IS NULL THEN
+    RAISE EXCEPTION USING MESSAGE = 'loan_not_active';
+  END IF;
+
+  IF _loan.due_date < CURRENT_DATE THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'renewal_overdue',
+      DETAIL = json_build_object('due_date', _loan.due_date)::TEXT;
+  END IF;
+
+  _policy := public.get_loan_policy(_loan.policy_id, _loan.student_id, _loan.book_id);
+
+  IF _loan.renewal_count >= _policy.max_renewals THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'renewal_limit_reached',
+      DETAIL = json_build_object('renewals', _loan.renewal_count, 'max', _policy.max_renewals)::TEXT;
+  END IF;
+
+  SELECT COUNT(*) INTO _waiting_holds
+  FROM public.holds
+  WHERE book_id = _loan.book_id AND status = 'waiting';
+
+  IF _waiting_holds > 0 THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'renewal_book_on_hold',
+      DETAIL = json_build_object('holds', _waiting_holds)::TEXT;
+  END IF;
+
+  _new_due_date := public.next_open_day(_loan.due_date + _policy.loan_period_days);
+
+  UPDATE public.borrow_requests
+  SET
+    due_date = _new_due_date,
+    renewal_count = renewal_count + 1,
+    last_renewed_at = NOW()
+  WHERE id = _request_id;
+
+  RETURN _new_due_date;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_accruing_fine(_student_id UUID)
+RETURNS NUMERIC
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(public.count_open_days(r.due_date, CURRENT_DATE) * p.fine_per_day), 0)::NUMERIC(10, 2)
+  FROM public.borrow_requests r
+  CROSS JOIN LATERAL public.get_loan_policy(r.policy_id, r.student_id, r.book_id) p
+  WHERE r.student_id = _student_id
+    AND r.status IN ('approved', 'issued')
+    AND r.due_date < CURRENT_DATE
+$$;
+
+-- Overdue days are charged when a loan ends, whether the book came back or was lost
+CREATE OR REPLACE FUNCTION public.charge_overdue_fine()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _days_late INTEGER;
+  _fine_per_day NUMERIC(10, 2);
+BEGIN
+  IF NEW.status NOT IN ('returned', 'lost') OR OLD.status IN ('returned', 'lost') OR NEW.due_date IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  _days_late := public.count_open_days(NEW.due_date, COALESCE(NEW.return_date, CURRENT_DATE));
+
+  IF _days_late <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT fine_per_day INTO _fine_per_day
+  FROM public.get_loan_policy(NEW.policy_id, NEW.student_id, NEW.book_id);
+
+  IF _fine_per_day > 0 THEN
+    INSERT INTO public.fines (student_id, borrow_request_id, entry_type, kind, amount, reason)
+    VALUES (
+      NEW.student_id,
+      NEW.id,
+      'charge',
+      'overdue',
+      _days_late * _fine_per_day,
+      CASE NEW.status
+        WHEN 'lost' THEN format('Reported lost %s open day(s) after the due date', _days_late)
+        ELSE format('Returned %s open day(s) late', _days_late)
+      END
+    )
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
@@ -0,0 +1,75 @@
+-- A lost book scanned back in at the desk is found, not just returned, so
+-- its replacement charge is reversed as when an admin marks it found
+CREATE OR REPLACE FUNCTION public.desk_checkin(_barcode TEXT)
+RETURNS TABLE (
+  request_id UUID,
+  book_title TEXT,
+  accession_number TEXT,
+  student_name TEXT,
+  due_date DATE,
+  fine NUMERIC
+)
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _copy public.book_copies%ROWTYPE;
+  _request_id UUID;
+  _request_status borrow_status;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION USING MESSAGE = 'admin_only';
+  END IF;
+
+  SELECT c.* INTO _copy
+  FROM public.book_copies c
+  WHERE c.barcode = TRIM(_barcode) OR c.accession_number = UPPER(TRIM(_barcode));
+
+  IF _copy.id IS NULL THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'copy_not_found',
+      DETAIL = json_build_object('barcode', _barcode)::TEXT;
+  END IF;
+
+  -- Copies on the pickup shelf were never lent, so they are not checked in
+  SELECT id, status INTO _request_id, _request_status
+  FROM public.borrow_requests
+  WHERE copy_id = _copy.id AND status IN ('issued', 'lost')
+  ORDER BY created_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF _request_id IS NULL THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'copy_not_on_loan',
+      DETAIL = json_build_object('accession_number', _copy.accession_number, 'status', _copy.status)::TEXT;
+  END IF;
+
+  -- A lost book scanned back in is found: its replacement charge is reversed
+  IF _request_status = 'lost' THEN
+    PERFORM public.mark_loan_found(_request_id);
+  ELSE
+    UPDATE public.borrow_requests
+    SET status = 'returned', return_date = CURRENT_DATE
+    WHERE id = _request_id;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    r.id,
+    b.title,
+    _copy.accession_number,
+    p.name,
+    r.due_date,
+    COALESCE((
+      SELECT f.amount
+      FROM public.fines f
+      WHERE f.borrow_request_id = r.id AND f.entry_type = 'charge' AND f.kind = 'overdue'
+    ), 0)::NUMERIC(10, 2)
+  FROM public.borrow_requests r
+  JOIN public.books b ON b.id = r.book_id
+  JOIN public.profiles p ON p.id = r.student_id
+  WHERE r.id = _request_id;
+END;
+$$;
@@ -0,0 +1,82 @@
+-- The expiry job also releases ready holds that weren't collected in time.
+-- The result gains a column, so the function is dropped and created again.
+DROP FUNCTION public.expire_stale_borrow_requests();
+
+CREATE OR REPLACE FUNCTION public.expire_stale_borrow_requests()
+RETURNS TABLE (
+  expired_pending INTEGER,
+  expired_approvals INTEGER,
+  expired_holds INTEGER
+)
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _settings public.library_settings%ROWTYPE;
+  _request RECORD;
+BEGIN
+  -- Run by the scheduler with the service role key, or by an admin on demand
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION USING MESSAGE = 'admin_only';
+  END IF;
+
+  SELECT * INTO _settings FROM public.library_settings;
+  expired_pending := 0;
+  expired_approvals := 0;
+
+  -- Ready holds that weren't collected pass their copy to the next student
+  expired_holds := public.expire_ready_holds();
+
+  FOR _request IN
+    SELECT r.id, r.student_id, b.title
+    FROM public.borrow_requests r
+    JOIN public.books b ON b.id = r.book_id
+    WHERE r.status = 'pending'
+      AND r.created_at < NOW() - make_interval(days => _settings.pending_expiry_days)
+    FOR UPDATE OF r SKIP LOCKED
+  LOOP
+    UPDATE public.borrow_requests
+    SET status = 'expired'
+    WHERE id = _request.id;
+
+    INSERT INTO public.notifications (user_id, title, body, borrow_request_id)
+    VALUES (
+      _request.student_id,
+      'Request expired',
+      format('Your request for "%s" was not processed within %s days and has expired. You can request it again.',
+             _request.title, _settings.pending_expiry_days),
+      _request.id
+    );
+
+    expired_pending := expired_pending + 1;
+  END LOOP;
+
+  -- The copy leaves the pickup shelf through sync_borrow_request_copy
+  FOR _request IN
+    SELECT r.id, r.student_id, b.title
+    FROM public.borrow_requests r
+    JOIN public.books b ON b.id = r.book_id
+    WHERE r.status = 'approved'
+      AND r.ready_at < NOW() - make_interval(days => _settings.pickup_deadline_days)
+    FOR UPDATE OF r SKIP LOCKED
+  LOOP
+    UPDATE public.borrow_requests
+    SET status = 'expired'
+    WHERE id = _request.id;
+
+    INSERT INTO public.notifications (user_id, title, body, borrow_request_id)
+    VALUES (
+      _request.student_id,
+      'Approved book not collected',
+      format('"%s" was not collected within %s days and has been returned to the shelf.',
+             _request.title, _settings.pickup_deadline_days),
+      _request.id
+    );
+
+    expired_approvals := expired_approvals + 1;
+  END LOOP;
+
+  RETURN NEXT;
+END;
+$$;
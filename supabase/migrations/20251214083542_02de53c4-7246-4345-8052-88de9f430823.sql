@@ -0,0 +1,107 @@
+-- Only books in the borrower's hands can be lost or returned damaged; a copy
+-- still on the pickup shelf is released by rejecting or expiring the request
+CREATE OR REPLACE FUNCTION public.report_loan_lost(_request_id UUID, _charge NUMERIC DEFAULT NULL)
+RETURNS NUMERIC
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _loan public.borrow_requests%ROWTYPE;
+  _is_admin BOOLEAN := public.has_role(auth.uid(), 'admin');
+  _amount NUMERIC(10, 2);
+BEGIN
+  SELECT * INTO _loan
+  FROM public.borrow_requests
+  WHERE id = _request_id
+    AND (student_id = auth.uid() OR _is_admin)
+  FOR UPDATE;
+
+  IF _loan.id IS NULL THEN
+    RAISE EXCEPTION USING MESSAGE = 'loan_not_found';
+  END IF;
+
+  IF _loan.status != 'issued' THEN
+    RAISE EXCEPTION USING MESSAGE = 'loan_not_active';
+  END IF;
+
+  _amount := CASE
+    WHEN _is_admin AND _charge IS NOT NULL THEN _charge
+    ELSE public.get_replacement_cost(_loan.book_id)
+  END;
+
+  UPDATE public.borrow_requests
+  SET status = 'lost'
+  WHERE id = _request_id;
+
+  IF _amount > 0 THEN
+    INSERT INTO public.fines (student_id, borrow_request_id, entry_type, kind, amount, reason, recorded_by)
+    VALUES (
+      _loan.student_id,
+      _loan.id,
+      'charge',
+      'replacement',
+      _amount,
+      'Replacement for lost book',
+      CASE WHEN _is_admin THEN auth.uid() END
+    );
+  END IF;
+
+  RETURN _amount;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.return_loan_damaged(_request_id UUID, _charge NUMERIC DEFAULT NULL, _note TEXT DEFAULT NULL)
+RETURNS NUMERIC
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _loan public.borrow_requests%ROWTYPE;
+  _amount NUMERIC(10, 2);
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION USING MESSAGE = 'admin_only';
+  END IF;
+
+  SELECT * INTO _loan
+  FROM public.borrow_requests
+  WHERE id = _request_id
+  FOR UPDATE;
+
+  IF _loan.id IS NULL THEN
+    RAISE EXCEPTION USING MESSAGE = 'loan_not_found';
+  END IF;
+
+  IF _loan.status != 'issued' THEN
+    RAISE EXCEPTION USING MESSAGE = 'loan_not_active';
+  END IF;
+
+  _amount := COALESCE(_charge, public.get_replacement_cost(_loan.book_id));
+
+  -- Withdraw the copy first so returning the loan does not put it back on the shelf
+  UPDATE public.book_copies
+  SET status = 'damaged', condition = 'damaged', notes = COALESCE(NULLIF(TRIM(_note), ''), notes)
+  WHERE id = _loan.copy_id;
+
+  UPDATE public.borrow_requests
+  SET status = 'returned', return_date = CURRENT_DATE
+  WHERE id = _request_id;
+
+  IF _amount > 0 THEN
+    INSERT INTO public.fines (student_id, borrow_request_id, entry_type, kind, amount, reason, recorded_by)
+    VALUES (
+      _loan.student_id,
+      _loan.id,
+      'charge',
+      'damage',
+      _amount,
+      COALESCE('Returned damaged: ' || NULLIF(TRIM(_note), ''), 'Returned damaged'),
+      auth.uid()
+    );
+  END IF;
+
+  RETURN _amount;
+END;
+$$;
@@ -0,0 +1,21 @@
+CREATE INDEX books_author_trgm_idx ON public.books USING GIN (LOWER(author) extensions.gin_trgm_ops);
+
+-- Catalogued author names containing the typed text, for picking the author
+-- an alias belongs to without loading every book
+CREATE OR REPLACE FUNCTION public.search_authors(_query TEXT, _limit INTEGER DEFAULT 20)
+RETURNS TABLE (
+  author TEXT,
+  book_count INTEGER
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT b.author, COUNT(*)::INTEGER
+  FROM public.books b
+  WHERE LOWER(b.author) LIKE '%' || LOWER(TRIM(_query)) || '%'
+  GROUP BY b.author
+  ORDER BY LOWER(b.author) LIKE LOWER(TRIM(_query)) || '%' DESC, COUNT(*) DESC, b.author
+  LIMIT LEAST(GREATEST(_limit, 1), 50)
+$$;
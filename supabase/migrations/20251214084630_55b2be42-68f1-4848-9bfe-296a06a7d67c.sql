@@ -0,0 +1,17 @@
+-- Expire stale requests and uncollected holds every hour. The job calls the
+-- database function directly, so it needs no keys; pg_cron runs it outside
+-- any API request, so it sets the service role claim the function checks.
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+
+SELECT cron.schedule(
+  'expire-stale-requests',
+  '0 * * * *',
+  $$
+  DO $job$
+  BEGIN
+    PERFORM set_config('request.jwt.claims', '{"role": "service_role"}', true);
+    PERFORM public.expire_stale_borrow_requests();
+  END
+  $job$
+  $$
+);
@@ -0,0 +1,30 @@
+-- Damaged copies are withdrawn until they are repaired, so like lost and
+-- retired copies they no longer count towards the book's total
+CREATE OR REPLACE FUNCTION public.refresh_book_counts(_book_id UUID)
+RETURNS VOID
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.books
+  SET
+    total_count = (
+      SELECT COUNT(*) FROM public.book_copies
+      WHERE book_id = _book_id AND status NOT IN ('damaged', 'lost', 'retired')
+    ),
+    available_count = (
+      SELECT COUNT(*) FROM public.book_copies
+      WHERE book_id = _book_id AND status = 'available'
+    )
+  WHERE id = _book_id;
+END;
+$$;
+
+-- Books that already have damaged copies
+SELECT public.refresh_book_counts(b.id)
+FROM public.books b
+WHERE EXISTS (
+  SELECT 1 FROM public.book_copies c
+  WHERE c.book_id = b.id AND c.status = 'damaged'
+);
@@ -0,0 +1,133 @@
+-- A book can be added with at most 500 copies (as bookSchema allows), so a
+-- mistyped count can't register thousands of copies. add_book raises a typed
+-- error; import_books reports the row and carries on with the rest.
+CREATE OR REPLACE FUNCTION public.add_book(
+  _title TEXT,
+  _author TEXT,
+  _category_id UUID,
+  _description TEXT DEFAULT NULL,
+  _isbn TEXT DEFAULT NULL,
+  _publisher TEXT DEFAULT NULL,
+  _year_published INTEGER DEFAULT NULL,
+  _language TEXT DEFAULT NULL,
+  _photo_url TEXT DEFAULT NULL,
+  _replacement_cost NUMERIC DEFAULT NULL,
+  _copies INTEGER DEFAULT 1
+)
+RETURNS UUID
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _book_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION USING MESSAGE = 'admin_only';
+  END IF;
+
+  IF _copies > 500 THEN
+    RAISE EXCEPTION USING
+      MESSAGE = 'too_many_copies',
+      DETAIL = json_build_object('copies', _copies, 'max', 500)::TEXT;
+  END IF;
+
+  INSERT INTO public.books (
+    title, author, category_id, description, isbn, publisher,
+    year_published, language, photo_url, replacement_cost
+  )
+  VALUES (
+    _title,
+    _author,
+    _category_id,
+    NULLIF(_description, ''),
+    NULLIF(_isbn, ''),
+    NULLIF(_publisher, ''),
+    _year_published,
+    NULLIF(_language, ''),
+    NULLIF(_photo_url, ''),
+    _replacement_cost
+  )
+  RETURNING id INTO _book_id;
+
+  -- Counts are derived from the copies, so register each physical copy
+  INSERT INTO public.book_copies (book_id)
+  SELECT _book_id
+  FROM generate_series(1, GREATEST(COALESCE(_copies, 1), 1));
+
+  RETURN _book_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.import_books(_books JSONB)
+RETURNS TABLE (
+  row_number INTEGER,
+  book_id UUID,
+  error TEXT
+)
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  _row JSONB;
+  _new_book_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION USING MESSAGE = 'admin_only';
+  END IF;
+
+  FOR _row IN SELECT * FROM jsonb_array_elements(_books) LOOP
+    row_number := (_row->>'row_number')::INTEGER;
+    book_id := NULL;
+    error := NULL;
+
+    BEGIN
+      IF public.normalize_isbn(_row->>'isbn') IS NOT NULL AND EXISTS (
+        SELECT 1 FROM public.books b
+        WHERE public.normalize_isbn(b.isbn) = public.normalize_isbn(_row->>'isbn')
+      ) THEN
+        error := 'ISBN ' || (_row->>'isbn') || ' is already in the catalog';
+        RETURN NEXT;
+        CONTINUE;
+      END IF;
+
+      IF (_row->>'copies')::INTEGER > 500 THEN
+        error := 'Copies: ' || (_row->>'copies') || ' is more than the 500 a book can have';
+        RETURN NEXT;
+        CONTINUE;
+      END IF;
+
+      INSERT INTO public.books (
+        title, author, category_id, description, isbn, publisher,
+        year_published, language, replacement_cost, photo_url
+      )
+      VALUES (
+        _row->>'title',
+        _row->>'author',
+        (_row->>'category_id')::UUID,
+        NULLIF(_row->>'description', ''),
+        NULLIF(_row->>'isbn', ''),
+        NULLIF(_row->>'publisher', ''),
+        (_row->>'year_published')::INTEGER,
+        NULLIF(_row->>'language', ''),
+        (_row->>'replacement_cost')::NUMERIC,
+        NULLIF(_row->>'photo_url', '')
+      )
+      RETURNING id INTO _new_book_id;
+
+      -- Counts are derived from the copies, so register each physical copy
+      INSERT INTO public.book_copies (book_id)
+      SELECT _new_book_id
+      FROM generate_series(1, GREATEST(COALESCE((_row->>'copies')::INTEGER, 1), 1));
+
+      book_id := _new_book_id;
+    EXCEPTION WHEN OTHERS THEN
+      error := SQLERRM;
+    END;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;